@@ -0,0 +1,146 @@
+// server/sync-server.mjs
+//
+// Reference server for remote sync (src/services/remoteSync.ts). It stores
+// records as the app sends them, so with encryption on it never sees content.
+// No dependencies; run with `npm run sync-server`.
+//
+//   PORT         port to listen on (default 8787)
+//   SYNC_DATA    JSON file holding the data (default ~/.ai-tutor-sync.json, outside
+//                the repo so user data can't be committed by accident)
+//   SYNC_TOKEN   bearer token clients must send (default: none)
+//
+// Routes:
+//   GET  /v1/meta              -> { encryption }
+//   PUT  /v1/meta              <- { encryption }; 409 if different ones exist
+//   GET  /v1/changes?since=N   -> { records, cursor }: records stored after revision N
+//   POST /v1/changes           <- { records } -> { conflicts }: records kept because ours are newer
+
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.SYNC_DATA || join(homedir(), '.ai-tutor-sync.json');
+const TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+const STORES = new Set(['conversations', 'notes', 'flowcharts', 'folders', 'quizSessions', 'reviewCards', 'settings']);
+
+// { meta, revision, records: { "<store>:<id>": { ...record, revision } } }
+const db = existsSync(DATA_FILE)
+  ? JSON.parse(readFileSync(DATA_FILE, 'utf8'))
+  : { meta: { encryption: null }, revision: 0, records: {} };
+
+// Write to a temporary file first so a crash never leaves half a file
+function persist() {
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(db));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, PUT, POST, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function isValidRecord(record) {
+  return record
+    && STORES.has(record.store)
+    && typeof record.id === 'string'
+    && typeof record.updatedAt === 'string'
+    && !Number.isNaN(Date.parse(record.updatedAt))
+    && (record.deleted === true || typeof record.payload === 'string');
+}
+
+function withoutRevision({ revision: _revision, ...record }) {
+  return record;
+}
+
+// Keeps whichever copy has the later updatedAt; an equal one replaces ours
+function pushRecords(records) {
+  const conflicts = [];
+  records.forEach(record => {
+    const key = `${record.store}:${record.id}`;
+    const existing = db.records[key];
+    if (existing && Date.parse(existing.updatedAt) > Date.parse(record.updatedAt)) {
+      conflicts.push(withoutRevision(existing));
+      return;
+    }
+    db.revision++;
+    const { store, id, updatedAt, deleted, encrypted, payload } = record;
+    db.records[key] = deleted
+      ? { store, id, updatedAt, deleted: true, revision: db.revision }
+      : { store, id, updatedAt, encrypted: !!encrypted, payload, revision: db.revision };
+  });
+  persist();
+  return conflicts;
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url, 'http://localhost');
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: 'Unauthorized' });
+
+  if (url.pathname === '/v1/meta' && req.method === 'GET') {
+    return send(res, 200, db.meta);
+  }
+  if (url.pathname === '/v1/meta' && req.method === 'PUT') {
+    const meta = await readBody(req);
+    if (db.meta.encryption && JSON.stringify(db.meta.encryption) !== JSON.stringify(meta.encryption)) {
+      return send(res, 409, { error: 'Encryption settings already exist' });
+    }
+    db.meta = { encryption: meta.encryption ?? null };
+    persist();
+    return send(res, 200, db.meta);
+  }
+  if (url.pathname === '/v1/changes' && req.method === 'GET') {
+    const since = Number(url.searchParams.get('since')) || 0;
+    const records = Object.values(db.records)
+      .filter(record => record.revision > since)
+      .sort((a, b) => a.revision - b.revision)
+      .map(withoutRevision);
+    return send(res, 200, { records, cursor: db.revision });
+  }
+  if (url.pathname === '/v1/changes' && req.method === 'POST') {
+    const { records } = await readBody(req);
+    if (!Array.isArray(records) || !records.every(isValidRecord)) {
+      return send(res, 400, { error: 'Expected { records: [...] } with store, id, updatedAt and payload or deleted' });
+    }
+    return send(res, 200, { conflicts: pushRecords(records) });
+  }
+  return send(res, 404, { error: 'Not found' });
+}
+
+createServer((req, res) => {
+  handle(req, res).catch(error => send(res, 400, { error: error.message }));
+}).listen(PORT, () => {
+  console.log(`Sync server listening on http://localhost:${PORT} (data: ${DATA_FILE}${TOKEN ? ', token required' : ''})`);
+});
@@ -1,6 +1,6 @@
 // src/App.tsx
 
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { ChatArea } from './components/ChatArea';
 import { NoteView } from './components/NoteView';
@@ -8,35 +8,77 @@ import { FlowchartView } from './components/FlowchartView';
 import { InstallPrompt } from './components/InstallPrompt';
 import { SettingsModal } from './components/SettingsModal';
 import { QuizModal } from './components/QuizModal';
-import { Notification } from './components/Notification';
-import { Conversation, Message, APISettings, Note, StudySession, Flowchart, TutorMode } from './types';
-import { generateId } from './utils/helpers';
+import { QuizHistoryModal } from './components/QuizHistoryModal';
+import { ReviewModal } from './components/ReviewModal';
+import { Notification, NotificationAction } from './components/Notification';
+import { VaultUnlockModal } from './components/VaultUnlockModal';
+import { Conversation, Message, APISettings, Note, StudySession, QuizQuestion, Flowchart, Folder, ReviewCard, ReviewGrade, TutorMode, AIModel, TokenUsage, UsageTotals, Comparison, ComparisonColumn } from './types';
+import { downloadFile, generateId } from './utils/helpers';
+import { deriveNoteTitle, editNote, restoreRevision } from './utils/notes';
+import { addTag, canMoveFolder, getFolderPath, moveToFolder, OrganizedEntity, OrganizedItem, removeFolder, removeTag } from './utils/organize';
+import { createRetakeSession, getConversationSessions } from './utils/quizHistory';
+import { addQuizToDeck, extractNoteCards, getDueCards, reviewCard, syncNoteCards } from './utils/reviewDeck';
+import { createLinkResolver, findBacklinks, getLinkCandidates, WikiLink, WikiLinkResolver } from './utils/wikiLinks';
 import { generateSmartTitle } from './services/titleGenerator';
 import { usePWA } from './hooks/usePWA';
 import { Menu } from 'lucide-react';
 import { storageUtils } from './utils/storage';
+import { applySecrets, extractSecrets, keyVault, stripSecrets, VaultStatus } from './utils/keyVault';
+import { mergeRecords, withConversationLock } from './utils/tabSync';
+import { BackupData, createSelectionBackup } from './services/backup';
+import { applySyncChanges, remoteSync, SyncConfig, SyncInput, SyncStatus } from './services/remoteSync';
+import type { ExportFormat } from './services/conversationExport';
+import { SearchTarget } from './services/searchIndex';
 import { aiService } from './services/aiService';
+import { providerRegistry } from './services/providers';
+import { getModelOptions, MIN_COMPARE_MODELS } from './utils/models';
+import { getActiveLeaf, getActivePath, getLatestLeafId, switchBranch } from './utils/messageTree';
 import { generateFlowchartFromConversation } from './services/flowchartGenerator';
+import { generateQuizFromConversation, gradeShortAnswer } from './services/quizGenerator';
+import { buildChatContext, getContextUsage } from './services/contextManager';
+import { addUsage, subscribeToBudgetWarnings } from './services/usageTracker';
 import { ShootingStars } from './components/ShootingStars';
 
 type ActiveView = 'chat' | 'note' | 'flowchart';
 
+const SYNC_INTERVAL_MS = 2 * 60 * 1000;
+
+function addMessageUsage(totals: UsageTotals | undefined, message: Message): UsageTotals | undefined {
+  if (!message.usage || !message.model) return totals;
+  return addUsage(totals, message.model, message.usage);
+}
+
 interface NotificationState {
   show: boolean;
   message: string;
   type: 'success' | 'error';
+  action?: NotificationAction;
 }
 
 function App() {
   // --- STATE INITIALIZATION ---
-  const [conversations, setConversations] = useState<Conversation[]>(() => storageUtils.getConversations());
-  const [notes, setNotes] = useState<Note[]>(() => storageUtils.getNotes());
-  const [flowcharts, setFlowcharts] = useState<Flowchart[]>(() => storageUtils.getFlowcharts());
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [flowcharts, setFlowcharts] = useState<Flowchart[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  // Completed quizzes of every conversation
+  const [quizSessions, setQuizSessions] = useState<StudySession[]>([]);
+  const [reviewCards, setReviewCards] = useState<ReviewCard[]>([]);
+  // Nothing is saved until the stored data has loaded, so it can't be overwritten
+  const [isDataLoaded, setIsDataLoaded] = useState(false);
   const [settings, setSettings] = useState<APISettings>(() => storageUtils.getSettings());
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>(() => keyVault.getStatus());
+  const [isVaultPromptOpen, setIsVaultPromptOpen] = useState(() => keyVault.getStatus() === 'locked');
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(() => remoteSync.getStatus());
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(() => remoteSync.getLastSyncedAt());
+  const [isSyncing, setIsSyncing] = useState(false);
   const [activeView, setActiveView] = useState<ActiveView>('chat');
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
   const [currentNoteId, setCurrentNoteId] = useState<string | null>(null);
   const [currentFlowchartId, setCurrentFlowchartId] = useState<string | null>(null);
+  // A search hit waiting to be scrolled to once its view renders
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null);
   const [sidebarFolded, setSidebarFolded] = useState(() => {
     const stored = localStorage.getItem('ai-tutor-sidebar-folded');
     return stored ? JSON.parse(stored) : false;
@@ -46,9 +88,17 @@ function App() {
   const [isQuizLoading, setIsQuizLoading] = useState(false);
   const [isFlowchartLoading, setIsFlowchartLoading] = useState(false);
   const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
+  const [compareModels, setCompareModels] = useState<AIModel[]>([]);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [isQuizModalOpen, setIsQuizModalOpen] = useState(false);
+  const [isQuizHistoryOpen, setIsQuizHistoryOpen] = useState(false);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  // Cards due when the review session was opened
+  const [reviewSessionIds, setReviewSessionIds] = useState<string[]>([]);
+  // Cards fall due as time passes; recounted every minute
+  const [reviewClock, setReviewClock] = useState(() => Date.now());
   const [studySession, setStudySession] = useState<StudySession | null>(null);
 
   // Notification state
@@ -60,12 +110,22 @@ function App() {
 
   // Use AbortController for proper cancellation
   const abortControllerRef = useRef<AbortController | null>(null);
+  const quizAbortControllerRef = useRef<AbortController | null>(null);
+  const flowchartAbortControllerRef = useRef<AbortController | null>(null);
+  // The AI title of the newest chat, generated in the background
+  const titleAbortControllerRef = useRef<AbortController | null>(null);
+  // Latest state for the sync timer, which outlives any single render
+  const syncInputRef = useRef<SyncInput>({ data: { conversations, notes, flowcharts, folders, quizSessions, reviewCards }, settings });
+  syncInputRef.current = { data: { conversations, notes, flowcharts, folders, quizSessions, reviewCards }, settings };
+  const handleSyncRef = useRef<(manual: boolean) => Promise<void>>(async () => {});
+  // Lets the link resolver stay the same object while the handlers behind it change
+  const openWikiLinkRef = useRef<(link: WikiLink) => void>(() => {});
 
   const { isInstallable, isInstalled, installApp, dismissInstallPrompt } = usePWA();
 
   // Helper function to show notifications
-  const showNotification = (message: string, type: 'success' | 'error') => {
-    setNotification({ show: true, message, type });
+  const showNotification = (message: string, type: 'success' | 'error', action?: NotificationAction) => {
+    setNotification({ show: true, message, type, action });
   };
 
   const hideNotification = () => {
@@ -74,17 +134,52 @@ function App() {
 
   // --- EFFECTS ---
   useEffect(() => {
-    const initialConversations = storageUtils.getConversations();
-    if (initialConversations.length > 0) {
-      const sorted = [...initialConversations].sort((a, b) => {
-        if (a.isPinned && !b.isPinned) return -1;
-        if (!a.isPinned && b.isPinned) return 1;
-        return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+    Promise.all([
+      storageUtils.getConversations(),
+      storageUtils.getNotes(),
+      storageUtils.getFlowcharts(),
+      storageUtils.getFolders(),
+      storageUtils.getQuizSessions(),
+      storageUtils.getReviewCards(),
+    ])
+      .then(([initialConversations, initialNotes, initialFlowcharts, initialFolders, initialQuizSessions, initialReviewCards]) => {
+        setConversations(initialConversations);
+        setNotes(initialNotes);
+        setFlowcharts(initialFlowcharts);
+        setFolders(initialFolders);
+        setQuizSessions(initialQuizSessions);
+        setReviewCards(initialReviewCards);
+        setIsDataLoaded(true);
+        if (initialConversations.length > 0) {
+          const sorted = [...initialConversations].sort((a, b) => {
+            if (a.isPinned && !b.isPinned) return -1;
+            if (!a.isPinned && b.isPinned) return 1;
+            return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+          });
+          setCurrentConversationId(sorted[0].id);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading data:', error);
+        setNotification({ show: true, message: 'Could not open local storage. Changes in this session will not be saved.', type: 'error' });
       });
-      setCurrentConversationId(sorted[0].id);
-    }
   }, []);
 
+  // Saves made in other open tabs; for a record both tabs changed, the newer edit wins
+  useEffect(() => storageUtils.subscribeToChanges(change => {
+    if (change.store === 'conversations') setConversations(prev => mergeRecords(prev, change.records, change.removed));
+    else if (change.store === 'notes') setNotes(prev => mergeRecords(prev, change.records, change.removed));
+    else if (change.store === 'flowcharts') setFlowcharts(prev => mergeRecords(prev, change.records, change.removed));
+    else if (change.store === 'folders') setFolders(prev => mergeRecords(prev, change.records, change.removed));
+    else if (change.store === 'quizSessions') setQuizSessions(prev => mergeRecords(prev, change.records, change.removed));
+    else setReviewCards(prev => mergeRecords(prev, change.records, change.removed));
+  }), []);
+
+  useEffect(() => storageUtils.subscribeToSettings(stored => {
+    // Settings are stored without keys while the vault is on; keep the ones unlocked here
+    setSettings(prev => (keyVault.isEnabled() ? applySecrets(stored, extractSecrets(prev)) : stored));
+  }), []);
+
   useEffect(() => {
     const handleResize = () => {
       if (window.innerWidth >= 1024) {
@@ -102,35 +197,82 @@ function App() {
     aiService.updateSettings(settings);
   }, [settings]);
 
+  // Shared keys run into free-tier limits; warn as a provider's daily budget runs out
+  useEffect(() => subscribeToBudgetWarnings(message => {
+    setNotification({ show: true, message, type: 'error' });
+  }), []);
+
   // Debounced save to prevent too frequent writes
   useEffect(() => {
+    if (!isDataLoaded) return;
     const timeoutId = setTimeout(() => {
       storageUtils.saveConversations(conversations);
     }, 500);
     return () => clearTimeout(timeoutId);
-  }, [conversations]);
+  }, [conversations, isDataLoaded]);
 
   useEffect(() => {
+    if (!isDataLoaded) return;
     const timeoutId = setTimeout(() => {
       storageUtils.saveNotes(notes);
     }, 500);
     return () => clearTimeout(timeoutId);
-  }, [notes]);
+  }, [notes, isDataLoaded]);
 
   useEffect(() => {
+    if (!isDataLoaded) return;
     const timeoutId = setTimeout(() => {
       storageUtils.saveFlowcharts(flowcharts);
     }, 500);
     return () => clearTimeout(timeoutId);
-  }, [flowcharts]);
+  }, [flowcharts, isDataLoaded]);
+
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const timeoutId = setTimeout(() => {
+      storageUtils.saveFolders(folders);
+    }, 500);
+    return () => clearTimeout(timeoutId);
+  }, [folders, isDataLoaded]);
+
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const timeoutId = setTimeout(() => {
+      storageUtils.saveQuizSessions(quizSessions);
+    }, 500);
+    return () => clearTimeout(timeoutId);
+  }, [quizSessions, isDataLoaded]);
+
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const timeoutId = setTimeout(() => {
+      storageUtils.saveReviewCards(reviewCards);
+    }, 500);
+    return () => clearTimeout(timeoutId);
+  }, [reviewCards, isDataLoaded]);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setReviewClock(Date.now()), 60 * 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  // Syncs on load, then every few minutes while sync is set up and unlocked
+  useEffect(() => {
+    if (!isDataLoaded || syncStatus !== 'ready') return;
+    handleSyncRef.current(false);
+    const intervalId = setInterval(() => handleSyncRef.current(false), SYNC_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isDataLoaded, syncStatus]);
 
   useEffect(() => {
     localStorage.setItem('ai-tutor-sidebar-folded', JSON.stringify(sidebarFolded));
   }, [sidebarFolded]);
 
-  // Close quiz modal when conversation changes
+  // Close quiz modal (and cancel a pending quiz) when conversation changes
   useEffect(() => {
+    quizAbortControllerRef.current?.abort();
     setIsQuizModalOpen(false);
+    setIsQuizHistoryOpen(false);
     setStudySession(null);
   }, [currentConversationId]);
 
@@ -140,6 +282,13 @@ function App() {
     [conversations, currentConversationId]
   );
 
+  const dueReviewCards = useMemo(() => getDueCards(reviewCards, new Date(reviewClock)), [reviewCards, reviewClock]);
+
+  const currentQuizSessions = useMemo(() =>
+    (currentConversationId ? getConversationSessions(quizSessions, currentConversationId) : []),
+    [quizSessions, currentConversationId]
+  );
+
   const currentNote = useMemo(() =>
     notes.find(n => n.id === currentNoteId),
     [notes, currentNoteId]
@@ -150,7 +299,37 @@ function App() {
     [flowcharts, currentFlowchartId]
   );
 
-  const hasApiKey = !!(settings.googleApiKey || settings.zhipuApiKey || settings.mistralApiKey);
+  const resolveLink = useMemo(
+    () => createLinkResolver(conversations, notes, flowcharts),
+    [conversations, notes, flowcharts]
+  );
+
+  const linkResolver = useMemo<WikiLinkResolver>(
+    () => ({ resolve: resolveLink, open: link => openWikiLinkRef.current(link) }),
+    [resolveLink]
+  );
+
+  const linkCandidates = useMemo(
+    () => getLinkCandidates(conversations, notes, flowcharts),
+    [conversations, notes, flowcharts]
+  );
+
+  const currentNoteBacklinks = useMemo(
+    () => (currentNote ? findBacklinks(currentNote, conversations, notes, flowcharts) : []),
+    [currentNote, conversations, notes, flowcharts]
+  );
+
+  const hasApiKey = providerRegistry.hasAnyApiKey(settings);
+
+  const modelOptions = useMemo(() => getModelOptions(settings.customEndpoints), [settings.customEndpoints]);
+
+  const contextUsage = useMemo(() => {
+    if (!currentConversation) return undefined;
+    return getContextUsage(currentConversation, [
+      settings.selectedModel,
+      ...(currentConversation.fallbackModels || []),
+    ]);
+  }, [currentConversation, settings]);
 
   // --- GENERAL HANDLERS ---
   const handleSelectConversation = (id: string | null) => {
@@ -177,6 +356,56 @@ function App() {
     if (window.innerWidth < 1024) setSidebarOpen(false);
   };
 
+  const handleOpenSearchResult = (target: SearchTarget) => {
+    switch (target.type) {
+      case 'conversation':
+        handleSelectConversation(target.conversationId);
+        break;
+      case 'message':
+        // Messages on another branch are shown by switching to it
+        setConversations(prev => prev.map(conv =>
+          conv.id === target.conversationId && !getActivePath(conv).some(m => m.id === target.messageId)
+            ? { ...conv, activeLeafId: getLatestLeafId(conv.messages, target.messageId), changedAt: new Date() }
+            : conv
+        ));
+        handleSelectConversation(target.conversationId);
+        setFocusedMessageId(target.messageId);
+        break;
+      case 'note':
+        handleSelectNote(target.noteId);
+        break;
+      case 'flowchart':
+        handleSelectFlowchart(target.flowchartId);
+        break;
+      case 'flowchartNode':
+        handleSelectFlowchart(target.flowchartId);
+        setFocusedNodeId(target.nodeId);
+        break;
+    }
+  };
+
+  // Links to a note that doesn't exist yet create it, as in a wiki
+  const handleOpenWikiLink = (link: WikiLink) => {
+    const target = resolveLink(link);
+    if (target) {
+      handleOpenSearchResult(target);
+    } else if (link.kind === 'note') {
+      const newNote: Note = {
+        id: generateId(),
+        title: link.title,
+        content: '',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      setNotes(prev => [newNote, ...prev]);
+      handleSelectNote(newNote.id);
+    }
+  };
+  openWikiLinkRef.current = handleOpenWikiLink;
+
+  const clearFocusedMessage = useCallback(() => setFocusedMessageId(null), []);
+  const clearFocusedNode = useCallback(() => setFocusedNodeId(null), []);
+
   // --- CHAT HANDLERS ---
   const handleNewConversation = () => {
     const newConversation: Conversation = {
@@ -190,11 +419,49 @@ function App() {
     handleSelectConversation(newConversation.id);
   };
 
-  const handleSendMessage = async (content: string) => {
+  const getModelChain = (conversation: Conversation): AIModel[] => [
+    settings.selectedModel,
+    ...(conversation.fallbackModels || []),
+  ];
+
+  // Fits the history into the context window, persisting any new rolling summary
+  const prepareChatContext = async (
+    conversation: Conversation,
+    signal: AbortSignal,
+    models: AIModel[] = getModelChain(conversation)
+  ) => {
+    const context = await buildChatContext(conversation, models, signal);
+    if (context.summary !== conversation.contextSummary) {
+      setConversations(prev => prev.map(conv =>
+        conv.id === conversation.id ? { ...conv, contextSummary: context.summary, changedAt: new Date() } : conv
+      ));
+    }
+    return context;
+  };
+
+  // The thread can't move on until one of the compared answers is picked
+  const isAwaitingComparisonPick = () => {
+    if (!comparison) return false;
+    showNotification('Pick one of the compared answers first', 'error');
+    return true;
+  };
+
+  // Holds the conversation's cross-tab lock while `task` streams into it
+  const runExclusive = async (conversationId: string | null, task: () => Promise<void>) => {
+    if (!conversationId) return task();
+    const ran = await withConversationLock(conversationId, task);
+    if (!ran) showNotification('This conversation is generating a reply in another tab', 'error');
+  };
+
+  const handleSendMessage = (content: string) =>
+    runExclusive(activeView === 'chat' ? currentConversationId : null, () => sendMessage(content));
+
+  const sendMessage = async (content: string) => {
     if (!hasApiKey) {
       showNotification('Please set your API key in the settings first.', 'error');
       return;
     }
+    if (isAwaitingComparisonPick()) return;
 
     const userMessage: Message = {
       id: generateId(),
@@ -206,11 +473,16 @@ function App() {
     let conversationToUpdate: Conversation;
     const existingConversation = conversations.find(c => c.id === currentConversationId);
 
+    const startTitle = (onTitle: (title: string) => void) => {
+      titleAbortControllerRef.current?.abort();
+      const controller = new AbortController();
+      titleAbortControllerRef.current = controller;
+      return generateSmartTitle(content, settings, onTitle, controller.signal);
+    };
+
     if (activeView !== 'chat' || !existingConversation) {
       // Generate smart title (with AI if available)
-      const initialTitle = await generateSmartTitle(
-        content,
-        settings,
+      const initialTitle = await startTitle(
         (aiTitle) => {
           // Update title once AI generates a better one
           setConversations(prev => prev.map(c =>
@@ -224,7 +496,8 @@ function App() {
       conversationToUpdate = {
         id: generateId(),
         title: initialTitle,
-        messages: [userMessage],
+        messages: [{ ...userMessage, parentId: null }],
+        activeLeafId: userMessage.id,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -234,9 +507,7 @@ function App() {
       let titleToUse = existingConversation.title;
 
       if (existingConversation.messages.length === 0) {
-        titleToUse = await generateSmartTitle(
-          content,
-          settings,
+        titleToUse = await startTitle(
           (aiTitle) => {
             setConversations(prev => prev.map(c =>
               c.id === existingConversation.id
@@ -250,7 +521,11 @@ function App() {
       conversationToUpdate = {
         ...existingConversation,
         title: titleToUse,
-        messages: [...existingConversation.messages, userMessage],
+        messages: [
+          ...existingConversation.messages,
+          { ...userMessage, parentId: getActiveLeaf(existingConversation)?.id ?? null },
+        ],
+        activeLeafId: userMessage.id,
         updatedAt: new Date(),
       };
       setConversations(prev => prev.map(c =>
@@ -258,161 +533,256 @@ function App() {
       ));
     }
 
+    if (compareModels.length >= MIN_COMPARE_MODELS) {
+      await streamComparison(conversationToUpdate, userMessage.id, compareModels);
+    } else {
+      await streamReply(conversationToUpdate, userMessage.id);
+    }
+  };
+
+  // Appends answers to a conversation, counts their usage and shows `activeId`
+  const saveReplies = (conversationId: string, replies: Message[], activeId: string) => {
+    setConversations(prev => prev.map(conv =>
+      conv.id === conversationId
+        ? {
+            ...conv,
+            messages: [...conv.messages, ...replies],
+            activeLeafId: activeId,
+            usage: replies.reduce(addMessageUsage, conv.usage),
+            updatedAt: new Date(),
+          }
+        : conv
+    ));
+  };
+
+  // Streams an answer to `parentId` (a user message) as a new child and makes
+  // it the active branch; earlier answers stay available as siblings. Resolves
+  // to false when Stop was pressed before anything arrived, so nothing was added.
+  const streamReply = async (conversation: Conversation, parentId: string): Promise<boolean> => {
     setIsChatLoading(true);
 
-    // Create new abort controller for this request
-    abortControllerRef.current = new AbortController();
+    // Create new abort controller for this request; Stop aborts the fetch itself
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    // Reassigned when a fallback model takes over, so `model` records who answered
+    let assistantMessage: Message = {
+      id: generateId(),
+      content: '',
+      role: 'assistant',
+      timestamp: new Date(),
+      model: settings.selectedModel,
+      parentId,
+    };
+    let fullResponse = '';
+    const handleModel = (model: AIModel) => {
+      assistantMessage = { ...assistantMessage, model };
+      setStreamingMessage(prev => (prev ? { ...prev, model } : null));
+    };
+    const handleUsage = (usage: TokenUsage, latencyMs: number) => {
+      assistantMessage = { ...assistantMessage, usage, latencyMs };
+    };
+    const saveReply = (message: Message) => saveReplies(conversation.id, [message], message.id);
 
     try {
-      const assistantMessage: Message = {
-        id: generateId(),
-        content: '',
-        role: 'assistant',
-        timestamp: new Date(),
-        model: settings.selectedModel
-      };
       setStreamingMessage(assistantMessage);
 
-      let fullResponse = '';
-      const messagesForApi = conversationToUpdate.messages.map(m => ({
-        role: m.role,
-        content: m.content
-      }));
+      const context = await prepareChatContext(conversation, controller.signal);
 
-      for await (const chunk of aiService.generateStreamingResponse(messagesForApi)) {
-        // Check if aborted
-        if (abortControllerRef.current?.signal.aborted) {
-          break;
-        }
+      for await (const chunk of aiService.generateStreamingResponse(context.messages, {
+        signal: controller.signal,
+        fallbackModels: conversation.fallbackModels,
+        onModel: handleModel,
+        onUsage: handleUsage,
+        contextSummary: context.summary?.content,
+      })) {
         fullResponse += chunk;
         setStreamingMessage(prev => (prev ? { ...prev, content: fullResponse } : null));
       }
 
-      const finalAssistantMessage: Message = { ...assistantMessage, content: fullResponse };
-
-      setConversations(prev => prev.map(conv =>
-        conv.id === conversationToUpdate.id
-          ? { ...conv, messages: [...conv.messages, finalAssistantMessage], updatedAt: new Date() }
-          : conv
-      ));
+      saveReply({ ...assistantMessage, content: fullResponse });
+      return true;
     } catch (error) {
-      // Don't show error if request was aborted
-      if (abortControllerRef.current?.signal.aborted) {
-        console.log('Message generation was cancelled');
-        showNotification('Message generation stopped', 'success');
+      // Keep whatever arrived before Stop was pressed
+      if (controller.signal.aborted) {
+        if (!fullResponse) return false;
+        saveReply({ ...assistantMessage, content: fullResponse, isStopped: true });
       } else {
-        console.error('Error sending message:', error);
+        console.error('Error generating response:', error);
         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        showNotification(`Failed to send message: ${errorMsg}`, 'error');
+        showNotification(`Failed to get a response: ${errorMsg}`, 'error');
 
-        const errorMessage: Message = {
+        saveReply({
           id: generateId(),
           content: `Sorry, an error occurred. Error: ${errorMsg}`,
           role: 'assistant',
-          timestamp: new Date()
-        };
-        setConversations(prev => prev.map(conv =>
-          conv.id === conversationToUpdate.id
-            ? { ...conv, messages: [...conv.messages, errorMessage] }
-            : conv
-        ));
+          timestamp: new Date(),
+          parentId,
+        });
       }
+      return true;
     } finally {
       setStreamingMessage(null);
       setIsChatLoading(false);
-      abortControllerRef.current = null;
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
     }
   };
 
-  const handleEditMessage = (messageId: string, newContent: string) => {
-    setConversations(prev => prev.map(conv => {
-      if (conv.id === currentConversationId) {
-        return {
-          ...conv,
-          messages: conv.messages.map(msg =>
-            msg.id === messageId ? { ...msg, content: newContent } : msg
-          ),
-          updatedAt: new Date(),
-        };
-      }
-      return conv;
+  // Streams answers from several models side by side. Nothing is added to the
+  // conversation until the user picks one in handlePickComparison.
+  const streamComparison = async (conversation: Conversation, parentId: string, models: AIModel[]) => {
+    setIsChatLoading(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const columns: ComparisonColumn[] = models.map(model => ({
+      message: { id: generateId(), content: '', role: 'assistant', timestamp: new Date(), model, parentId },
+      isStreaming: true,
     }));
+    const updateColumn = (id: string, update: (column: ComparisonColumn) => ComparisonColumn) => {
+      setComparison(prev => prev && {
+        ...prev,
+        columns: prev.columns.map(column => (column.message.id === id ? update(column) : column)),
+      });
+    };
+    const errors: string[] = [];
+    let answered = 0;
+
+    setComparison({ conversationId: conversation.id, parentId, columns });
+
+    try {
+      // Sized for the smallest context window among the compared models
+      const context = await prepareChatContext(conversation, controller.signal, models);
+
+      await Promise.all(columns.map(async ({ message }) => {
+        let content = '';
+        try {
+          for await (const chunk of aiService.generateStreamingResponse(context.messages, {
+            model: message.model,
+            signal: controller.signal,
+            onUsage: (usage, latencyMs) => updateColumn(message.id, c => ({ ...c, message: { ...c.message, usage, latencyMs } })),
+            contextSummary: context.summary?.content,
+          })) {
+            content += chunk;
+            updateColumn(message.id, c => ({ ...c, message: { ...c.message, content } }));
+          }
+          if (content) answered++;
+          updateColumn(message.id, c => ({ ...c, isStreaming: false }));
+        } catch (error) {
+          if (controller.signal.aborted) {
+            if (content) answered++;
+            updateColumn(message.id, c => ({ ...c, isStreaming: false, message: { ...c.message, isStopped: true } }));
+          } else {
+            console.error(`Error comparing ${message.model}:`, error);
+            const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+            errors.push(errorMsg);
+            updateColumn(message.id, c => ({ ...c, isStreaming: false, error: errorMsg }));
+          }
+        }
+      }));
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Error preparing comparison:', error);
+        errors.push(error instanceof Error ? error.message : 'Unknown error');
+      }
+    } finally {
+      // With nothing to pick from, fall back to what a single reply would do
+      if (answered === 0) {
+        setComparison(null);
+        if (errors.length > 0) {
+          showNotification(`Failed to get a response: ${errors[0]}`, 'error');
+          const errorMessage: Message = {
+            id: generateId(),
+            content: `Sorry, an error occurred. Error: ${errors[0]}`,
+            role: 'assistant',
+            timestamp: new Date(),
+            parentId,
+          };
+          saveReplies(conversation.id, [errorMessage], errorMessage.id);
+        }
+      }
+      setIsChatLoading(false);
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+    }
+  };
+
+  // Continues with the picked answer; the other answers stay as its alternate versions
+  const handlePickComparison = (messageId: string) => {
+    if (!comparison) return;
+    const replies = comparison.columns
+      .filter(column => !column.error && column.message.content)
+      .map(column => column.message);
+    saveReplies(comparison.conversationId, replies, messageId);
+    setComparison(null);
   };
 
-  const handleRegenerateResponse = async (messageId: string) => {
+  const handleEditMessage = (messageId: string, newContent: string) =>
+    runExclusive(currentConversationId, () => editMessage(messageId, newContent));
+
+  const handleRegenerateResponse = (messageId: string) =>
+    runExclusive(currentConversationId, () => regenerateResponse(messageId));
+
+  // Editing a user message forks a new branch next to the original and asks again
+  const editMessage = async (messageId: string, newContent: string) => {
+    if (isAwaitingComparisonPick()) return;
+    const conversation = conversations.find(c => c.id === currentConversationId);
+    const original = conversation?.messages.find(m => m.id === messageId);
+    if (!conversation || !original || original.role !== 'user') return;
+    if (newContent.trim() === original.content.trim()) return;
+
+    const editedMessage: Message = {
+      id: generateId(),
+      content: newContent,
+      role: 'user',
+      timestamp: new Date(),
+      parentId: original.parentId ?? null,
+    };
+    const updated: Conversation = {
+      ...conversation,
+      messages: [...conversation.messages, editedMessage],
+      activeLeafId: editedMessage.id,
+      updatedAt: new Date(),
+    };
+    setConversations(prev => prev.map(conv => (conv.id === updated.id ? updated : conv)));
+
+    await streamReply(updated, editedMessage.id);
+  };
+
+  // Regenerating adds a sibling answer; the previous one stays reachable via < >
+  const regenerateResponse = async (messageId: string) => {
+    if (isAwaitingComparisonPick()) return;
     const conversation = conversations.find(c => c.id === currentConversationId);
     if (!conversation) return;
 
-    const messageIndex = conversation.messages.findIndex(m => m.id === messageId);
-    if (messageIndex === -1 || conversation.messages[messageIndex].role !== 'assistant') return;
+    const message = conversation.messages.find(m => m.id === messageId);
+    if (!message || message.role !== 'assistant') return;
 
-    const history = conversation.messages.slice(0, messageIndex);
-    if (history.length === 0 || history[history.length - 1].role !== 'user') {
+    const parent = conversation.messages.find(m => m.id === message.parentId);
+    if (!parent || parent.role !== 'user') {
       console.error("Cannot regenerate without a preceding user message.");
       showNotification('Cannot regenerate this message', 'error');
       return;
     }
-    const messagesForApi = history.map(m => ({ role: m.role, content: m.content }));
-
-    setConversations(prev => prev.map(conv => {
-      if (conv.id === currentConversationId) {
-        return { ...conv, messages: history, updatedAt: new Date() };
-      }
-      return conv;
-    }));
-
-    setIsChatLoading(true);
-    abortControllerRef.current = new AbortController();
-
-    try {
-      const assistantMessage: Message = {
-        id: generateId(),
-        content: '',
-        role: 'assistant',
-        timestamp: new Date(),
-        model: settings.selectedModel
-      };
-      setStreamingMessage(assistantMessage);
 
-      let fullResponse = '';
-      for await (const chunk of aiService.generateStreamingResponse(messagesForApi)) {
-        if (abortControllerRef.current?.signal.aborted) break;
-        fullResponse += chunk;
-        setStreamingMessage(prev => prev ? { ...prev, content: fullResponse } : null);
-      }
-
-      const finalAssistantMessage: Message = { ...assistantMessage, content: fullResponse };
+    // Show the thread up to the question while the new answer streams
+    const updated: Conversation = { ...conversation, activeLeafId: parent.id };
+    setConversations(prev => prev.map(conv => (conv.id === updated.id ? updated : conv)));
 
+    const replied = await streamReply(updated, parent.id);
+    // Stopped before the new answer started: show the previous one again
+    if (!replied) {
       setConversations(prev => prev.map(conv =>
-        conv.id === currentConversationId
-          ? { ...conv, messages: [...history, finalAssistantMessage], updatedAt: new Date() }
-          : conv
+        conv.id === updated.id && conv.activeLeafId === parent.id ? { ...conv, activeLeafId: conversation.activeLeafId } : conv
       ));
-    } catch (error) {
-      if (!abortControllerRef.current?.signal.aborted) {
-        console.error('Error regenerating response:', error);
-        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        showNotification(`Failed to regenerate: ${errorMsg}`, 'error');
-
-        const errorMessage: Message = {
-          id: generateId(),
-          content: `Sorry, an error occurred while regenerating. Error: ${errorMsg}`,
-          role: 'assistant',
-          timestamp: new Date()
-        };
-        setConversations(prev => prev.map(conv =>
-          conv.id === currentConversationId
-            ? { ...conv, messages: [...history, errorMessage] }
-            : conv
-        ));
-      }
-    } finally {
-      setStreamingMessage(null);
-      setIsChatLoading(false);
-      abortControllerRef.current = null;
     }
   };
 
+  const handleSwitchBranch = (message: Message, offset: number) => {
+    setConversations(prev => prev.map(conv =>
+      conv.id === currentConversationId ? switchBranch(conv, message, offset) : conv
+    ));
+  };
+
   const sortedConversations = useMemo(() => [...conversations].sort((a, b) => {
     if (a.isPinned && !b.isPinned) return -1;
     if (!a.isPinned && b.isPinned) return 1;
@@ -422,6 +792,7 @@ function App() {
   const handleDeleteConversation = (id: string) => {
     const remaining = conversations.filter(c => c.id !== id);
     setConversations(remaining);
+    if (comparison?.conversationId === id) setComparison(null);
     if (currentConversationId === id) {
       const newId = remaining.length > 0 ? sortedConversations.filter(c => c.id !== id)[0]?.id : null;
       setCurrentConversationId(newId);
@@ -434,7 +805,7 @@ function App() {
     if (!currentConversationId) return;
     const newNote: Note = {
       id: generateId(),
-      title: content.slice(0, 50) + (content.length > 50 ? '...' : ''),
+      title: deriveNoteTitle(content),
       content,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -444,12 +815,50 @@ function App() {
     showNotification('Note saved successfully!', 'success');
   };
 
+  const handleNewNote = () => {
+    const newNote: Note = {
+      id: generateId(),
+      title: '',
+      content: '',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    setNotes(prev => [newNote, ...prev]);
+    handleSelectNote(newNote.id);
+  };
+
+  // Stable, since the editor's autosave timer depends on it
+  const handleUpdateNote = useCallback((id: string, changes: Pick<Note, 'title' | 'content'>) => {
+    setNotes(prev => prev.map(n => (n.id === id ? editNote(n, changes) : n)));
+  }, []);
+
+  const handleRestoreNoteRevision = (id: string, revisionId: string) => {
+    setNotes(prev => prev.map(n => (n.id === id ? restoreRevision(n, revisionId) : n)));
+    showNotification('Earlier version restored', 'success');
+  };
+
   const handleDeleteNote = (id: string) => {
+    const deleted = notes.find(n => n.id === id);
     setNotes(prev => prev.filter(n => n.id !== id));
     if (currentNoteId === id) {
       setCurrentNoteId(null);
       setActiveView('chat');
     }
+    if (deleted) {
+      // Restored as an edit, so a deletion that already synced doesn't win over it
+      showNotification(`Deleted "${deleted.title || 'Untitled note'}"`, 'success', {
+        label: 'Undo',
+        onClick: () => setNotes(prev => [...prev.filter(n => n.id !== id), { ...deleted, updatedAt: new Date() }]),
+      });
+    }
+  };
+
+  const handleRenameNote = (id: string, newTitle: string) => {
+    setNotes(prev => prev.map(n => (n.id === id ? { ...n, title: newTitle, updatedAt: new Date() } : n)));
+  };
+
+  const handleTogglePinNote = (id: string) => {
+    setNotes(prev => prev.map(n => (n.id === id ? { ...n, isPinned: !n.isPinned, updatedAt: new Date() } : n)));
   };
 
   const handleGenerateQuiz = async () => {
@@ -457,17 +866,83 @@ function App() {
     if (!conversation) return;
 
     setIsQuizLoading(true);
+    const controller = new AbortController();
+    quizAbortControllerRef.current = controller;
     try {
-      const session = await aiService.generateQuiz(conversation);
+      const session = await generateQuizFromConversation(conversation, settings, controller.signal);
       setStudySession(session);
       setIsQuizModalOpen(true);
       showNotification('Quiz generated successfully!', 'success');
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error(error);
       const errorMsg = error instanceof Error ? error.message : 'Failed to generate quiz';
       showNotification(errorMsg, 'error');
     } finally {
       setIsQuizLoading(false);
+      if (quizAbortControllerRef.current === controller) quizAbortControllerRef.current = null;
+    }
+  };
+
+  // Saved once the last question is answered; a session is completed only once
+  // Its questions also join the review deck
+  const handleCompleteQuiz = (session: StudySession) => {
+    setQuizSessions(prev => [...prev.filter(s => s.id !== session.id), session]);
+    setReviewCards(prev => addQuizToDeck(prev, session));
+  };
+
+  const handleGradeShortAnswer = (question: QuizQuestion, answer: string, signal: AbortSignal) =>
+    gradeShortAnswer(question, answer, settings, signal);
+
+  const handleRetakeQuiz = (session: StudySession) => {
+    setStudySession(createRetakeSession(session));
+    setIsQuizHistoryOpen(false);
+    setIsQuizModalOpen(true);
+  };
+
+  // --- REVIEW DECK HANDLERS ---
+  const handleOpenReview = () => {
+    setReviewSessionIds(dueReviewCards.map(card => card.id));
+    setIsReviewOpen(true);
+  };
+
+  const handleReviewCard = (id: string, grade: ReviewGrade) => {
+    const now = new Date();
+    setReviewCards(prev => prev.map(card => (card.id === id ? reviewCard(card, grade, now) : card)));
+  };
+
+  const handleDeleteReviewCard = (id: string) => {
+    setReviewCards(prev => prev.filter(card => card.id !== id));
+  };
+
+  // Takes the editor's text, which may not be autosaved yet
+  const handleCreateReviewCards = (noteId: string, content: string) => {
+    const note = notes.find(n => n.id === noteId);
+    if (!note) return;
+    if (extractNoteCards(content).length === 0) {
+      showNotification('No cards found. Write "question :: answer" lines, or a "Q:" line followed by an "A:" line.', 'error');
+      return;
+    }
+    const result = syncNoteCards(reviewCards, note, content);
+    setReviewCards(result.cards);
+    const parts = [
+      result.added > 0 && `${result.added} added`,
+      result.updated > 0 && `${result.updated} updated`,
+      result.removed > 0 && `${result.removed} removed`,
+    ].filter(Boolean);
+    showNotification(parts.length > 0 ? `Review cards: ${parts.join(', ')}` : 'Review cards are up to date', 'success');
+  };
+
+  // The exporter brings its own renderer, so it is only loaded when needed
+  const handleExportConversation = async (format: ExportFormat) => {
+    const conversation = conversations.find(c => c.id === currentConversationId);
+    if (!conversation) return;
+    try {
+      const { exportConversation } = await import('./services/conversationExport');
+      await exportConversation(conversation, format);
+    } catch (error) {
+      console.error('Error exporting conversation:', error);
+      showNotification(error instanceof Error ? error.message : 'Failed to export conversation', 'error');
     }
   };
 
@@ -477,17 +952,21 @@ function App() {
     if (!conversation) return;
 
     setIsFlowchartLoading(true);
+    const controller = new AbortController();
+    flowchartAbortControllerRef.current = controller;
     try {
-      const flowchart = await generateFlowchartFromConversation(conversation);
+      const flowchart = await generateFlowchartFromConversation(conversation, controller.signal);
       setFlowcharts(prev => [flowchart, ...prev]);
       handleSelectFlowchart(flowchart.id);
       showNotification('Flowchart generated successfully!', 'success');
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error(error);
       const errorMsg = error instanceof Error ? error.message : 'Failed to generate flowchart';
       showNotification(errorMsg, 'error');
     } finally {
       setIsFlowchartLoading(false);
+      if (flowchartAbortControllerRef.current === controller) flowchartAbortControllerRef.current = null;
     }
   };
 
@@ -563,11 +1042,132 @@ function App() {
   };
 
   const handleDeleteFlowchart = (id: string) => {
+    const deleted = flowcharts.find(f => f.id === id);
     setFlowcharts(prev => prev.filter(f => f.id !== id));
     if (currentFlowchartId === id) {
       setCurrentFlowchartId(null);
       setActiveView('chat');
     }
+    if (deleted) {
+      showNotification(`Deleted "${deleted.title}"`, 'success', {
+        label: 'Undo',
+        onClick: () => setFlowcharts(prev => [...prev.filter(f => f.id !== id), { ...deleted, updatedAt: new Date() }]),
+      });
+    }
+  };
+
+  const handleRenameFlowchart = (id: string, newTitle: string) => {
+    setFlowcharts(prev => prev.map(f => (f.id === id ? { ...f, title: newTitle, updatedAt: new Date() } : f)));
+  };
+
+  const handleTogglePinFlowchart = (id: string) => {
+    setFlowcharts(prev => prev.map(f => (f.id === id ? { ...f, isPinned: !f.isPinned, updatedAt: new Date() } : f)));
+  };
+
+  // --- FOLDER & TAG HANDLERS ---
+  const handleCreateFolder = (name: string, parentId: string | null) => {
+    const folder: Folder = { id: generateId(), name, parentId, createdAt: new Date(), updatedAt: new Date() };
+    setFolders(prev => [...prev, folder]);
+  };
+
+  const handleRenameFolder = (id: string, name: string) => {
+    setFolders(prev => prev.map(f => (f.id === id ? { ...f, name, updatedAt: new Date() } : f)));
+  };
+
+  const handleMoveFolder = (id: string, parentId: string | null) => {
+    if (id === parentId || !canMoveFolder(folders, id, parentId)) return;
+    setFolders(prev => prev.map(f => (f.id === id && f.parentId !== parentId ? { ...f, parentId, updatedAt: new Date() } : f)));
+  };
+
+  // Nothing inside is deleted: items and subfolders move up to the parent
+  const handleDeleteFolder = (id: string) => {
+    const folder = folders.find(f => f.id === id);
+    if (!folder) return;
+    const now = new Date();
+    const moveOut = <T extends OrganizedItem>(items: T[]) => items.map(item => (item.folderId === id ? moveToFolder(item, folder.parentId, now) : item));
+    setFolders(prev => removeFolder(prev, id, now));
+    setConversations(moveOut);
+    setNotes(moveOut);
+    setFlowcharts(moveOut);
+    showNotification(`Deleted folder "${folder.name}"; its contents moved up a level`, 'success');
+  };
+
+  const updateItems = (entity: OrganizedEntity, ids: string[], update: <T extends OrganizedItem>(item: T) => T) => {
+    const idSet = new Set(ids);
+    const apply = <T extends OrganizedItem>(items: T[]) => items.map(item => (idSet.has(item.id) ? update(item) : item));
+    if (entity === 'conversations') setConversations(apply);
+    else if (entity === 'notes') setNotes(apply);
+    else setFlowcharts(apply);
+  };
+
+  const handleMoveItems = (entity: OrganizedEntity, ids: string[], folderId: string | null) => {
+    const now = new Date();
+    updateItems(entity, ids, item => moveToFolder(item, folderId, now));
+  };
+
+  const handleAddTag = (entity: OrganizedEntity, ids: string[], tag: string) => {
+    const now = new Date();
+    updateItems(entity, ids, item => addTag(item, tag, now));
+  };
+
+  const handleRemoveTag = (entity: OrganizedEntity, ids: string[], tag: string) => {
+    const now = new Date();
+    updateItems(entity, ids, item => removeTag(item, tag, now));
+  };
+
+  const handleDeleteItems = (entity: OrganizedEntity, ids: string[]) => {
+    const idSet = new Set(ids);
+    const keep = <T extends OrganizedItem>(items: T[]) => items.filter(item => !idSet.has(item.id));
+    // Restored as edits, like a single undone delete
+    const restore = <T extends OrganizedItem>(deleted: T[]) => (items: T[]) => [...keep(items), ...deleted.map(item => ({ ...item, updatedAt: new Date() }))];
+    let undo: () => void;
+    if (entity === 'conversations') {
+      const deleted = conversations.filter(c => idSet.has(c.id));
+      setConversations(keep);
+      if (comparison && idSet.has(comparison.conversationId)) setComparison(null);
+      if (currentConversationId && idSet.has(currentConversationId)) {
+        setCurrentConversationId(sortedConversations.find(c => !idSet.has(c.id))?.id ?? null);
+      }
+      undo = () => setConversations(restore(deleted));
+    } else if (entity === 'notes') {
+      const deleted = notes.filter(n => idSet.has(n.id));
+      setNotes(keep);
+      if (currentNoteId && idSet.has(currentNoteId)) {
+        setCurrentNoteId(null);
+        setActiveView('chat');
+      }
+      undo = () => setNotes(restore(deleted));
+    } else {
+      const deleted = flowcharts.filter(f => idSet.has(f.id));
+      setFlowcharts(keep);
+      if (currentFlowchartId && idSet.has(currentFlowchartId)) {
+        setCurrentFlowchartId(null);
+        setActiveView('chat');
+      }
+      undo = () => setFlowcharts(restore(deleted));
+    }
+    showNotification(`Deleted ${ids.length} item${ids.length === 1 ? '' : 's'}`, 'success', { label: 'Undo', onClick: undo });
+  };
+
+  // Exported as a backup file holding just these items, their folders and,
+  // for chats, their quiz history
+  const handleExportItems = (entity: OrganizedEntity, ids: string[]) => {
+    const idSet = new Set(ids);
+    const data: BackupData = { conversations: [], notes: [], flowcharts: [], folders: [], quizSessions: [], reviewCards: [] };
+    if (entity === 'conversations') {
+      data.conversations = conversations.filter(c => idSet.has(c.id));
+      data.quizSessions = quizSessions.filter(s => idSet.has(s.conversationId));
+    }
+    else if (entity === 'notes') data.notes = notes.filter(n => idSet.has(n.id));
+    else data.flowcharts = flowcharts.filter(f => idSet.has(f.id));
+    const items: OrganizedItem[] = data[entity];
+    const folderIds = new Set(items.flatMap(item => (item.folderId ? getFolderPath(folders, item.folderId).map(f => f.id) : [])));
+    data.folders = folders.filter(f => folderIds.has(f.id));
+    downloadFile(
+      JSON.stringify(createSelectionBackup(data), null, 2),
+      `ai-tutor-${entity}-${new Date().toISOString().split('T')[0]}.json`,
+      'application/json'
+    );
   };
 
   // --- OTHER HANDLERS ---
@@ -589,18 +1189,129 @@ function App() {
     ));
   };
 
+  const handleUpdateFallbackModels = (models: AIModel[]) => {
+    setConversations(prev => prev.map(c =>
+      (c.id === currentConversationId ? { ...c, fallbackModels: models, changedAt: new Date() } : c)
+    ));
+  };
+
   const handleTogglePinConversation = (id: string) => {
     setConversations(prev => prev.map(c =>
       (c.id === id ? { ...c, isPinned: !c.isPinned, updatedAt: new Date() } : c)
     ));
   };
 
+  // Applies a merged backup in place; the debounced saves persist it
+  const handleImportBackup = (data: BackupData, importedSettings?: APISettings) => {
+    setConversations(data.conversations);
+    setNotes(data.notes);
+    setFlowcharts(data.flowcharts);
+    setFolders(data.folders);
+    setQuizSessions(data.quizSessions);
+    setReviewCards(data.reviewCards);
+    if (importedSettings) {
+      // Backups usually carry no keys; keep the current ones for anything missing
+      const merged = applySecrets({ ...settings, ...importedSettings }, extractSecrets(settings));
+      setSettings(merged);
+      storageUtils.saveSettings(merged);
+      if (vaultStatus === 'unlocked') {
+        keyVault.update(merged).catch(error => console.error('Error updating key vault:', error));
+      }
+    }
+    showNotification('Import complete', 'success');
+  };
+
+  // --- KEY VAULT HANDLERS ---
+  const handleUnlockVault = async (passphrase: string) => {
+    const secrets = await keyVault.unlock(passphrase);
+    setSettings(prev => applySecrets(prev, secrets));
+    setVaultStatus('unlocked');
+    setIsVaultPromptOpen(false);
+  };
+
+  // Takes the settings form as it is, so keys typed but not yet saved are encrypted too
+  const handleEnableVault = async (passphrase: string, newSettings: APISettings) => {
+    await keyVault.enable(passphrase, newSettings);
+    setSettings(newSettings);
+    storageUtils.saveSettings(newSettings);
+    setVaultStatus('unlocked');
+  };
+
+  const handleLockVault = () => {
+    keyVault.lock();
+    setSettings(prev => stripSecrets(prev));
+    setVaultStatus('locked');
+  };
+
+  // Stores the keys unencrypted again; a locked vault's keys are discarded
+  const handleDisableVault = () => {
+    keyVault.disable();
+    storageUtils.saveSettings(settings);
+    setVaultStatus('disabled');
+  };
+
+  // --- REMOTE SYNC HANDLERS ---
+  const handleSync = async (manual: boolean) => {
+    const input = syncInputRef.current;
+    setIsSyncing(true);
+    try {
+      const result = await remoteSync.sync(input);
+      if (!result) return;
+      setConversations(prev => applySyncChanges(prev, input.data.conversations, result.changes.conversations));
+      setNotes(prev => applySyncChanges(prev, input.data.notes, result.changes.notes));
+      setFlowcharts(prev => applySyncChanges(prev, input.data.flowcharts, result.changes.flowcharts));
+      setFolders(prev => applySyncChanges(prev, input.data.folders, result.changes.folders));
+      setQuizSessions(prev => applySyncChanges(prev, input.data.quizSessions, result.changes.quizSessions));
+      setReviewCards(prev => applySyncChanges(prev, input.data.reviewCards, result.changes.reviewCards));
+      if (result.settings) {
+        setSettings(result.settings.value);
+        storageUtils.saveSettings(result.settings.value, result.settings.updatedAt);
+        if (vaultStatus === 'unlocked') {
+          keyVault.update(result.settings.value).catch(error => console.error('Error updating key vault:', error));
+        }
+      }
+      setLastSyncedAt(remoteSync.getLastSyncedAt());
+      if (manual) {
+        const conflicts = result.conflicts > 0 ? `, ${result.conflicts} merged` : '';
+        showNotification(`Synced: ${result.pulled} received, ${result.pushed} sent${conflicts}`, 'success');
+      }
+    } catch (error) {
+      console.error('Error syncing:', error);
+      showNotification(error instanceof Error ? `Sync failed: ${error.message}` : 'Sync failed', 'error');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+  handleSyncRef.current = handleSync;
+
+  const handleConnectSync = async (config: SyncConfig, passphrase: string) => {
+    await remoteSync.connect(config, passphrase);
+    setSyncStatus(remoteSync.getStatus());
+  };
+
+  const handleUnlockSync = async (passphrase: string) => {
+    await remoteSync.unlock(passphrase);
+    setSyncStatus(remoteSync.getStatus());
+  };
+
+  const handleDisconnectSync = () => {
+    remoteSync.disconnect();
+    setSyncStatus('disabled');
+    setLastSyncedAt(null);
+  };
+
   const handleSaveSettings = (newSettings: APISettings) => {
     const oldMode = settings.selectedTutorMode;
     const newMode = newSettings.selectedTutorMode;
 
     setSettings(newSettings);
     storageUtils.saveSettings(newSettings);
+    if (vaultStatus === 'unlocked') {
+      keyVault.update(newSettings).catch(error => {
+        console.error('Error updating key vault:', error);
+        showNotification('Could not encrypt the updated API keys', 'error');
+      });
+    }
     setSettingsOpen(false);
 
     // If tutor mode was changed, regenerate the last response
@@ -615,7 +1326,7 @@ function App() {
 
       const conversation = conversations.find(c => c.id === currentConversationId);
       if (conversation && conversation.messages.length > 0) {
-        const lastAssistantMessage = [...conversation.messages].reverse().find(
+        const lastAssistantMessage = getActivePath(conversation).reverse().find(
           (msg) => msg.role === 'assistant'
         );
 
@@ -635,9 +1346,14 @@ function App() {
     }
   };
 
+  // Stops everything being generated: the chat reply, a quiz, a flowchart and a pending title
   const handleStopGenerating = () => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
+    const controllers = [abortControllerRef, quizAbortControllerRef, flowchartAbortControllerRef]
+      .map(ref => ref.current)
+      .filter((controller): controller is AbortController => controller !== null);
+    titleAbortControllerRef.current?.abort();
+    if (controllers.length > 0) {
+      controllers.forEach(controller => controller.abort());
       showNotification('Generation stopped', 'success');
     }
   };
@@ -662,6 +1378,7 @@ function App() {
         <Notification
           message={notification.message}
           type={notification.type}
+          action={notification.action}
           onClose={hideNotification}
         />
       )}
@@ -673,11 +1390,13 @@ function App() {
         conversations={sortedConversations}
         notes={sortedNotes}
         flowcharts={sortedFlowcharts}
+        folders={folders}
         activeView={activeView}
         currentConversationId={currentConversationId}
         currentNoteId={currentNoteId}
         currentFlowchartId={currentFlowchartId}
         onNewConversation={handleNewConversation}
+        onNewNote={handleNewNote}
         onSelectConversation={handleSelectConversation}
         onSelectNote={handleSelectNote}
         onSelectFlowchart={handleSelectFlowchart}
@@ -685,7 +1404,23 @@ function App() {
         onRenameConversation={handleRenameConversation}
         onTogglePinConversation={handleTogglePinConversation}
         onDeleteNote={handleDeleteNote}
+        onRenameNote={handleRenameNote}
+        onTogglePinNote={handleTogglePinNote}
         onDeleteFlowchart={handleDeleteFlowchart}
+        onRenameFlowchart={handleRenameFlowchart}
+        onTogglePinFlowchart={handleTogglePinFlowchart}
+        onCreateFolder={handleCreateFolder}
+        onRenameFolder={handleRenameFolder}
+        onMoveFolder={handleMoveFolder}
+        onDeleteFolder={handleDeleteFolder}
+        onMoveItems={handleMoveItems}
+        onAddTag={handleAddTag}
+        onRemoveTag={handleRemoveTag}
+        onDeleteItems={handleDeleteItems}
+        onExportItems={handleExportItems}
+        dueCount={dueReviewCards.length}
+        onOpenReview={handleOpenReview}
+        onOpenSearchResult={handleOpenSearchResult}
         onOpenSettings={() => setSettingsOpen(true)}
         settings={settings}
         onModelChange={handleModelChange}
@@ -721,18 +1456,46 @@ function App() {
             onGenerateFlowchart={handleGenerateFlowchart}
             onEditMessage={handleEditMessage}
             onRegenerateResponse={handleRegenerateResponse}
+            onSwitchBranch={handleSwitchBranch}
             currentModel={settings.selectedModel}
             onModelChange={handleModelChange}
+            modelOptions={modelOptions}
+            onFallbackModelsChange={handleUpdateFallbackModels}
+            compareModels={compareModels}
+            onCompareModelsChange={setCompareModels}
+            comparison={comparison}
+            onPickComparison={handlePickComparison}
+            contextUsage={contextUsage}
+            onExportConversation={handleExportConversation}
             onOpenSidebar={() => setSidebarOpen(true)}
             onSelectConversation={handleSelectConversation}
+            focusedMessageId={focusedMessageId}
+            onFocusHandled={clearFocusedMessage}
+            linkResolver={linkResolver}
+            linkCandidates={linkCandidates}
+            quizCount={currentQuizSessions.length}
+            onOpenQuizHistory={() => setIsQuizHistoryOpen(true)}
           />
         ) : activeView === 'note' ? (
-          <NoteView note={currentNote} />
+          <NoteView
+            key={currentNote?.id}
+            note={currentNote ?? null}
+            onUpdateNote={handleUpdateNote}
+            onRestoreRevision={handleRestoreNoteRevision}
+            onOpenConversation={handleSelectConversation}
+            linkResolver={linkResolver}
+            linkCandidates={linkCandidates}
+            backlinks={currentNoteBacklinks}
+            onOpenBacklink={handleOpenSearchResult}
+            onCreateReviewCards={handleCreateReviewCards}
+          />
         ) : (
           <FlowchartView
             flowchart={currentFlowchart}
             onSave={handleSaveFlowchart}
             onExport={handleExportFlowchart}
+            focusedNodeId={focusedNodeId}
+            onFocusHandled={clearFocusedNode}
           />
         )}
       </div>
@@ -741,11 +1504,53 @@ function App() {
         onClose={() => setSettingsOpen(false)}
         settings={settings}
         onSaveSettings={handleSaveSettings}
+        conversations={conversations}
+        notes={notes}
+        flowcharts={flowcharts}
+        folders={folders}
+        quizSessions={quizSessions}
+        reviewCards={reviewCards}
+        onImportBackup={handleImportBackup}
+        vaultStatus={vaultStatus}
+        onEnableVault={handleEnableVault}
+        onUnlockVault={handleUnlockVault}
+        onLockVault={handleLockVault}
+        onDisableVault={handleDisableVault}
+        syncStatus={syncStatus}
+        syncConfig={remoteSync.getConfig()}
+        lastSyncedAt={lastSyncedAt}
+        isSyncing={isSyncing}
+        onConnectSync={handleConnectSync}
+        onUnlockSync={handleUnlockSync}
+        onSyncNow={() => handleSync(true)}
+        onDisconnectSync={handleDisconnectSync}
+      />
+      <VaultUnlockModal
+        isOpen={isVaultPromptOpen && vaultStatus === 'locked'}
+        onUnlock={handleUnlockVault}
+        onSkip={() => setIsVaultPromptOpen(false)}
       />
       <QuizModal
         isOpen={isQuizModalOpen}
         onClose={() => setIsQuizModalOpen(false)}
         session={studySession}
+        onComplete={handleCompleteQuiz}
+        onRetake={handleRetakeQuiz}
+        onGradeShortAnswer={handleGradeShortAnswer}
+      />
+      <ReviewModal
+        isOpen={isReviewOpen}
+        onClose={() => setIsReviewOpen(false)}
+        cards={reviewCards}
+        sessionCardIds={reviewSessionIds}
+        onReview={handleReviewCard}
+        onDelete={handleDeleteReviewCard}
+      />
+      <QuizHistoryModal
+        isOpen={isQuizHistoryOpen}
+        onClose={() => setIsQuizHistoryOpen(false)}
+        sessions={currentQuizSessions}
+        onRetake={handleRetakeQuiz}
       />
       {isInstallable && !isInstalled && (
         <InstallPrompt onInstall={handleInstallApp} onDismiss={dismissInstallPrompt} />
@@ -0,0 +1,124 @@
+// src/components/BackupImportPreview.tsx
+import { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { BACKUP_ENTITIES, BackupEntity, ConflictResolution, ImportPlan } from '../services/backup';
+import { sourceLabels } from '../services/chatImporters';
+
+interface BackupImportPreviewProps {
+  plan: ImportPlan;
+  onApply: (resolution: ConflictResolution, restoreSettings: boolean) => void;
+  onCancel: () => void;
+}
+
+const entityLabels: Record<BackupEntity, string> = {
+  conversations: 'Conversations',
+  notes: 'Notes',
+  flowcharts: 'Flowcharts',
+  folders: 'Folders',
+  quizSessions: 'Quiz results',
+  reviewCards: 'Review cards',
+};
+
+const resolutionOptions: { id: ConflictResolution; label: string; description: string }[] = [
+  { id: 'newer', label: 'Keep newer', description: 'Use whichever version was updated last' },
+  { id: 'both', label: 'Keep both', description: 'Add the backup version as a copy' },
+  { id: 'skip', label: 'Skip', description: 'Leave existing items unchanged' },
+];
+
+export function BackupImportPreview({ plan, onApply, onCancel }: BackupImportPreviewProps) {
+  const [resolution, setResolution] = useState<ConflictResolution>('newer');
+  const [restoreSettings, setRestoreSettings] = useState(false);
+
+  const conflictCount = BACKUP_ENTITIES.reduce((sum, entity) => sum + plan[entity].conflicts.length, 0);
+  const addedCount = BACKUP_ENTITIES.reduce((sum, entity) => sum + plan[entity].added.length, 0);
+  const hasChanges = addedCount > 0 || (conflictCount > 0 && resolution !== 'skip') || restoreSettings;
+
+  return (
+    <div className="p-4 border border-[var(--color-border)] rounded-lg space-y-4 animate-fadeIn">
+      <div>
+        <h3 className="font-semibold">Import preview</h3>
+        <p className="text-xs text-[var(--color-text-secondary)]">
+          {plan.source ? (
+            `${sourceLabels[plan.source]} export · branches are flattened to the version that was shown`
+          ) : (
+            <>
+              {plan.exportedAt ? `Exported ${new Date(plan.exportedAt).toLocaleString()}` : 'Export date unknown'}
+              {' · '}format {plan.version}
+            </>
+          )}
+        </p>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-[var(--color-text-secondary)] text-right">
+            <th className="text-left font-medium pb-1" />
+            <th className="font-medium pb-1">New</th>
+            <th className="font-medium pb-1">Conflicts</th>
+            <th className="font-medium pb-1">Unchanged</th>
+            <th className="font-medium pb-1">Invalid</th>
+          </tr>
+        </thead>
+        <tbody>
+          {BACKUP_ENTITIES.map(entity => (
+            <tr key={entity} className="text-right">
+              <td className="text-left py-0.5">{entityLabels[entity]}</td>
+              <td>{plan[entity].added.length}</td>
+              <td className={plan[entity].conflicts.length > 0 ? 'text-yellow-400' : ''}>{plan[entity].conflicts.length}</td>
+              <td className="text-[var(--color-text-secondary)]">{plan[entity].unchanged}</td>
+              <td className={plan[entity].invalid > 0 ? 'text-red-400' : 'text-[var(--color-text-secondary)]'}>{plan[entity].invalid}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {conflictCount > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs text-[var(--color-text-secondary)]">
+            {conflictCount} item{conflictCount === 1 ? '' : 's'} already exist{conflictCount === 1 ? 's' : ''} with different content:
+          </p>
+          <div className="grid grid-cols-3 gap-2">
+            {resolutionOptions.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setResolution(option.id)}
+                title={option.description}
+                className={`p-2 border rounded-lg text-xs font-semibold transition-colors ${resolution === option.id ? 'bg-[var(--color-card)] border-blue-500' : 'border-[var(--color-border)] hover:bg-[var(--color-card)]'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-[var(--color-text-secondary)]">
+            {resolutionOptions.find(option => option.id === resolution)?.description}
+          </p>
+        </div>
+      )}
+
+      {plan.settings && (
+        <label className="flex items-center gap-2 text-sm text-[var(--color-text-secondary)]">
+          <input type="checkbox" checked={restoreSettings} onChange={(e) => setRestoreSettings(e.target.checked)} />
+          Also restore settings from the backup
+        </label>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={onCancel}
+          className="flex items-center justify-center gap-2 p-3 border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+        <button
+          onClick={() => onApply(resolution, restoreSettings)}
+          disabled={!hasChanges}
+          className="flex items-center justify-center gap-2 p-3 border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors disabled:opacity-50"
+        >
+          <Check className="w-4 h-4" />
+          Import
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+// src/components/BulkActionBar.tsx
+import React, { useMemo, useState } from 'react';
+import { Download, Tag, Trash2, X } from 'lucide-react';
+import { Folder } from '../types';
+import { getChildFolders } from '../utils/organize';
+
+interface BulkActionBarProps {
+  count: number;
+  folders: Folder[];
+  // Tags on at least one selected item
+  tags: string[];
+  onMove: (folderId: string | null) => void;
+  onAddTag: (tag: string) => void;
+  onRemoveTag: (tag: string) => void;
+  onExport: () => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+// Select value for moving out of every folder
+const UNFILED = '__unfiled';
+
+export function BulkActionBar({ count, folders, tags, onMove, onAddTag, onRemoveTag, onExport, onDelete, onClear }: BulkActionBarProps) {
+  const [tagInput, setTagInput] = useState('');
+
+  // Depth-first, so subfolders follow their parent
+  const folderOptions = useMemo(() => {
+    const options: { folder: Folder; depth: number }[] = [];
+    const visit = (parentId: string | null, depth: number) => {
+      getChildFolders(folders, parentId).forEach(folder => {
+        options.push({ folder, depth });
+        visit(folder.id, depth + 1);
+      });
+    };
+    visit(null, 0);
+    return options;
+  }, [folders]);
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tagInput.trim()) return;
+    onAddTag(tagInput);
+    setTagInput('');
+  };
+
+  const selectClasses = 'flex-1 min-w-0 bg-[var(--color-card)] rounded-md px-1.5 py-1 text-xs focus:outline-none cursor-pointer';
+
+  return (
+    <div className="mb-2 p-2 rounded-lg bg-[var(--color-card)] border border-[var(--color-border)] space-y-1.5 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-white">{count} selected</span>
+        <div className="flex items-center gap-0.5">
+          <button onClick={onExport} className="p-1 rounded hover:bg-[var(--color-border)]" title="Export selected"><Download className="w-3.5 h-3.5" /></button>
+          <button onClick={() => { if (window.confirm(`Delete ${count} item${count === 1 ? '' : 's'}?`)) onDelete(); }} className="p-1 rounded hover:bg-red-900/30 text-red-400" title="Delete selected"><Trash2 className="w-3.5 h-3.5" /></button>
+          <button onClick={onClear} className="p-1 rounded hover:bg-[var(--color-border)]" title="Clear selection"><X className="w-3.5 h-3.5" /></button>
+        </div>
+      </div>
+      <select value="" onChange={(e) => onMove(e.target.value === UNFILED ? null : e.target.value)} className={`w-full ${selectClasses}`}>
+        <option value="" disabled className="bg-[var(--color-bg-secondary)]">Move to folder...</option>
+        <option value={UNFILED} className="bg-[var(--color-bg-secondary)]">Unfiled</option>
+        {folderOptions.map(({ folder, depth }) => (
+          <option key={folder.id} value={folder.id} className="bg-[var(--color-bg-secondary)]">{'\u00a0\u00a0'.repeat(depth)}{folder.name}</option>
+        ))}
+      </select>
+      <form onSubmit={handleAddTag} className="flex items-center gap-1">
+        <Tag className="w-3.5 h-3.5 flex-shrink-0 text-[var(--color-text-secondary)]" />
+        <input type="text" value={tagInput} onChange={(e) => setTagInput(e.target.value)} placeholder="Add tag" className="flex-1 min-w-0 bg-transparent border-b border-[var(--color-border)] outline-none placeholder:text-[var(--color-text-placeholder)]" />
+        {tags.length > 0 && (
+          <select value="" onChange={(e) => onRemoveTag(e.target.value)} className={selectClasses}>
+            <option value="" disabled className="bg-[var(--color-bg-secondary)]">Remove tag...</option>
+            {tags.map(tag => <option key={tag} value={tag} className="bg-[var(--color-bg-secondary)]">{tag}</option>)}
+          </select>
+        )}
+      </form>
+    </div>
+  );
+}
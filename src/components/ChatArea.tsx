@@ -1,8 +1,18 @@
 import React, { useEffect, useRef, useCallback, useMemo, useState } from 'react';
 import { MessageBubble } from './MessageBubble';
 import { ChatInput } from './ChatInput';
-import { Conversation, Message, AIModel } from '../types';
-import { Menu } from 'lucide-react';
+import { FallbackChainEditor } from './FallbackChainEditor';
+import { ContextUsageIndicator } from './ContextUsageIndicator';
+import { CompareModelsEditor } from './CompareModelsEditor';
+import { ComparisonView } from './ComparisonView';
+import { ConversationExportMenu } from './ConversationExportMenu';
+import { Conversation, Message, AIModel, Comparison } from '../types';
+import { ModelOption } from '../utils/models';
+import { ContextUsage } from '../services/contextManager';
+import { ExportFormat } from '../services/conversationExport';
+import { getActivePath, getBranchInfo } from '../utils/messageTree';
+import { WikiLinkCandidate, WikiLinkResolver } from '../utils/wikiLinks';
+import { History, Menu } from 'lucide-react';
 
 interface ChatAreaProps {
   conversation: Conversation | undefined;
@@ -19,10 +29,29 @@ interface ChatAreaProps {
   onGenerateFlowchart: () => void;
   onEditMessage?: (messageId: string, newContent: string) => void;
   onRegenerateResponse?: (messageId: string) => void;
+  onSwitchBranch?: (message: Message, offset: number) => void;
   currentModel?: AIModel;
   onModelChange?: (model: AIModel) => void;
+  modelOptions?: ModelOption[];
+  onFallbackModelsChange?: (models: AIModel[]) => void;
+  compareModels?: AIModel[];
+  onCompareModelsChange?: (models: AIModel[]) => void;
+  // Answers waiting for the user to pick one
+  comparison?: Comparison | null;
+  onPickComparison?: (messageId: string) => void;
+  contextUsage?: ContextUsage;
+  onExportConversation?: (format: ExportFormat) => void;
   onOpenSidebar?: () => void;
   onSelectConversation?: (id: string) => void;
+  // A message opened from search; scrolled to and briefly highlighted
+  focusedMessageId?: string | null;
+  onFocusHandled?: () => void;
+  linkResolver?: WikiLinkResolver;
+  // Offered while typing a [[ link
+  linkCandidates?: WikiLinkCandidate[];
+  // Completed quizzes of this conversation
+  quizCount?: number;
+  onOpenQuizHistory?: () => void;
 }
 
 export function ChatArea({
@@ -40,14 +69,30 @@ export function ChatArea({
   onGenerateFlowchart,
   onEditMessage,
   onRegenerateResponse,
+  onSwitchBranch,
   currentModel,
   onModelChange,
+  modelOptions,
+  onFallbackModelsChange,
+  compareModels = [],
+  onCompareModelsChange,
+  comparison,
+  onPickComparison,
+  contextUsage,
+  onExportConversation,
   onOpenSidebar,
   onSelectConversation,
+  focusedMessageId,
+  onFocusHandled,
+  linkResolver,
+  linkCandidates,
+  quizCount = 0,
+  onOpenQuizHistory,
 }: ChatAreaProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatMessagesRef = useRef<HTMLDivElement>(null);
   const [isMobileNewChatCreated, setIsMobileNewChatCreated] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
 
   // Auto-create new chat on mobile on first load
   useEffect(() => {
@@ -58,11 +103,16 @@ export function ChatArea({
     }
   }, [conversation, isMobileNewChatCreated, onNewConversation]);
 
+  // Only the active branch is shown; other versions are reached via the < n/m > switcher
+  const thread = useMemo(() => conversation ? getActivePath(conversation) : [], [conversation]);
+
   const allMessages = useMemo(() =>
-    streamingMessage ? [...(conversation?.messages || []), streamingMessage] : conversation?.messages || [],
-    [conversation?.messages, streamingMessage]
+    streamingMessage ? [...thread, streamingMessage] : thread,
+    [thread, streamingMessage]
   );
 
+  const activeComparison = comparison && comparison.conversationId === conversation?.id ? comparison : null;
+
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, []);
@@ -70,10 +120,27 @@ export function ChatArea({
   useEffect(() => {
     const timeoutId = setTimeout(scrollToBottom, 100);
     return () => clearTimeout(timeoutId);
-  }, [allMessages.length, streamingMessage?.content, scrollToBottom]);
+  }, [allMessages.length, streamingMessage?.content, activeComparison, scrollToBottom]);
 
-  const canGenerateQuiz = conversation && conversation.messages.length > 2;
-  const canGenerateFlowchart = conversation && conversation.messages.length > 1;
+  // Runs after the scroll to the bottom that opening a conversation triggers
+  useEffect(() => {
+    if (!focusedMessageId || !thread.some(m => m.id === focusedMessageId)) return;
+    const timeoutId = setTimeout(() => {
+      document.getElementById(`message-${focusedMessageId}`)?.scrollIntoView({ block: 'center' });
+      setHighlightedMessageId(focusedMessageId);
+      onFocusHandled?.();
+    }, 150);
+    return () => clearTimeout(timeoutId);
+  }, [focusedMessageId, thread, onFocusHandled]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeoutId = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeoutId);
+  }, [highlightedMessageId]);
+
+  const canGenerateQuiz = conversation && thread.length > 2;
+  const canGenerateFlowchart = conversation && thread.length > 1;
 
   // Get greeting message based on time of day
   const getGreeting = () => {
@@ -149,6 +216,18 @@ export function ChatArea({
     );
   }
 
+  const showQuizHistory = quizCount > 0 && !!onOpenQuizHistory;
+  const quizHistoryButton = showQuizHistory && (
+    <button
+      onClick={onOpenQuizHistory}
+      className="flex items-center gap-1 p-2 text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)] rounded-lg transition-colors"
+      title="Quiz history"
+    >
+      <History className="w-4 h-4" />
+      <span className="text-xs font-semibold">{quizCount}</span>
+    </button>
+  );
+
   // Conversation is selected (Desktop or Mobile)
   return (
     <div className="chat-area flex flex-col h-full">
@@ -166,9 +245,26 @@ export function ChatArea({
           {conversation?.title || 'New Chat'}
         </span>
 
-        <div className="w-9" />
+        {conversation.messages.length > 0 && (contextUsage || onExportConversation || showQuizHistory) ? (
+          <div className="flex items-center gap-1">
+            {contextUsage && <ContextUsageIndicator usage={contextUsage} />}
+            {quizHistoryButton}
+            {onExportConversation && <ConversationExportMenu onExport={onExportConversation} />}
+          </div>
+        ) : (
+          <div className="w-9" />
+        )}
       </div>
 
+      {/* Desktop Header */}
+      {conversation.messages.length > 0 && (contextUsage || onExportConversation || showQuizHistory) && (
+        <div className="hidden lg:flex items-center justify-end gap-2 px-6 py-2 border-b border-[var(--color-border)]">
+          {contextUsage && <ContextUsageIndicator usage={contextUsage} />}
+          {quizHistoryButton}
+          {onExportConversation && <ConversationExportMenu onExport={onExportConversation} />}
+        </div>
+      )}
+
       {/* Messages Area */}
       <div
         ref={chatMessagesRef}
@@ -272,15 +368,31 @@ export function ChatArea({
             <>
               <div className="space-y-6 sm:space-y-8 py-4 sm:py-6">
                 {allMessages.map((message) => (
-                  <MessageBubble
+                  <div
                     key={message.id}
-                    message={message}
-                    isStreaming={streamingMessage?.id === message.id}
+                    id={`message-${message.id}`}
+                    className={`rounded-2xl transition-shadow duration-500 ${highlightedMessageId === message.id ? 'ring-2 ring-yellow-400/40' : ''}`}
+                  >
+                    <MessageBubble
+                      message={message}
+                      isStreaming={streamingMessage?.id === message.id}
+                      onSaveAsNote={onSaveAsNote}
+                      onEditMessage={onEditMessage}
+                      onRegenerateResponse={onRegenerateResponse}
+                      branch={conversation && streamingMessage?.id !== message.id ? getBranchInfo(conversation, message) : undefined}
+                      onSwitchBranch={isLoading || activeComparison ? undefined : onSwitchBranch}
+                      linkResolver={linkResolver}
+                    />
+                  </div>
+                ))}
+                {activeComparison && (
+                  <ComparisonView
+                    comparison={activeComparison}
+                    onPick={onPickComparison}
                     onSaveAsNote={onSaveAsNote}
-                    onEditMessage={onEditMessage}
-                    onRegenerateResponse={onRegenerateResponse}
+                    linkResolver={linkResolver}
                   />
-                ))}
+                )}
               </div>
 
               <div className="pb-4" />
@@ -292,6 +404,22 @@ export function ChatArea({
 
       {/* Chat Input */}
       <div className="chat-input-container relative z-40">
+        {currentModel && modelOptions && onCompareModelsChange && (
+          <CompareModelsEditor
+            primaryModel={currentModel}
+            models={compareModels}
+            modelOptions={modelOptions}
+            onChange={onCompareModelsChange}
+          />
+        )}
+        {currentModel && modelOptions && onFallbackModelsChange && compareModels.length === 0 && (
+          <FallbackChainEditor
+            primaryModel={currentModel}
+            fallbackModels={conversation.fallbackModels || []}
+            modelOptions={modelOptions}
+            onChange={onFallbackModelsChange}
+          />
+        )}
         <ChatInput
           onSendMessage={onSendMessage}
           isLoading={isLoading}
@@ -303,6 +431,7 @@ export function ChatArea({
           onGenerateFlowchart={onGenerateFlowchart}
           canGenerateQuiz={!!canGenerateQuiz}
           canGenerateFlowchart={!!canGenerateFlowchart}
+          linkCandidates={linkCandidates}
         />
       </div>
     </div>
@@ -1,6 +1,9 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Send, Square, ClipboardCheck, GitBranch, Loader2, Paperclip, ArrowUp, MoreHorizontal, X } from 'lucide-react';
 import type { AIModel } from '../types';
+import { WikiLinkCandidate } from '../utils/wikiLinks';
+import { useWikiLinkAutocomplete } from '../hooks/useWikiLinkAutocomplete';
+import { WikiLinkSuggestions } from './WikiLink';
 
 interface ChatInputProps {
   onSendMessage: (message: string) => void;
@@ -13,6 +16,8 @@ interface ChatInputProps {
   onGenerateFlowchart: () => void;
   canGenerateQuiz: boolean;
   canGenerateFlowchart: boolean;
+  // Offered while typing a [[ link
+  linkCandidates?: WikiLinkCandidate[];
 }
 
 export function ChatInput({
@@ -26,12 +31,15 @@ export function ChatInput({
   onGenerateFlowchart,
   canGenerateQuiz,
   canGenerateFlowchart,
+  linkCandidates,
 }: ChatInputProps) {
   const [input, setInput] = useState('');
   const [showMobileActions, setShowMobileActions] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const autocomplete = useWikiLinkAutocomplete(textareaRef, input, setInput, linkCandidates);
+  const handleLinkKeyDown = autocomplete.handleKeyDown;
 
   // Handle mobile keyboard visibility - Keep input above keyboard
   useEffect(() => {
@@ -86,11 +94,13 @@ export function ChatInput({
   }, [input, isLoading, disabled, onSendMessage]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    // Enter picks a link suggestion when the list is open
+    if (handleLinkKeyDown(e)) return;
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
     }
-  }, [handleSubmit]);
+  }, [handleLinkKeyDown, handleSubmit]);
 
   const resizeTextarea = useCallback(() => {
     if (textareaRef.current) {
@@ -136,7 +146,7 @@ export function ChatInput({
   return (
     <div ref={containerRef} className="w-full max-w-3xl mx-auto px-4 pb-2 sm:pb-2">
       {/* Stop generating button */}
-      {isLoading && (
+      {(isLoading || isQuizLoading || isFlowchartLoading) && (
         <div className="flex justify-center mb-3">
           <button
             onClick={onStopGenerating}
@@ -238,14 +248,22 @@ export function ChatInput({
           <textarea
             ref={textareaRef}
             value={input}
-            onChange={(e) => setInput(e.target.value)}
+            onChange={(e) => { setInput(e.target.value); autocomplete.refresh(); }}
+            onSelect={autocomplete.refresh}
             onKeyDown={handleKeyDown}
+            onBlur={autocomplete.close}
             placeholder="Message AI Tutor..."
             disabled={disabled || isLoading}
             className="w-full max-h-[100px] bg-transparent border-none outline-none text-[var(--color-text-primary)] placeholder-[var(--color-text-placeholder)] resize-none text-sm leading-relaxed"
             rows={1}
             style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}
           />
+          <WikiLinkSuggestions
+            suggestions={autocomplete.suggestions}
+            activeIndex={autocomplete.activeIndex}
+            onSelect={autocomplete.select}
+            className="bottom-full mb-2 left-12"
+          />
         </div>
 
         {/* Right actions - Desktop only */}
@@ -0,0 +1,78 @@
+// src/components/CompareModelsEditor.tsx
+import { Columns2, X } from 'lucide-react';
+import { AIModel } from '../types';
+import { MAX_COMPARE_MODELS, MIN_COMPARE_MODELS, ModelOption } from '../utils/models';
+
+interface CompareModelsEditorProps {
+  primaryModel: AIModel;
+  // Empty when compare mode is off
+  models: AIModel[];
+  modelOptions: ModelOption[];
+  onChange: (models: AIModel[]) => void;
+}
+
+export function CompareModelsEditor({ primaryModel, models, modelOptions, onChange }: CompareModelsEditorProps) {
+  const isOpen = models.length > 0;
+  const available = modelOptions.filter(option => !models.includes(option.id));
+
+  const getName = (model: AIModel) => modelOptions.find(o => o.id === model)?.name || model;
+
+  const handleToggle = () => {
+    onChange(isOpen ? [] : [primaryModel]);
+  };
+
+  const handleAdd = (model: string) => {
+    if (!model) return;
+    onChange([...models, model as AIModel]);
+  };
+
+  const handleRemove = (model: AIModel) => {
+    onChange(models.filter(m => m !== model));
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto px-4 mb-2">
+      <button
+        onClick={handleToggle}
+        className={`flex items-center gap-1.5 text-xs transition-colors ${isOpen ? 'text-[var(--color-text-primary)]' : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'}`}
+        title="Send the next message to several models and pick the best answer"
+      >
+        <Columns2 className="w-3.5 h-3.5" />
+        {isOpen ? `Comparing ${models.length} model${models.length === 1 ? '' : 's'}` : 'Compare models'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 p-2 bg-[var(--color-card)] border border-[var(--color-border)] rounded-xl flex flex-wrap items-center gap-1.5 animate-fadeIn">
+          {models.map(model => (
+            <span
+              key={model}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-semibold border border-[var(--color-border)] text-[var(--color-text-primary)]"
+            >
+              {getName(model)}
+              <button onClick={() => handleRemove(model)} className="hover:text-red-400" title="Remove from comparison">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          {models.length < MAX_COMPARE_MODELS && available.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => handleAdd(e.target.value)}
+              className="px-2 py-1 text-xs bg-transparent border border-dashed border-[var(--color-border)] rounded-lg text-[var(--color-text-secondary)] focus:outline-none"
+            >
+              <option value="">+ Add model</option>
+              {available.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          )}
+          {models.length < MIN_COMPARE_MODELS && (
+            <span className="text-xs text-[var(--color-text-placeholder)]">
+              Add at least {MIN_COMPARE_MODELS - models.length} more
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+// src/components/ComparisonView.tsx
+import { Check } from 'lucide-react';
+import { Comparison } from '../types';
+import { WikiLinkResolver } from '../utils/wikiLinks';
+import { MessageBubble } from './MessageBubble';
+
+interface ComparisonViewProps {
+  comparison: Comparison;
+  onPick?: (messageId: string) => void;
+  onSaveAsNote: (content: string) => void;
+  linkResolver?: WikiLinkResolver;
+}
+
+// Answers from each compared model in parallel columns. Wider than the chat
+// column on large screens; scrolls sideways when the columns don't fit.
+export function ComparisonView({ comparison, onPick, onSaveAsNote, linkResolver }: ComparisonViewProps) {
+  const isStreaming = comparison.columns.some(column => column.isStreaming);
+
+  return (
+    <div className="lg:relative lg:left-1/2 lg:-translate-x-1/2 lg:w-[min(90vw,72rem)]">
+      <div className="grid grid-flow-col auto-cols-[minmax(18rem,1fr)] gap-4 overflow-x-auto pb-2">
+        {comparison.columns.map(({ message, isStreaming: isColumnStreaming, error }) => (
+          <div
+            key={message.id}
+            className="flex flex-col p-4 bg-[var(--color-card)] border border-[var(--color-border)] rounded-xl min-w-0"
+          >
+            <div className="flex-1 min-w-0">
+              <MessageBubble message={message} isStreaming={isColumnStreaming} onSaveAsNote={onSaveAsNote} linkResolver={linkResolver} />
+              {error && <p className="text-sm text-red-400">{error}</p>}
+            </div>
+            {onPick && (
+              <button
+                onClick={() => onPick(message.id)}
+                disabled={isStreaming || !!error || !message.content}
+                className="mt-2 flex items-center justify-center gap-2 px-3 py-2 border border-[var(--color-border)] rounded-lg text-sm font-semibold text-[var(--color-text-primary)] hover:bg-[var(--color-bg-secondary)] transition-colors disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <Check className="w-4 h-4" />
+                Continue with this answer
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      {!isStreaming && (
+        <p className="mt-2 text-xs text-center text-[var(--color-text-secondary)]">
+          Pick an answer to continue the conversation. The others stay available as alternate versions.
+        </p>
+      )}
+    </div>
+  );
+}
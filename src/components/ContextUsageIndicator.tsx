@@ -0,0 +1,29 @@
+// src/components/ContextUsageIndicator.tsx
+import { ContextUsage } from '../services/contextManager';
+
+interface ContextUsageIndicatorProps {
+  usage: ContextUsage;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${Math.round(tokens / 1000)}k`;
+  return String(tokens);
+}
+
+export function ContextUsageIndicator({ usage }: ContextUsageIndicatorProps) {
+  const percent = Math.round((usage.used / usage.limit) * 100);
+  const barColor = percent >= 100 ? 'bg-red-400' : percent >= 75 ? 'bg-yellow-400' : 'bg-green-400';
+  const title = percent >= 100
+    ? 'Older messages will be summarised on the next send'
+    : `About ${usage.used.toLocaleString()} of ${usage.limit.toLocaleString()} tokens in the context window`;
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-[var(--color-text-secondary)]" title={title}>
+      <div className="w-16 h-1.5 rounded-full bg-[var(--color-border)] overflow-hidden">
+        <div className={`h-full ${barColor} transition-all`} style={{ width: `${Math.min(percent, 100)}%` }} />
+      </div>
+      <span>{formatTokens(usage.used)} / {formatTokens(usage.limit)}</span>
+    </div>
+  );
+}
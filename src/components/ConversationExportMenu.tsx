@@ -0,0 +1,55 @@
+// src/components/ConversationExportMenu.tsx
+import { useState } from 'react';
+import { Download, FileCode, FileText, Printer } from 'lucide-react';
+import { ExportFormat } from '../services/conversationExport';
+
+interface ConversationExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+}
+
+const exportOptions: { id: ExportFormat; label: string; description: string; icon: typeof Download }[] = [
+  { id: 'markdown', label: 'Markdown', description: 'Plain text, math kept as $...$', icon: FileText },
+  { id: 'html', label: 'HTML', description: 'Self-contained page, looks like the chat', icon: FileCode },
+  { id: 'print', label: 'Print / PDF', description: 'Printable study handout', icon: Printer },
+];
+
+export function ConversationExportMenu({ onExport }: ConversationExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleSelect = (format: ExportFormat) => {
+    setIsOpen(false);
+    onExport(format);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)] rounded-lg transition-colors"
+        title="Export conversation"
+      >
+        <Download className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-1 w-64 p-1 z-50 bg-[var(--color-bg-secondary)] border border-[var(--color-border)] rounded-xl shadow-lg backdrop-blur-md animate-fadeIn">
+            {exportOptions.map(option => (
+              <button
+                key={option.id}
+                onClick={() => handleSelect(option.id)}
+                className="w-full flex items-start gap-3 p-2 rounded-lg text-left hover:bg-[var(--color-card)] transition-colors"
+              >
+                <option.icon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <div>
+                  <div className="text-sm font-semibold text-[var(--color-text-primary)]">{option.label}</div>
+                  <div className="text-xs text-[var(--color-text-secondary)]">{option.description}</div>
+                </div>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+// src/components/CustomEndpointsSection.tsx
+import { useRef, useState } from 'react';
+import { Plus, Trash2, RefreshCw, Loader2, Server, Eye, EyeOff } from 'lucide-react';
+import { CustomEndpoint } from '../types';
+import { generateId } from '../utils/helpers';
+import { fetchOpenAICompatModels } from '../services/providers';
+
+interface CustomEndpointsSectionProps {
+  endpoints: CustomEndpoint[];
+  onChange: (endpoints: CustomEndpoint[]) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-colors text-sm';
+
+export function CustomEndpointsSection({ endpoints, onChange }: CustomEndpointsSectionProps) {
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [visibleKeys, setVisibleKeys] = useState<Record<string, boolean>>({});
+  // The latest list, so a model fetch that finishes later doesn't undo edits made meanwhile
+  const endpointsRef = useRef(endpoints);
+  endpointsRef.current = endpoints;
+
+  const updateEndpoint = (id: string, changes: Partial<CustomEndpoint>) => {
+    onChange(endpointsRef.current.map(e => (e.id === id ? { ...e, ...changes } : e)));
+  };
+
+  const handleAdd = () => {
+    onChange([
+      ...endpoints,
+      { id: generateId(), name: 'Local server', baseUrl: 'http://localhost:11434/v1', apiKey: '', models: [] },
+    ]);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(endpoints.filter(e => e.id !== id));
+  };
+
+  const handleFetchModels = async (endpoint: CustomEndpoint) => {
+    setLoadingId(endpoint.id);
+    setErrors(prev => ({ ...prev, [endpoint.id]: '' }));
+    try {
+      const models = await fetchOpenAICompatModels(endpoint.baseUrl, endpoint.apiKey);
+      if (models.length === 0) {
+        setErrors(prev => ({ ...prev, [endpoint.id]: 'The server did not report any models.' }));
+      }
+      updateEndpoint(endpoint.id, { models });
+    } catch (error) {
+      console.error('Error fetching models:', error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      setErrors(prev => ({ ...prev, [endpoint.id]: `${errorMsg}. Check the URL and that the server allows CORS.` }));
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-[var(--color-border)]">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Custom Endpoints</h3>
+          <p className="text-xs text-[var(--color-text-secondary)]">
+            Any OpenAI-compatible server, e.g. llama.cpp or Ollama.
+          </p>
+        </div>
+        <button
+          onClick={handleAdd}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors"
+        >
+          <Plus className="w-4 h-4" /> Add
+        </button>
+      </div>
+
+      {endpoints.map(endpoint => (
+        <div key={endpoint.id} className="p-3 border border-[var(--color-border)] rounded-lg space-y-2">
+          <div className="flex items-center gap-2">
+            <Server className="w-4 h-4 text-[var(--color-text-secondary)] flex-shrink-0" />
+            <input
+              type="text"
+              value={endpoint.name}
+              onChange={(e) => updateEndpoint(endpoint.id, { name: e.target.value })}
+              placeholder="Name"
+              className={inputClass}
+            />
+            <button
+              onClick={() => handleRemove(endpoint.id)}
+              className="p-2 rounded-lg text-red-400 hover:bg-red-900/30 transition-colors"
+              title="Remove endpoint"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <input
+            type="url"
+            value={endpoint.baseUrl}
+            onChange={(e) => updateEndpoint(endpoint.id, { baseUrl: e.target.value })}
+            placeholder="Base URL, e.g. http://localhost:8080/v1"
+            className={inputClass}
+          />
+          <div className="relative">
+            <input
+              type={visibleKeys[endpoint.id] ? 'text' : 'password'}
+              value={endpoint.apiKey || ''}
+              onChange={(e) => updateEndpoint(endpoint.id, { apiKey: e.target.value })}
+              placeholder="API key (optional)"
+              className={`${inputClass} pr-10`}
+            />
+            <button
+              type="button"
+              onClick={() => setVisibleKeys(prev => ({ ...prev, [endpoint.id]: !prev[endpoint.id] }))}
+              className="absolute top-1/2 right-3 -translate-y-1/2 text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]"
+            >
+              {visibleKeys[endpoint.id] ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+            </button>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-[var(--color-text-secondary)]">
+              {endpoint.models.length} model{endpoint.models.length === 1 ? '' : 's'}
+            </span>
+            <button
+              onClick={() => handleFetchModels(endpoint)}
+              disabled={loadingId === endpoint.id || !endpoint.baseUrl.trim()}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors disabled:opacity-50"
+            >
+              {loadingId === endpoint.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+              Fetch models
+            </button>
+          </div>
+          {endpoint.models.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {endpoint.models.map(model => (
+                <span key={model} className="px-2 py-0.5 bg-[var(--color-card)] rounded-full text-xs">{model}</span>
+              ))}
+            </div>
+          )}
+          {errors[endpoint.id] && <p className="text-xs text-red-400">{errors[endpoint.id]}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
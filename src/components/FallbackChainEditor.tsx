@@ -0,0 +1,72 @@
+// src/components/FallbackChainEditor.tsx
+import { useState } from 'react';
+import { ChevronRight, Route, X } from 'lucide-react';
+import { AIModel } from '../types';
+import { ModelOption } from '../utils/models';
+
+interface FallbackChainEditorProps {
+  primaryModel: AIModel;
+  fallbackModels: AIModel[];
+  modelOptions: ModelOption[];
+  onChange: (models: AIModel[]) => void;
+}
+
+export function FallbackChainEditor({ primaryModel, fallbackModels, modelOptions, onChange }: FallbackChainEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const chain = [primaryModel, ...fallbackModels.filter(m => m !== primaryModel)];
+  const available = modelOptions.filter(option => !chain.includes(option.id));
+
+  const getName = (model: AIModel) => modelOptions.find(o => o.id === model)?.name || model;
+
+  const handleAdd = (model: string) => {
+    if (!model) return;
+    onChange([...fallbackModels, model as AIModel]);
+  };
+
+  const handleRemove = (model: AIModel) => {
+    onChange(fallbackModels.filter(m => m !== model));
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto px-4 mb-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 text-xs text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] transition-colors"
+        title="Models to try when the selected one fails"
+      >
+        <Route className="w-3.5 h-3.5" />
+        {fallbackModels.length > 0 ? `Fallbacks (${fallbackModels.length})` : 'Add fallback models'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 p-2 bg-[var(--color-card)] border border-[var(--color-border)] rounded-xl flex flex-wrap items-center gap-1.5 animate-fadeIn">
+          {chain.map((model, index) => (
+            <div key={model} className="flex items-center gap-1.5">
+              {index > 0 && <ChevronRight className="w-3.5 h-3.5 text-[var(--color-text-placeholder)]" />}
+              <span className={`flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-semibold ${index === 0 ? 'bg-[var(--color-bg-secondary)] text-[var(--color-text-primary)]' : 'border border-[var(--color-border)] text-[var(--color-text-secondary)]'}`}>
+                {getName(model)}
+                {index > 0 && (
+                  <button onClick={() => handleRemove(model)} className="hover:text-red-400" title="Remove fallback">
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            </div>
+          ))}
+          {available.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => handleAdd(e.target.value)}
+              className="px-2 py-1 text-xs bg-transparent border border-dashed border-[var(--color-border)] rounded-lg text-[var(--color-text-secondary)] focus:outline-none"
+            >
+              <option value="">+ Add fallback</option>
+              {available.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,9 @@ interface FlowchartCanvasProps {
   title?: string;
   onSave?: () => void;
   onExport?: () => void;
+  // A node opened from search; centered and selected
+  focusedNodeId?: string | null;
+  onFocusHandled?: () => void;
 }
 
 const nodeTypeStyles: Record<NodeType, { 
@@ -81,6 +84,8 @@ export function FlowchartCanvas({
   title,
   onSave,
   onExport,
+  focusedNodeId,
+  onFocusHandled,
 }: FlowchartCanvasProps) {
   const [viewport, setViewport] = useState<FlowchartViewport>({ x: 0, y: 0, zoom: 1 });
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
@@ -146,6 +151,20 @@ export function FlowchartCanvas({
     }
   }, [nodes, isInitialized, centerFlowchart]);
 
+  // Runs after the initial centering above
+  useEffect(() => {
+    const node = nodes.find(n => n.id === focusedNodeId);
+    if (!node) return;
+    const timeoutId = setTimeout(() => {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      setViewport({ x: rect.width / 2 - node.position.x, y: rect.height / 2 - node.position.y, zoom: 1 });
+      setSelectedNodeId(node.id);
+      onFocusHandled?.();
+    }, 150);
+    return () => clearTimeout(timeoutId);
+  }, [focusedNodeId, nodes, onFocusHandled]);
+
   const handleWheel = useCallback((e: WheelEvent) => {
     e.preventDefault();
     const delta = e.deltaY > 0 ? 0.9 : 1.1;
@@ -7,9 +7,11 @@ interface FlowchartViewProps {
   flowchart: Flowchart | null;
   onSave?: (flowchart: Flowchart) => void;
   onExport?: (flowchart: Flowchart) => void;
+  focusedNodeId?: string | null;
+  onFocusHandled?: () => void;
 }
 
-export function FlowchartView({ flowchart, onSave, onExport }: FlowchartViewProps) {
+export function FlowchartView({ flowchart, onSave, onExport, focusedNodeId, onFocusHandled }: FlowchartViewProps) {
   if (!flowchart) {
     return (
       <div className="flex-1 flex items-center justify-center p-8">
@@ -110,6 +112,8 @@ export function FlowchartView({ flowchart, onSave, onExport }: FlowchartViewProp
         title={flowchart.title}
         onSave={handleSave}
         onExport={handleExport}
+        focusedNodeId={focusedNodeId}
+        onFocusHandled={onFocusHandled}
       />
     </div>
   );
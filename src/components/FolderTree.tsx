@@ -0,0 +1,196 @@
+// src/components/FolderTree.tsx
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Edit, Folder as FolderIcon, FolderOpen, FolderPlus, Inbox, Layers, Trash2 } from 'lucide-react';
+import { Folder } from '../types';
+import { FOLDER_DRAG_TYPE, FolderFilter, ITEMS_DRAG_TYPE, getChildFolders } from '../utils/organize';
+
+interface FolderTreeProps {
+  folders: Folder[];
+  // Items of the current list directly in each folder, unfiled under ''
+  counts: Map<string, number>;
+  totalCount: number;
+  filter: FolderFilter;
+  onFilterChange: (filter: FolderFilter) => void;
+  onCreateFolder: (name: string, parentId: string | null) => void;
+  onRenameFolder: (id: string, name: string) => void;
+  onMoveFolder: (id: string, parentId: string | null) => void;
+  onDeleteFolder: (id: string) => void;
+  // Items dropped on a folder, or on "Unfiled" (null)
+  onDropItems: (ids: string[], folderId: string | null) => void;
+}
+
+// Where the name input is open: renaming a folder or creating one under a parent
+type Editing = { type: 'rename'; id: string } | { type: 'create'; parentId: string | null };
+
+export function FolderTree({
+  folders,
+  counts,
+  totalCount,
+  filter,
+  onFilterChange,
+  onCreateFolder,
+  onRenameFolder,
+  onMoveFolder,
+  onDeleteFolder,
+  onDropItems,
+}: FolderTreeProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [name, setName] = useState('');
+  // '' is the "Unfiled" row
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const startEditing = (next: Editing, initialName: string) => {
+    setEditing(next);
+    setName(initialName);
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (editing && trimmed) {
+      if (editing.type === 'rename') onRenameFolder(editing.id, trimmed);
+      else onCreateFolder(trimmed, editing.parentId);
+    }
+    setEditing(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') handleSave();
+    else if (e.key === 'Escape') setEditing(null);
+  };
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const dropHandlers = (folderId: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(ITEMS_DRAG_TYPE) && !e.dataTransfer.types.includes(FOLDER_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(folderId ?? '');
+    },
+    onDragLeave: () => setDropTarget(prev => (prev === (folderId ?? '') ? null : prev)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const items = e.dataTransfer.getData(ITEMS_DRAG_TYPE);
+      const folder = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+      if (items) {
+        try {
+          const ids: unknown = JSON.parse(items);
+          if (Array.isArray(ids)) onDropItems(ids.filter((id): id is string => typeof id === 'string'), folderId);
+        } catch {
+          // Not something this app dragged
+        }
+      } else if (folder && folder !== folderId) {
+        onMoveFolder(folder, folderId);
+      }
+    },
+  });
+
+  const rowClasses = (isSelected: boolean, isDropTarget: boolean) =>
+    `group relative flex items-center gap-1.5 py-1 pr-1.5 rounded-lg cursor-pointer text-sm transition-colors ${isDropTarget ? 'bg-blue-500/20 ring-1 ring-blue-400' : isSelected ? 'bg-white/10 text-white' : 'hover:bg-white/5 text-[var(--color-text-primary)]'}`;
+
+  const nameInput = (
+    <input
+      type="text"
+      value={name}
+      onChange={(e) => setName(e.target.value)}
+      onBlur={handleSave}
+      onKeyDown={handleKeyDown}
+      placeholder="Folder name"
+      className="flex-1 min-w-0 text-sm bg-transparent border-b border-[var(--color-border)] outline-none placeholder:text-[var(--color-text-placeholder)]"
+      autoFocus
+      onClick={e => e.stopPropagation()}
+    />
+  );
+
+  const renderNewFolder = (parentId: string | null, depth: number) =>
+    editing?.type === 'create' && editing.parentId === parentId && (
+      <div className="flex items-center gap-1.5 py-1 pr-1.5" style={{ paddingLeft: depth * 12 + 22 }}>
+        <FolderIcon className="w-4 h-4 flex-shrink-0 text-[var(--color-text-secondary)]" />
+        {nameInput}
+      </div>
+    );
+
+  const renderFolder = (folder: Folder, depth: number): React.ReactNode => {
+    const children = getChildFolders(folders, folder.id);
+    const isCollapsed = collapsed.has(folder.id);
+    const isSelected = filter === folder.id;
+    const count = counts.get(folder.id) ?? 0;
+    const Icon = isSelected ? FolderOpen : FolderIcon;
+    return (
+      <div key={folder.id}>
+        <div
+          draggable={editing === null}
+          onDragStart={e => {
+            e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id);
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onClick={() => onFilterChange(folder.id)}
+          className={rowClasses(isSelected, dropTarget === folder.id)}
+          style={{ paddingLeft: depth * 12 + 4 }}
+          title={folder.name}
+          {...dropHandlers(folder.id)}
+        >
+          <button
+            onClick={e => { e.stopPropagation(); toggleCollapsed(folder.id); }}
+            className={`p-0.5 rounded hover:bg-[var(--color-border)] ${children.length === 0 ? 'invisible' : ''}`}
+            title={isCollapsed ? 'Expand' : 'Collapse'}
+          >
+            {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+          </button>
+          <Icon className="w-4 h-4 flex-shrink-0" />
+          {editing?.type === 'rename' && editing.id === folder.id ? nameInput : <>
+            <span className="flex-1 min-w-0 truncate">{folder.name}</span>
+            {count > 0 && <span className="text-xs text-[var(--color-text-secondary)] group-hover:hidden">{count}</span>}
+            <div className="hidden group-hover:flex items-center">
+              <button onClick={e => { e.stopPropagation(); startEditing({ type: 'create', parentId: folder.id }, ''); setCollapsed(prev => { const next = new Set(prev); next.delete(folder.id); return next; }); }} className="p-0.5 rounded hover:bg-[var(--color-border)]" title="New subfolder"><FolderPlus className="w-3.5 h-3.5" /></button>
+              <button onClick={e => { e.stopPropagation(); startEditing({ type: 'rename', id: folder.id }, folder.name); }} className="p-0.5 rounded hover:bg-[var(--color-border)]" title="Rename"><Edit className="w-3.5 h-3.5" /></button>
+              <button onClick={e => { e.stopPropagation(); if (window.confirm(`Delete the folder "${folder.name}"? What it holds moves up a level.`)) onDeleteFolder(folder.id); }} className="p-0.5 rounded hover:bg-red-900/30 text-red-400" title="Delete folder"><Trash2 className="w-3.5 h-3.5" /></button>
+            </div>
+          </>}
+        </div>
+        {!isCollapsed && <>
+          {children.map(child => renderFolder(child, depth + 1))}
+          {renderNewFolder(folder.id, depth + 1)}
+        </>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mb-2">
+      <div className="flex items-center justify-between px-1 mb-1">
+        <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-1 text-xs font-semibold text-[var(--color-text-secondary)] uppercase tracking-wider hover:text-white">
+          {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          Folders
+        </button>
+        <button onClick={() => { setIsOpen(true); startEditing({ type: 'create', parentId: null }, ''); }} className="p-1 rounded text-[var(--color-text-secondary)] hover:text-white hover:bg-[var(--color-card)]" title="New folder"><FolderPlus className="w-3.5 h-3.5" /></button>
+      </div>
+      {isOpen && (
+        <div className="space-y-0.5">
+          <div onClick={() => onFilterChange('all')} className={rowClasses(filter === 'all', false)} style={{ paddingLeft: 22 }}>
+            <Layers className="w-4 h-4 flex-shrink-0" />
+            <span className="flex-1">All items</span>
+            <span className="text-xs text-[var(--color-text-secondary)]">{totalCount}</span>
+          </div>
+          <div onClick={() => onFilterChange('unfiled')} className={rowClasses(filter === 'unfiled', dropTarget === '')} style={{ paddingLeft: 22 }} {...dropHandlers(null)}>
+            <Inbox className="w-4 h-4 flex-shrink-0" />
+            <span className="flex-1">Unfiled</span>
+            <span className="text-xs text-[var(--color-text-secondary)]">{counts.get('') ?? 0}</span>
+          </div>
+          {getChildFolders(folders, null).map(folder => renderFolder(folder, 0))}
+          {renderNewFolder(null, 0)}
+        </div>
+      )}
+    </div>
+  );
+}
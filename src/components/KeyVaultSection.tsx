@@ -0,0 +1,146 @@
+// src/components/KeyVaultSection.tsx
+import { useState } from 'react';
+import { Lock, Unlock, Loader2, ShieldCheck } from 'lucide-react';
+import { VaultStatus } from '../utils/keyVault';
+
+interface KeyVaultSectionProps {
+  status: VaultStatus;
+  onEnable: (passphrase: string) => Promise<void>;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onLock: () => void;
+  onDisable: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClass = 'w-full px-3 py-2 border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-colors text-sm';
+const buttonClass = 'flex items-center justify-center gap-2 px-3 py-2 border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors text-sm disabled:opacity-50';
+
+export function KeyVaultSection({ status, onEnable, onUnlock, onLock, onDisable }: KeyVaultSectionProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Key derivation is deliberately slow, so show progress while it runs
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError('');
+    try {
+      await action();
+      setPassphrase('');
+      setConfirmation('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleEnable = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError('Passphrases do not match');
+      return;
+    }
+    run(() => onEnable(passphrase));
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Remove the vault? The encrypted API keys are deleted and must be entered again.')) {
+      onDisable();
+    }
+  };
+
+  const handleDisable = () => {
+    if (window.confirm('Turn off the vault? API keys will be stored unencrypted on this device.')) {
+      onDisable();
+    }
+  };
+
+  return (
+    <div className="p-4 border border-[var(--color-border)] rounded-lg space-y-3">
+      <div className="flex items-center gap-2">
+        {status === 'locked' ? <Lock className="w-4 h-4" /> : <ShieldCheck className="w-4 h-4" />}
+        <h3 className="font-semibold">Key Vault</h3>
+        <span className="ml-auto text-xs text-[var(--color-text-secondary)]">
+          {status === 'disabled' ? 'Off' : status === 'locked' ? 'Locked' : 'Unlocked'}
+        </span>
+      </div>
+
+      {status === 'disabled' && (
+        <>
+          <p className="text-xs text-[var(--color-text-secondary)]">
+            Encrypt your API keys with a passphrase. You enter it once per session; it is never stored.
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleEnable()}
+            placeholder="Confirm passphrase"
+            className={inputClass}
+          />
+          <button onClick={handleEnable} disabled={isBusy || !passphrase} className={`w-full ${buttonClass}`}>
+            {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+            Encrypt keys
+          </button>
+        </>
+      )}
+
+      {status === 'locked' && (
+        <>
+          <p className="text-xs text-[var(--color-text-secondary)]">
+            Unlock the vault to use, view or change your API keys.
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && passphrase && run(() => onUnlock(passphrase))}
+            placeholder="Passphrase"
+            className={inputClass}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => run(() => onUnlock(passphrase))} disabled={isBusy || !passphrase} className={buttonClass}>
+              {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlock className="w-4 h-4" />}
+              Unlock
+            </button>
+            <button onClick={handleReset} disabled={isBusy} className={`${buttonClass} text-red-400`}>
+              Forgot passphrase
+            </button>
+          </div>
+        </>
+      )}
+
+      {status === 'unlocked' && (
+        <>
+          <p className="text-xs text-[var(--color-text-secondary)]">
+            Keys are stored encrypted and stay unlocked until you lock the vault or close the app.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={onLock} className={buttonClass}>
+              <Lock className="w-4 h-4" />
+              Lock now
+            </button>
+            <button onClick={handleDisable} className={buttonClass}>
+              Turn off
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -2,14 +2,16 @@
 
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
-import remarkMath from 'remark-math';
-import rehypeKatex from 'rehype-katex';
 import 'katex/dist/katex.min.css';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { Sparkles, Copy, Check, Edit2, RefreshCcw, Save, X, Bookmark, Download, Smile } from 'lucide-react';
+import { Sparkles, Copy, Check, Edit2, RefreshCcw, Save, X, Bookmark, Download, Smile, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Message } from '../types';
+import { parseCustomModelId } from '../services/providers';
+import { BranchInfo } from '../utils/messageTree';
+import { linkedRemarkPlugins, rehypePlugins, urlTransform } from '../utils/markdown';
+import { WikiLinkResolver } from '../utils/wikiLinks';
+import { MarkdownLink } from './WikiLink';
 
 interface MessageBubbleProps {
   message: Message;
@@ -17,6 +19,11 @@ interface MessageBubbleProps {
   onEditMessage?: (messageId: string, newContent: string) => void;
   onRegenerateResponse?: (messageId: string) => void;
   onSaveAsNote?: (content: string) => void;
+  // Position among alternative versions of this message
+  branch?: BranchInfo;
+  onSwitchBranch?: (message: Message, offset: number) => void;
+  // Makes [[wiki links]] in the message open the item they name
+  linkResolver?: WikiLinkResolver;
 }
 
 const modelNames: Record<string, string> = {
@@ -111,12 +118,41 @@ const ActionButtons = React.memo(({ onRegenerate, onCopy, onSaveNote, copied, no
   </div>
 ));
 
+const BranchSwitcher = React.memo(({ branch, onPrevious, onNext }: {
+  branch: BranchInfo;
+  onPrevious: () => void;
+  onNext: () => void;
+}) => (
+  <div className="flex items-center gap-0.5 text-xs text-[var(--color-text-secondary)] select-none">
+    <button
+      onClick={onPrevious}
+      disabled={branch.index <= 0}
+      className="p-1 rounded-md hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-primary)] transition-colors disabled:opacity-40 disabled:pointer-events-none"
+      title="Previous version"
+    >
+      <ChevronLeft className="w-3.5 h-3.5" />
+    </button>
+    <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+    <button
+      onClick={onNext}
+      disabled={branch.index >= branch.count - 1}
+      className="p-1 rounded-md hover:bg-[var(--color-bg-secondary)] hover:text-[var(--color-text-primary)] transition-colors disabled:opacity-40 disabled:pointer-events-none"
+      title="Next version"
+    >
+      <ChevronRight className="w-3.5 h-3.5" />
+    </button>
+  </div>
+));
+
 export function MessageBubble({
   message,
   isStreaming = false,
   onEditMessage,
   onRegenerateResponse,
   onSaveAsNote,
+  branch,
+  onSwitchBranch,
+  linkResolver,
 }: MessageBubbleProps) {
   const isUser = message.role === 'user';
   const [copied, setCopied] = useState(false);
@@ -124,11 +160,11 @@ export function MessageBubble({
   const [editContent, setEditContent] = useState(message.content);
   const [isEditing, setIsEditing] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const copyTimeoutRef = useRef<NodeJS.Timeout>();
+  const copyTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
 
   const displayModel = useMemo(() => {
     if (isUser || !message.model) return undefined;
-    return modelNames[message.model] || 'AI Assistant';
+    return modelNames[message.model] || parseCustomModelId(message.model)?.model || 'AI Assistant';
   }, [isUser, message.model]);
 
   const handleCopy = useCallback(async () => {
@@ -178,6 +214,13 @@ export function MessageBubble({
     }
   }, [message.id, onRegenerateResponse]);
 
+  const handlePreviousBranch = useCallback(() => onSwitchBranch?.(message, -1), [message, onSwitchBranch]);
+  const handleNextBranch = useCallback(() => onSwitchBranch?.(message, 1), [message, onSwitchBranch]);
+
+  const branchSwitcher = branch && branch.count > 1 && onSwitchBranch ? (
+    <BranchSwitcher branch={branch} onPrevious={handlePreviousBranch} onNext={handleNextBranch} />
+  ) : null;
+
   useEffect(() => {
     if (isEditing && textareaRef.current) {
       const textarea = textareaRef.current;
@@ -236,74 +279,81 @@ export function MessageBubble({
     td({ children }: any) {
       return <td className="border border-[var(--color-border)] p-2">{children}</td>;
     },
-  }), []);
+    a({ href, title, children }: React.ComponentProps<typeof MarkdownLink>) {
+      return <MarkdownLink href={href} title={title} resolver={linkResolver}>{children}</MarkdownLink>;
+    },
+  }), [linkResolver]);
 
   return (
-    <div className={`message-wrapper group w-full mb-6 ${isUser ? 'flex justify-start' : ''}`}>
+    <div className={`message-wrapper group w-full mb-6 ${isUser ? 'flex flex-col items-start' : ''}`}>
       {isUser ? (
-        <div className="flex items-center gap-3 bg-[#2a2a2a] text-white rounded-2xl px-4 py-3 w-fit sm:max-w-[85%] shadow-sm">
-          {/* Emoji - aligned with first line */}
-          <div className="flex-shrink-0 w-7 h-7 rounded-full flex items-center justify-center bg-[#E6E4DD] text-[#333333] select-none">
-            <Smile size={18} strokeWidth={2.5} />
-          </div>
+        <>
+          <div className="flex items-center gap-3 bg-[#2a2a2a] text-white rounded-2xl px-4 py-3 w-fit sm:max-w-[85%] shadow-sm">
+            {/* Emoji - aligned with first line */}
+            <div className="flex-shrink-0 w-7 h-7 rounded-full flex items-center justify-center bg-[#E6E4DD] text-[#333333] select-none">
+              <Smile size={18} strokeWidth={2.5} />
+            </div>
 
-          {/* Content area */}
-          <div className="flex-1 min-w-0">
-            {isEditing ? (
-              <div className="w-full">
-                <textarea
-                  ref={textareaRef}
-                  value={editContent}
-                  onChange={(e) => setEditContent(e.target.value)}
-                  onKeyDown={handleKeyDown}
-                  className="w-full min-h-[60px] p-3 bg-[#1a1a1a] border border-white/10 rounded-lg resize-none text-white text-[15px] font-medium leading-relaxed focus:outline-none focus:border-blue-500"
+            {/* Content area */}
+            <div className="flex-1 min-w-0">
+              {isEditing ? (
+                <div className="w-full">
+                  <textarea
+                    ref={textareaRef}
+                    value={editContent}
+                    onChange={(e) => setEditContent(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    className="w-full min-h-[60px] p-3 bg-[#1a1a1a] border border-white/10 rounded-lg resize-none text-white text-[15px] font-medium leading-relaxed focus:outline-none focus:border-blue-500"
+                    style={{ fontFamily: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif' }}
+                    placeholder="Edit your message..."
+                  />
+                  <div className="flex gap-2 justify-end mt-2">
+                    <button
+                      onClick={handleCancelEdit}
+                      className="p-1.5 rounded-md hover:bg-[#1a1a1a] text-gray-400 hover:text-white transition-colors"
+                      title="Cancel (Esc)"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={handleSaveEdit}
+                      className="p-1.5 rounded-md hover:bg-[#1a1a1a] text-green-400 hover:text-green-300 transition-colors"
+                      title="Save (Ctrl+Enter)"
+                    >
+                      <Check className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div 
+                  className="prose prose-invert max-w-none text-[15px] leading-relaxed font-semibold break-words"
                   style={{ fontFamily: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif' }}
-                  placeholder="Edit your message..."
-                />
-                <div className="flex gap-2 justify-end mt-2">
-                  <button
-                    onClick={handleCancelEdit}
-                    className="p-1.5 rounded-md hover:bg-[#1a1a1a] text-gray-400 hover:text-white transition-colors"
-                    title="Cancel (Esc)"
-                  >
-                    <X className="w-4 h-4" />
-                  </button>
-                  <button
-                    onClick={handleSaveEdit}
-                    className="p-1.5 rounded-md hover:bg-[#1a1a1a] text-green-400 hover:text-green-300 transition-colors"
-                    title="Save (Ctrl+Enter)"
+                >
+                  <ReactMarkdown
+                    remarkPlugins={linkedRemarkPlugins}
+                    rehypePlugins={rehypePlugins}
+                    urlTransform={urlTransform}
+                    components={markdownComponents}
                   >
-                    <Check className="w-4 h-4" />
-                  </button>
+                    {message.content}
+                  </ReactMarkdown>
                 </div>
-              </div>
-            ) : (
-              <div 
-                className="prose prose-invert max-w-none text-[15px] leading-relaxed font-semibold break-words"
-                style={{ fontFamily: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif' }}
+              )}
+            </div>
+
+            {/* Edit button - only shows when NOT editing */}
+            {!isEditing && (
+              <button
+                onClick={handleEdit}
+                className="opacity-0 group-hover:opacity-100 p-1.5 text-gray-400 hover:text-white transition-all rounded-md hover:bg-[#1a1a1a] flex-shrink-0 self-start"
+                title="Edit"
               >
-                <ReactMarkdown
-                  remarkPlugins={[remarkGfm, remarkMath]}
-                  rehypePlugins={[rehypeKatex]}
-                  components={markdownComponents}
-                >
-                  {message.content}
-                </ReactMarkdown>
-              </div>
+                <Edit2 className="w-4 h-4" />
+              </button>
             )}
           </div>
-
-          {/* Edit button - only shows when NOT editing */}
-          {!isEditing && (
-            <button
-              onClick={handleEdit}
-              className="opacity-0 group-hover:opacity-100 p-1.5 text-gray-400 hover:text-white transition-all rounded-md hover:bg-[#1a1a1a] flex-shrink-0 self-start"
-              title="Edit"
-            >
-              <Edit2 className="w-4 h-4" />
-            </button>
-          )}
-        </div>
+          {branchSwitcher && <div className="mt-1 ml-2">{branchSwitcher}</div>}
+        </>
       ) : (
         <div className="w-full max-w-none pl-0">
           {displayModel && (
@@ -317,8 +367,9 @@ export function MessageBubble({
             style={{ fontFamily: 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif' }}
           >
             <ReactMarkdown
-              remarkPlugins={[remarkGfm, remarkMath]}
-              rehypePlugins={[rehypeKatex]}
+              remarkPlugins={linkedRemarkPlugins}
+              rehypePlugins={rehypePlugins}
+              urlTransform={urlTransform}
               components={markdownComponents}
             >
               {message.content}
@@ -326,15 +377,34 @@ export function MessageBubble({
             {isStreaming && <StreamingIndicator />}
           </div>
 
+          {message.isStopped && (
+            <div className="mt-1 text-xs text-[var(--color-text-secondary)] italic select-none">
+              Stopped
+            </div>
+          )}
+
           {!isStreaming && message.content.length > 0 && (
-            <div className="mt-2 flex justify-end opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-              <ActionButtons
-                onRegenerate={onRegenerateResponse ? handleRegenerate : undefined}
-                onCopy={handleCopy}
-                onSaveNote={handleSaveNote}
-                copied={copied}
-                noteSaved={noteSaved}
-              />
+            <div className="mt-2 flex items-center gap-3">
+              {branchSwitcher}
+              <div className="flex-1 flex items-center justify-end gap-3 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                {message.usage && (
+                  <span
+                    className="mr-auto text-xs text-[var(--color-text-secondary)] select-none"
+                    title={message.usage.estimated ? 'Estimated: the provider did not report usage' : 'Prompt → completion tokens'}
+                  >
+                    {message.usage.estimated && '~'}
+                    {message.usage.promptTokens.toLocaleString()} → {message.usage.completionTokens.toLocaleString()} tokens
+                    {message.latencyMs !== undefined && ` · ${(message.latencyMs / 1000).toFixed(1)}s`}
+                  </span>
+                )}
+                <ActionButtons
+                  onRegenerate={onRegenerateResponse ? handleRegenerate : undefined}
+                  onCopy={handleCopy}
+                  onSaveNote={handleSaveNote}
+                  copied={copied}
+                  noteSaved={noteSaved}
+                />
+              </div>
             </div>
           )}
         </div>
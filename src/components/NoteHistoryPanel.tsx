@@ -0,0 +1,120 @@
+// src/components/NoteHistoryPanel.tsx
+import { useMemo, useState } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import { NoteRevision } from '../types';
+import { formatDate } from '../utils/helpers';
+import { diffLines, DiffLine } from '../utils/textDiff';
+
+interface NoteHistoryPanelProps {
+  revisions: NoteRevision[];
+  current: { title: string; content: string };
+  onRestore: (revisionId: string) => void;
+  onClose: () => void;
+}
+
+// Unchanged stretches longer than this are folded, keeping a few lines of context
+const CONTEXT_LINES = 3;
+
+type DiffRow = DiffLine | { type: 'skipped'; count: number };
+
+function foldUnchanged(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type !== 'same') {
+      rows.push(lines[i++]);
+      continue;
+    }
+    let end = i;
+    while (end < lines.length && lines[end].type === 'same') end++;
+    const keepBefore = i === 0 ? 0 : CONTEXT_LINES;
+    const keepAfter = end === lines.length ? 0 : CONTEXT_LINES;
+    if (end - i > keepBefore + keepAfter + 1) {
+      rows.push(...lines.slice(i, i + keepBefore), { type: 'skipped', count: end - i - keepBefore - keepAfter }, ...lines.slice(end - keepAfter, end));
+    } else {
+      rows.push(...lines.slice(i, end));
+    }
+    i = end;
+  }
+  return rows;
+}
+
+const rowStyles: Record<DiffLine['type'], string> = {
+  same: 'text-[var(--color-text-secondary)]',
+  added: 'bg-emerald-500/10 text-emerald-300',
+  removed: 'bg-red-500/10 text-red-300',
+};
+
+const rowMarkers: Record<DiffLine['type'], string> = { same: ' ', added: '+', removed: '-' };
+
+export function NoteHistoryPanel({ revisions, current, onRestore, onClose }: NoteHistoryPanelProps) {
+  const newestFirst = useMemo(() => [...revisions].reverse(), [revisions]);
+  const [selectedId, setSelectedId] = useState<string | null>(newestFirst[0]?.id ?? null);
+  const selected = newestFirst.find(r => r.id === selectedId) ?? newestFirst[0];
+
+  // What has changed since the selected version
+  const rows = useMemo(
+    () => (selected ? foldUnchanged(diffLines(selected.content, current.content)) : []),
+    [selected, current.content]
+  );
+  const hasChanges = !!selected && (selected.title !== current.title || selected.content !== current.content);
+
+  return (
+    <aside className="w-full lg:w-[28rem] flex-shrink-0 flex flex-col border-l border-[var(--color-border)] bg-[var(--color-bg-secondary)] h-full animate-fadeIn">
+      <div className="flex items-center justify-between p-3 border-b border-[var(--color-border)]">
+        <h2 className="font-semibold">Version history</h2>
+        <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-[var(--color-card)]" title="Close history"><X className="w-4 h-4" /></button>
+      </div>
+
+      {newestFirst.length === 0 ? (
+        <p className="p-4 text-sm text-[var(--color-text-secondary)]">
+          No earlier versions yet. One is kept when you start editing and then every few minutes while you write.
+        </p>
+      ) : (
+        <>
+          <div className="max-h-48 overflow-y-auto p-2 space-y-1 border-b border-[var(--color-border)]">
+            {newestFirst.map(revision => (
+              <button
+                key={revision.id}
+                onClick={() => setSelectedId(revision.id)}
+                className={`w-full text-left p-2 rounded-lg text-sm transition-colors ${selected?.id === revision.id ? 'bg-white/10 text-white' : 'hover:bg-white/5 text-[var(--color-text-primary)]'}`}
+              >
+                <div className="font-medium">{formatDate(new Date(revision.savedAt))}</div>
+                <div className="text-xs text-[var(--color-text-secondary)] truncate">{revision.title || 'Untitled'}</div>
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="flex-1 flex flex-col min-h-0">
+              <div className="flex items-center justify-between gap-2 p-3">
+                <p className="text-xs text-[var(--color-text-secondary)]">
+                  {hasChanges ? 'Changes made since this version' : 'Same as the current note'}
+                </p>
+                <button
+                  onClick={() => onRestore(selected.id)}
+                  disabled={!hasChanges}
+                  className="flex items-center gap-1.5 px-3 py-1.5 border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors text-sm disabled:opacity-50"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" /> Restore
+                </button>
+              </div>
+              {selected.title !== current.title && (
+                <div className="mx-3 mb-2 text-xs font-mono">
+                  <div className={`px-2 ${rowStyles.removed}`}>- {selected.title}</div>
+                  <div className={`px-2 ${rowStyles.added}`}>+ {current.title}</div>
+                </div>
+              )}
+              <div className="flex-1 overflow-auto mx-3 mb-3 rounded-lg border border-[var(--color-border)] text-xs font-mono">
+                {rows.map((row, i) => (row.type === 'skipped'
+                  ? <div key={i} className="px-2 py-1 text-center text-[var(--color-text-secondary)] bg-[var(--color-card)]">{row.count} unchanged lines</div>
+                  : <div key={i} className={`px-2 whitespace-pre-wrap break-words ${rowStyles[row.type]}`}>{rowMarkers[row.type]} {row.text}</div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </aside>
+  );
+}
@@ -1,15 +1,49 @@
-import React, { useMemo } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { Book, Columns2, Eye, GitBranch, GraduationCap, History, Link2, MessageSquare, Pencil } from 'lucide-react';
 import { Note } from '../types';
 import { formatDate } from '../utils/helpers';
+import { linkedRemarkPlugins, rehypePlugins, urlTransform } from '../utils/markdown';
+import { Backlink, LinkTarget, WikiLinkCandidate, WikiLinkResolver } from '../utils/wikiLinks';
+import { useWikiLinkAutocomplete } from '../hooks/useWikiLinkAutocomplete';
+import { NoteHistoryPanel } from './NoteHistoryPanel';
+import { MarkdownLink, WikiLinkSuggestions } from './WikiLink';
 
 interface NoteViewProps {
   note: Note | null;
+  // Called with the edited title and content after a pause in typing
+  onUpdateNote: (id: string, changes: Pick<Note, 'title' | 'content'>) => void;
+  onRestoreRevision: (id: string, revisionId: string) => void;
+  onOpenConversation?: (id: string) => void;
+  linkResolver?: WikiLinkResolver;
+  // Offered while typing a [[ link
+  linkCandidates?: WikiLinkCandidate[];
+  // Items whose [[links]] point at this note
+  backlinks: Backlink[];
+  onOpenBacklink: (target: LinkTarget) => void;
+  // Turns the note's `question :: answer` and Q:/A: lines into review cards
+  onCreateReviewCards?: (id: string, content: string) => void;
 }
 
+type EditorMode = 'edit' | 'split' | 'preview';
+
+const AUTOSAVE_DELAY_MS = 800;
+const EDITOR_MODE_KEY = 'ai-tutor-note-editor-mode';
+
+const editorModes: { id: EditorMode; label: string; icon: typeof Eye }[] = [
+  { id: 'edit', label: 'Edit', icon: Pencil },
+  { id: 'split', label: 'Split', icon: Columns2 },
+  { id: 'preview', label: 'Preview', icon: Eye },
+];
+
+const backlinkIcons: Record<LinkTarget['type'], typeof Eye> = {
+  note: Book,
+  conversation: MessageSquare,
+  flowchart: GitBranch,
+};
+
 const CodeBlock = React.memo(({ language, children }: { language: string; children: string; }) => {
   const codeContent = String(children).replace(/\n$/, '');
   return (
@@ -24,7 +58,58 @@ const CodeBlock = React.memo(({ language, children }: { language: string; childr
   );
 });
 
-export function NoteView({ note }: NoteViewProps) {
+export function NoteView({
+  note,
+  onUpdateNote,
+  onRestoreRevision,
+  onOpenConversation,
+  linkResolver,
+  linkCandidates,
+  backlinks,
+  onOpenBacklink,
+  onCreateReviewCards,
+}: NoteViewProps) {
+  // The view is keyed by note id, so the draft starts from the note being opened
+  const [draft, setDraft] = useState({ title: note?.title ?? '', content: note?.content ?? '' });
+  const [mode, setMode] = useState<EditorMode>(() => (localStorage.getItem(EDITOR_MODE_KEY) as EditorMode | null) ?? 'split');
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const savedRef = useRef({ title: note?.title ?? '', content: note?.content ?? '' });
+  const latestRef = useRef({ draft, note, onUpdateNote });
+  latestRef.current = { draft, note, onUpdateNote };
+
+  const setContent = useCallback((content: string) => setDraft(prev => ({ ...prev, content })), []);
+  const autocomplete = useWikiLinkAutocomplete(textareaRef, draft.content, setContent, linkCandidates);
+
+  const isDirty = !!note && (draft.title !== note.title || draft.content !== note.content);
+
+  useEffect(() => {
+    localStorage.setItem(EDITOR_MODE_KEY, mode);
+  }, [mode]);
+
+  // Changes from another tab, a sync or a restore replace the draft unless
+  // there is unsaved typing here
+  const storedTitle = note?.title;
+  const storedContent = note?.content;
+  useEffect(() => {
+    if (storedTitle === undefined || storedContent === undefined) return;
+    const incoming = { title: storedTitle, content: storedContent };
+    setDraft(prev => (prev.title === savedRef.current.title && prev.content === savedRef.current.content ? incoming : prev));
+    savedRef.current = incoming;
+  }, [storedTitle, storedContent]);
+
+  useEffect(() => {
+    if (!note || !isDirty) return;
+    const timeoutId = setTimeout(() => onUpdateNote(note.id, draft), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [note, isDirty, draft, onUpdateNote]);
+
+  // Saves typing that hasn't been autosaved yet when another note is opened
+  useEffect(() => () => {
+    const { draft: pending, note: current, onUpdateNote: save } = latestRef.current;
+    if (current && (pending.title !== current.title || pending.content !== current.content)) save(current.id, pending);
+  }, []);
+
   const markdownComponents = useMemo(() => ({
     code({ node, inline, className, children, ...props }: any) {
       const match = /language-(\w+)/.exec(className || '');
@@ -55,7 +140,10 @@ export function NoteView({ note }: NoteViewProps) {
     td({ children }: any) {
       return <td className="border border-[var(--color-border)] p-2">{children}</td>;
     },
-  }), []);
+    a({ href, title, children }: React.ComponentProps<typeof MarkdownLink>) {
+      return <MarkdownLink href={href} title={title} resolver={linkResolver}>{children}</MarkdownLink>;
+    },
+  }), [linkResolver]);
 
   if (!note) {
     return (
@@ -98,7 +186,7 @@ export function NoteView({ note }: NoteViewProps) {
           {/* Tip */}
           <div className="bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg p-4 text-left">
             <p className="text-xs text-[var(--color-text-secondary)] leading-relaxed">
-              <strong className="text-[var(--color-text-primary)]">💡 How to save:</strong> Hover over any AI response and click the bookmark icon to save it as a note
+              <strong className="text-[var(--color-text-primary)]">💡 How to save:</strong> Hover over any AI response and click the bookmark icon to save it as a note, or start a blank one with New note
             </p>
           </div>
         </div>
@@ -106,31 +194,143 @@ export function NoteView({ note }: NoteViewProps) {
     );
   }
 
+  const sourceConversationId = note.sourceConversationId;
+
+  // Shown at once, so pending typing can't autosave over the restored version
+  const handleRestore = (revisionId: string) => {
+    const revision = note.revisions?.find(r => r.id === revisionId);
+    if (!revision) return;
+    setDraft({ title: revision.title, content: revision.content });
+    onRestoreRevision(note.id, revisionId);
+  };
+
+  const preview = (
+    <article className="prose prose-invert prose-base max-w-none leading-relaxed">
+      <ReactMarkdown remarkPlugins={linkedRemarkPlugins} rehypePlugins={rehypePlugins} urlTransform={urlTransform} components={markdownComponents}>
+        {draft.content || '*Nothing here yet.*'}
+      </ReactMarkdown>
+    </article>
+  );
+
   return (
-    <div className="flex-1 flex flex-col h-full bg-[var(--color-bg)] overflow-y-auto scroll-container">
-      <div className="max-w-4xl mx-auto px-4 sm:px-6 py-6 sm:py-8 w-full">
-        <div className="mb-6 sm:mb-8 pb-4 sm:pb-6 border-b border-[var(--color-border)]">
-          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-[var(--color-text-primary)] mb-2 sm:mb-3 leading-tight">
-            {note.title}
-          </h1>
-          <div className="flex flex-wrap items-center gap-4 text-sm text-[var(--color-text-secondary)]">
-            <span>
-              Saved on: {formatDate(note.createdAt)}
-            </span>
-            {note.sourceConversationId && (
-              <span className="px-2 py-1 bg-[var(--color-card)] rounded-full text-xs">
-                From Chat
-              </span>
+    <div className="flex-1 flex h-full min-w-0 bg-[var(--color-bg)]">
+      <div className={`flex-1 flex flex-col min-w-0 ${isHistoryOpen ? 'hidden lg:flex' : ''}`}>
+        <div className="px-4 sm:px-6 pt-4 sm:pt-6 pb-3 border-b border-[var(--color-border)]">
+          <input
+            type="text"
+            value={draft.title}
+            onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+            placeholder="Untitled note"
+            className="w-full bg-transparent text-2xl sm:text-3xl font-bold text-[var(--color-text-primary)] placeholder:text-[var(--color-text-placeholder)] focus:outline-none"
+          />
+          <div className="mt-2 flex flex-wrap items-center gap-3 text-sm text-[var(--color-text-secondary)]">
+            <span>Created {formatDate(note.createdAt)}</span>
+            <span>{isDirty ? 'Saving…' : `Edited ${formatDate(note.updatedAt)}`}</span>
+            {sourceConversationId && (
+              onOpenConversation ? (
+                <button
+                  onClick={() => onOpenConversation(sourceConversationId)}
+                  className="flex items-center gap-1 px-2 py-1 bg-[var(--color-card)] hover:bg-[var(--color-border)] rounded-full text-xs transition-colors"
+                >
+                  <MessageSquare className="w-3 h-3" /> From Chat
+                </button>
+              ) : (
+                <span className="px-2 py-1 bg-[var(--color-card)] rounded-full text-xs">From Chat</span>
+              )
             )}
+            <div className="ml-auto flex items-center gap-1">
+              {editorModes.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setMode(option.id)}
+                  className={`p-1.5 rounded-lg transition-colors ${mode === option.id ? 'bg-[var(--color-card)] text-[var(--color-text-primary)]' : 'hover:bg-[var(--color-card)]'} ${option.id === 'split' ? 'hidden md:block' : ''}`}
+                  title={option.label}
+                >
+                  <option.icon className="w-4 h-4" />
+                </button>
+              ))}
+              {onCreateReviewCards && (
+                <button
+                  onClick={() => onCreateReviewCards(note.id, draft.content)}
+                  className="p-1.5 rounded-lg transition-colors hover:bg-[var(--color-card)]"
+                  title="Make review cards from 'question :: answer' and Q:/A: lines"
+                >
+                  <GraduationCap className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                className={`p-1.5 rounded-lg transition-colors ${isHistoryOpen ? 'bg-[var(--color-card)] text-[var(--color-text-primary)]' : 'hover:bg-[var(--color-card)]'}`}
+                title="Version history"
+              >
+                <History className="w-4 h-4" />
+              </button>
+            </div>
           </div>
         </div>
 
-        <article className="prose prose-invert prose-base sm:prose-lg max-w-none leading-relaxed">
-          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
-            {note.content}
-          </ReactMarkdown>
-        </article>
+        <div className={`flex-1 min-h-0 grid ${mode === 'split' ? 'grid-cols-1 md:grid-cols-2' : 'grid-cols-1'}`}>
+          {mode !== 'preview' && (
+            <div className={`relative h-full min-h-0 ${mode === 'split' ? 'md:border-r border-[var(--color-border)]' : ''}`}>
+              <textarea
+                ref={textareaRef}
+                value={draft.content}
+                onChange={(e) => { setContent(e.target.value); autocomplete.refresh(); }}
+                onSelect={autocomplete.refresh}
+                onKeyDown={(e) => { autocomplete.handleKeyDown(e); }}
+                onBlur={autocomplete.close}
+                placeholder="Write in Markdown. Math goes in $...$ or $$...$$. Link notes with [[Title]] or chats with [[chat:Title]]."
+                spellCheck
+                className="h-full w-full resize-none bg-transparent p-4 sm:p-6 font-mono text-sm leading-relaxed text-[var(--color-text-primary)] placeholder:text-[var(--color-text-placeholder)] focus:outline-none"
+              />
+              <WikiLinkSuggestions
+                suggestions={autocomplete.suggestions}
+                activeIndex={autocomplete.activeIndex}
+                onSelect={autocomplete.select}
+                className="left-4 sm:left-6 bottom-4"
+              />
+            </div>
+          )}
+          {mode !== 'edit' && (
+            <div className={`h-full overflow-y-auto scroll-container p-4 sm:p-6 ${mode === 'split' ? 'hidden md:block' : ''}`}>
+              {preview}
+            </div>
+          )}
+        </div>
+
+        {backlinks.length > 0 && (
+          <div className="px-4 sm:px-6 py-3 border-t border-[var(--color-border)]">
+            <h3 className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide text-[var(--color-text-secondary)] mb-2">
+              <Link2 className="w-3.5 h-3.5" /> Linked from
+            </h3>
+            <div className="flex flex-wrap gap-2 max-h-24 overflow-y-auto">
+              {backlinks.map(backlink => {
+                const Icon = backlinkIcons[backlink.target.type];
+                return (
+                  <button
+                    key={backlink.key}
+                    onClick={() => onOpenBacklink(backlink.target)}
+                    className="flex items-center gap-1.5 max-w-xs px-2.5 py-1 bg-[var(--color-card)] hover:bg-[var(--color-border)] rounded-full text-xs transition-colors"
+                    title={backlink.count > 1 ? `${backlink.count} links` : '1 link'}
+                  >
+                    <Icon className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate">{backlink.title || 'Untitled'}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
       </div>
+
+      {isHistoryOpen && (
+        <NoteHistoryPanel
+          revisions={note.revisions ?? []}
+          current={draft}
+          onRestore={handleRestore}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
     </div>
   );
 }
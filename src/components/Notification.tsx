@@ -2,13 +2,20 @@
 import React, { useEffect } from 'react';
 import { CheckCircle, XCircle, X } from 'lucide-react';
 
+// A button shown next to the message, e.g. "Undo"
+export interface NotificationAction {
+  label: string;
+  onClick: () => void;
+}
+
 interface NotificationProps {
   message: string;
   type: 'success' | 'error';
+  action?: NotificationAction;
   onClose: () => void;
 }
 
-export function Notification({ message, type, onClose }: NotificationProps) {
+export function Notification({ message, type, action, onClose }: NotificationProps) {
   useEffect(() => {
     const timer = setTimeout(() => {
       onClose();
@@ -36,6 +43,17 @@ export function Notification({ message, type, onClose }: NotificationProps) {
         <p className="text-sm font-medium text-[var(--color-text-primary)] flex-1 break-words line-clamp-2">
           {message}
         </p>
+        {action && (
+          <button
+            onClick={() => {
+              action.onClick();
+              onClose();
+            }}
+            className="flex-shrink-0 px-2 py-0.5 text-sm font-semibold text-[var(--color-text-primary)] hover:bg-[var(--color-border)]/50 rounded transition-colors"
+          >
+            {action.label}
+          </button>
+        )}
         <button
           onClick={onClose}
           className="flex-shrink-0 ml-1 hover:bg-[var(--color-border)]/50 rounded p-0.5 transition-colors"
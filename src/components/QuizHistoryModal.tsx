@@ -0,0 +1,172 @@
+// src/components/QuizHistoryModal.tsx
+import { useMemo, useState } from 'react';
+import { CheckCircle, ChevronDown, ChevronRight, MinusCircle, RotateCcw, X, XCircle } from 'lucide-react';
+import { StudySession } from '../types';
+import {
+  countMissed,
+  formatDuration,
+  formatScore,
+  getQuestionCredit,
+  getQuizTrend,
+  getScorePercent,
+  getSessionDurationMs,
+  QuizTrendPoint,
+  summarizeQuizHistory,
+} from '../utils/quizHistory';
+import { getCorrectAnswerText, getUserAnswerText, questionTypeLabels } from '../utils/quizQuestions';
+
+interface QuizHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Completed sessions of the current conversation, oldest first
+  sessions: StudySession[];
+  onRetake: (session: StudySession) => void;
+}
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = 12;
+
+// Score per quiz in the order taken; retakes are drawn as hollow points
+function ScoreTrendChart({ points }: { points: QuizTrendPoint[] }) {
+  const x = (index: number) => CHART_PADDING + (index / Math.max(points.length - 1, 1)) * (CHART_WIDTH - 2 * CHART_PADDING);
+  const y = (percent: number) => CHART_HEIGHT - CHART_PADDING - (percent / 100) * (CHART_HEIGHT - 2 * CHART_PADDING);
+  const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${x(index)},${y(point.percent)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-28" role="img" aria-label="Score trend">
+      {[0, 50, 100].map(percent => (
+        <g key={percent}>
+          <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(percent)} y2={y(percent)} stroke="var(--color-border)" strokeDasharray="4 4" />
+          <text x={0} y={y(percent) + 3} fontSize="9" fill="var(--color-text-secondary)">{percent}</text>
+        </g>
+      ))}
+      <path d={path} fill="none" stroke="var(--color-accent-bg)" strokeWidth="2" />
+      {points.map((point, index) => (
+        <circle key={point.sessionId} cx={x(index)} cy={y(point.percent)} r="4" fill={point.isRetake ? '#0a0a0a' : 'var(--color-accent-bg)'} stroke="var(--color-accent-bg)" strokeWidth="2">
+          <title>{`${point.completedAt.toLocaleString()}: ${point.percent}%${point.isRetake ? ' (retake)' : ''}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+export function QuizHistoryModal({ isOpen, onClose, sessions, onRetake }: QuizHistoryModalProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const summary = useMemo(() => summarizeQuizHistory(sessions), [sessions]);
+  const trend = useMemo(() => getQuizTrend(sessions), [sessions]);
+  const newestFirst = useMemo(() => [...sessions].reverse(), [sessions]);
+
+  if (!isOpen) return null;
+
+  const stats = summary ? [
+    { label: 'Quizzes', value: String(summary.sessions) },
+    { label: 'Average', value: `${summary.average}%` },
+    { label: 'Best', value: `${summary.best}%` },
+    { label: 'Latest', value: `${summary.latest}%` },
+    { label: 'Per question', value: formatDuration(summary.averageTimeMs) },
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4 bg-black/70 backdrop-blur-sm animate-fadeIn">
+      <div
+        className="relative w-full max-w-2xl bg-[#0a0a0a] border border-[var(--color-border)] rounded-2xl shadow-2xl flex flex-col animate-fade-in-up overflow-hidden max-h-[90vh] max-h-[90dvh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="quiz-history-title"
+      >
+        <div className="p-4 sm:p-5 flex items-center justify-between border-b border-[var(--color-border)]">
+          <h2 id="quiz-history-title" className="text-lg font-bold">
+            Quiz History
+          </h2>
+          <button onClick={onClose} className="interactive-button w-8 h-8 flex items-center justify-center rounded-full hover:bg-[var(--color-card)] transition-colors" aria-label="Close quiz history">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 overflow-y-auto space-y-6">
+          {sessions.length === 0 ? (
+            <p className="text-center text-sm text-[var(--color-text-secondary)] py-8">No quizzes finished in this chat yet.</p>
+          ) : <>
+            {stats.length > 0 && (
+              <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                {stats.map(stat => (
+                  <div key={stat.label} className="bg-[var(--color-card)] rounded-lg p-3 text-center">
+                    <div className="text-lg font-bold">{stat.value}</div>
+                    <div className="text-xs text-[var(--color-text-secondary)]">{stat.label}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {trend.length > 1 && (
+              <div>
+                <p className="text-xs font-semibold text-[var(--color-text-secondary)] uppercase tracking-wider mb-2">Score trend</p>
+                <ScoreTrendChart points={trend} />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {newestFirst.map(session => {
+                const isExpanded = expandedId === session.id;
+                const wrongCount = countMissed(session);
+                return (
+                  <div key={session.id} className="border border-[var(--color-border)] rounded-lg">
+                    <div className="flex items-center gap-3 p-3">
+                      <button onClick={() => setExpandedId(isExpanded ? null : session.id)} className="flex-1 min-w-0 flex items-center gap-2 text-left" aria-expanded={isExpanded}>
+                        {isExpanded ? <ChevronDown className="w-4 h-4 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 flex-shrink-0" />}
+                        <div className="min-w-0">
+                          <div className="text-sm font-semibold">
+                            {formatScore(session.score)} / {session.totalQuestions} <span className="text-[var(--color-text-secondary)]">· {getScorePercent(session)}%</span>
+                            {session.retakeOf && <span className="ml-2 px-1.5 py-0.5 rounded bg-[var(--color-card)] text-xs text-[var(--color-text-secondary)]">Retake</span>}
+                          </div>
+                          <div className="text-xs text-[var(--color-text-secondary)]">
+                            {(session.completedAt ?? session.createdAt).toLocaleString()} · {formatDuration(getSessionDurationMs(session))}
+                          </div>
+                        </div>
+                      </button>
+                      {wrongCount > 0 && (
+                        <button onClick={() => onRetake(session)} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-semibold bg-[var(--color-card)] hover:bg-[var(--color-border)] transition-colors" title="Retake the questions answered wrongly">
+                          <RotateCcw className="w-3.5 h-3.5" />
+                          Retake {wrongCount} missed
+                        </button>
+                      )}
+                    </div>
+
+                    {isExpanded && (
+                      <ol className="border-t border-[var(--color-border)] p-3 space-y-3">
+                        {session.questions.map((question, index) => {
+                          const credit = getQuestionCredit(question);
+                          return (
+                            <li key={question.id} className="text-sm">
+                              <div className="flex items-start gap-2">
+                                {question.isCorrect ? <CheckCircle className="w-4 h-4 text-green-400 flex-shrink-0 mt-0.5" /> : credit > 0 ? <MinusCircle className="w-4 h-4 text-yellow-400 flex-shrink-0 mt-0.5" /> : <XCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />}
+                                <div className="min-w-0 flex-1 space-y-0.5">
+                                  <p className="font-medium">{index + 1}. {question.question}</p>
+                                  <p className="text-xs text-[var(--color-text-secondary)]">
+                                    {questionTypeLabels[question.type]}
+                                    {!question.isCorrect && credit > 0 && ` · ${Math.round(credit * 100)}% credit`}
+                                    {question.timeMs !== undefined && ` · ${formatDuration(question.timeMs)}`}
+                                  </p>
+                                  {!question.isCorrect && question.userAnswer !== undefined && (
+                                    <p className="text-red-300 whitespace-pre-wrap">Your answer: {getUserAnswerText(question) || '(blank)'}</p>
+                                  )}
+                                  <p className="text-green-300 whitespace-pre-wrap">{question.type === 'short-answer' ? 'Sample answer' : 'Answer'}: {getCorrectAnswerText(question)}</p>
+                                  {question.feedback && <p className="text-[var(--color-text-secondary)] whitespace-pre-wrap">{question.feedback}</p>}
+                                </div>
+                              </div>
+                            </li>
+                          );
+                        })}
+                      </ol>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,26 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { X, CheckCircle, XCircle, Lightbulb } from 'lucide-react';
-import { StudySession } from '../types';
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { X, CheckCircle, XCircle, Lightbulb, RotateCcw, MinusCircle, CheckSquare, Square, ArrowUp, ArrowDown, Loader2 } from 'lucide-react';
+import { QuizAnswer, QuizQuestion, StudySession } from '../types';
+import { answerQuestion, completeSession, countMissed, formatDuration, formatScore, getQuestionCredit, getScorePercent, getSessionDurationMs } from '../utils/quizHistory';
+import { getCorrectAnswerText, isSingleChoice, questionTypeLabels } from '../utils/quizQuestions';
 
 interface QuizModalProps {
   isOpen: boolean;
   onClose: () => void;
   session: StudySession | null;
+  // Called once, with the answers, when the last question is answered
+  onComplete: (session: StudySession) => void;
+  onRetake: (session: StudySession) => void;
+  // Marks a short answer against the question's rubric
+  onGradeShortAnswer: (question: QuizQuestion, answer: string, signal: AbortSignal) => Promise<Pick<QuizQuestion, 'awardedPoints' | 'feedback'>>;
+}
+
+// What the answer controls start from: nothing picked, the items as shown, no text
+function getInitialDraft(question: QuizQuestion | undefined): QuizAnswer {
+  if (!question) return '';
+  if (question.type === 'multi-select') return [];
+  if (question.type === 'ordering') return question.options.map((_, index) => index);
+  return '';
 }
 
 const Confetti = () => (
@@ -14,56 +29,108 @@ const Confetti = () => (
   </div>
 );
 
-export function QuizModal({ isOpen, onClose, session }: QuizModalProps) {
+export function QuizModal({ isOpen, onClose, session, onComplete, onRetake, onGradeShortAnswer }: QuizModalProps) {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
-  const [userAnswers, setUserAnswers] = useState<Record<string, string>>({});
-  const [showFeedback, setShowFeedback] = useState(false);
-  const [quizCompleted, setQuizCompleted] = useState(false);
+  // The session's questions with the answers given so far
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [completedSession, setCompletedSession] = useState<StudySession | null>(null);
   const [completionAnimation, setCompletionAnimation] = useState('');
-  const currentQuestion = session?.questions[currentQuestionIndex];
+  // The answer being put together for questions that are checked with a button
+  const [draft, setDraft] = useState<QuizAnswer>('');
+  const [isGrading, setIsGrading] = useState(false);
+  const [gradingError, setGradingError] = useState<string | null>(null);
+  const gradingAbortRef = useRef<AbortController | null>(null);
+  // When the current question was shown, for per-question timing
+  const shownAtRef = useRef(Date.now());
+  const currentQuestion = questions[currentQuestionIndex];
+  const showFeedback = currentQuestion?.userAnswer !== undefined;
+  const quizCompleted = completedSession !== null;
 
   // Reset state when a new session is passed or the modal is closed
   useEffect(() => {
+    gradingAbortRef.current?.abort();
     if (isOpen) {
       setCurrentQuestionIndex(0);
-      setSelectedAnswer(null);
-      setUserAnswers({});
-      setShowFeedback(false);
-      setQuizCompleted(false);
+      setQuestions(session?.questions ?? []);
+      setCompletedSession(null);
       setCompletionAnimation('');
+      setDraft(getInitialDraft(session?.questions[0]));
+      setIsGrading(false);
+      setGradingError(null);
+      shownAtRef.current = Date.now();
     }
   }, [isOpen, session]);
 
-  const handleAnswerSelect = (option: string) => {
-    if (showFeedback) return;
-    setSelectedAnswer(option);
-    setUserAnswers(prev => ({ ...prev, [currentQuestion!.id]: option }));
-    setShowFeedback(true);
+  useEffect(() => () => gradingAbortRef.current?.abort(), []);
+
+  const saveAnswer = (answered: QuizQuestion) => {
+    setQuestions(prev => prev.map(question => (question.id === answered.id ? answered : question)));
+  };
+
+  const handleAnswerSelect = (index: number) => {
+    if (!currentQuestion || showFeedback) return;
+    saveAnswer(answerQuestion(currentQuestion, index, Date.now() - shownAtRef.current));
+  };
+
+  // Short answers wait for the model's marks; the time taken stops at submitting
+  const handleCheckAnswer = async () => {
+    if (!currentQuestion || showFeedback || isGrading) return;
+    const timeMs = Date.now() - shownAtRef.current;
+    if (currentQuestion.type !== 'short-answer') {
+      saveAnswer(answerQuestion(currentQuestion, draft, timeMs));
+      return;
+    }
+    const answer = typeof draft === 'string' ? draft : '';
+    const controller = new AbortController();
+    gradingAbortRef.current = controller;
+    setIsGrading(true);
+    setGradingError(null);
+    try {
+      const grade = await onGradeShortAnswer(currentQuestion, answer, controller.signal);
+      if (!controller.signal.aborted) saveAnswer(answerQuestion(currentQuestion, answer, timeMs, grade));
+    } catch (error) {
+      if (!controller.signal.aborted) setGradingError(error instanceof Error ? error.message : 'Failed to grade the answer');
+    } finally {
+      if (gradingAbortRef.current === controller) {
+        gradingAbortRef.current = null;
+        setIsGrading(false);
+      }
+    }
+  };
+
+  const togglePick = (index: number) => {
+    setDraft(prev => {
+      const picked = Array.isArray(prev) ? prev : [];
+      return picked.includes(index) ? picked.filter(i => i !== index) : [...picked, index];
+    });
+  };
+
+  const moveItem = (position: number, offset: number) => {
+    setDraft(prev => {
+      const order = Array.isArray(prev) ? [...prev] : [];
+      const target = position + offset;
+      if (target < 0 || target >= order.length) return prev;
+      [order[position], order[target]] = [order[target], order[position]];
+      return order;
+    });
   };
 
   const handleNextQuestion = () => {
-    if (session && currentQuestionIndex < session.questions.length - 1) {
+    if (!session) return;
+    if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
-      setSelectedAnswer(null);
-      setShowFeedback(false);
+      setDraft(getInitialDraft(questions[currentQuestionIndex + 1]));
+      setGradingError(null);
+      shownAtRef.current = Date.now();
     } else {
-      setQuizCompleted(true);
+      const completed = completeSession(session, questions);
+      setCompletedSession(completed);
+      onComplete(completed);
     }
   };
 
-  const score = useMemo(() => {
-    if (!session) return 0;
-    return session.questions.reduce((acc, question) => {
-      const correctAnswer = question.options[question.correctAnswer];
-      return userAnswers[question.id] === correctAnswer ? acc + 1 : acc;
-    }, 0);
-  }, [quizCompleted, session, userAnswers]);
-
-  const scorePercentage = useMemo(() => {
-    if (!session || session.questions.length === 0) return 0;
-    return Math.round((score / session.questions.length) * 100);
-  }, [score, session]);
+  const score = completedSession?.score ?? 0;
+  const scorePercentage = completedSession ? getScorePercent(completedSession) : 0;
 
   // Set animation class when quiz is completed
   useEffect(() => {
@@ -87,7 +154,195 @@ export function QuizModal({ isOpen, onClose, session }: QuizModalProps) {
 
   if (!isOpen || !session) return null;
 
-  const progress = ((currentQuestionIndex + 1) / session.questions.length) * 100;
+  const progress = questions.length > 0 ? ((currentQuestionIndex + 1) / questions.length) * 100 : 0;
+  const wrongCount = completedSession ? countMissed(completedSession) : 0;
+  const canCheck = typeof draft === 'string' ? draft.trim() !== '' : Array.isArray(draft) && draft.length > 0;
+
+  const renderChoices = (question: QuizQuestion) => (
+    <div className="space-y-3">
+      {question.options.map((option, index) => {
+        const isSelected = question.userAnswer === index;
+        const isCorrectAnswer = question.correctAnswer === index;
+        let buttonClass = 'bg-[var(--color-card)] border-transparent hover:bg-[var(--color-border)]';
+
+        if (showFeedback) {
+          if (isCorrectAnswer) {
+            buttonClass = 'bg-green-900/50 border-green-500/60 text-green-300';
+          } else if (isSelected && !isCorrectAnswer) {
+            buttonClass = 'bg-red-900/50 border-red-500/60 text-red-300';
+          } else {
+            buttonClass = 'bg-[var(--color-card)] border-transparent opacity-60';
+          }
+        }
+        return (
+          <button
+            key={index}
+            onClick={() => handleAnswerSelect(index)}
+            disabled={showFeedback}
+            className={`w-full text-left p-4 border rounded-lg transition-all duration-200 text-base font-semibold flex items-center justify-between disabled:cursor-not-allowed group ${buttonClass}`}
+          >
+            <div className="flex items-center gap-4">
+              <div className={`flex-shrink-0 w-6 h-6 rounded-md flex items-center justify-center text-sm font-bold ${showFeedback && isCorrectAnswer ? 'bg-green-500/80 text-white' : 'bg-[var(--color-border)] group-hover:bg-white/10'}`}>
+                {String.fromCharCode(65 + index)}
+              </div>
+              <span>{option}</span>
+            </div>
+            {showFeedback && isCorrectAnswer && <CheckCircle className="w-5 h-5 text-green-400" />}
+            {showFeedback && isSelected && !isCorrectAnswer && <XCircle className="w-5 h-5 text-red-400" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  // Right options are green once checked; ones left unpicked only get a green border
+  const renderMultiSelect = (question: QuizQuestion) => {
+    const picked = showFeedback ? question.userAnswer : draft;
+    return (
+      <div className="space-y-3">
+        {question.options.map((option, index) => {
+          const isPicked = Array.isArray(picked) && picked.includes(index);
+          const isRight = (question.correctAnswers ?? []).includes(index);
+          let buttonClass = isPicked
+            ? 'bg-[var(--color-border)] border-[var(--color-text-secondary)]'
+            : 'bg-[var(--color-card)] border-transparent hover:bg-[var(--color-border)]';
+          if (showFeedback) {
+            if (isRight) buttonClass = isPicked ? 'bg-green-900/50 border-green-500/60 text-green-300' : 'bg-[var(--color-card)] border-green-500/60 text-green-300';
+            else buttonClass = isPicked ? 'bg-red-900/50 border-red-500/60 text-red-300' : 'bg-[var(--color-card)] border-transparent opacity-60';
+          }
+          return (
+            <button
+              key={index}
+              onClick={() => togglePick(index)}
+              disabled={showFeedback}
+              className={`w-full text-left p-4 border rounded-lg transition-all duration-200 text-base font-semibold flex items-center justify-between disabled:cursor-not-allowed ${buttonClass}`}
+              aria-pressed={isPicked}
+            >
+              <div className="flex items-center gap-4">
+                {isPicked ? <CheckSquare className="w-5 h-5 flex-shrink-0" /> : <Square className="w-5 h-5 flex-shrink-0" />}
+                <span>{option}</span>
+              </div>
+              {showFeedback && isRight && <CheckCircle className="w-5 h-5 text-green-400" />}
+              {showFeedback && isPicked && !isRight && <XCircle className="w-5 h-5 text-red-400" />}
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderOrdering = (question: QuizQuestion) => {
+    const order = showFeedback ? question.userAnswer : draft;
+    if (!Array.isArray(order)) return null;
+    return (
+      <ol className="space-y-2">
+        {order.map((optionIndex, position) => {
+          const isInPlace = question.correctAnswers?.[position] === optionIndex;
+          const itemClass = !showFeedback
+            ? 'bg-[var(--color-card)] border-transparent'
+            : isInPlace ? 'bg-green-900/50 border-green-500/60 text-green-300' : 'bg-red-900/50 border-red-500/60 text-red-300';
+          return (
+            <li key={optionIndex} className={`p-3 border rounded-lg flex items-center gap-3 text-base font-semibold ${itemClass}`}>
+              <div className="flex-shrink-0 w-6 h-6 rounded-md flex items-center justify-center text-sm font-bold bg-[var(--color-border)]">
+                {position + 1}
+              </div>
+              <span className="flex-1">{question.options[optionIndex]}</span>
+              {!showFeedback && (
+                <div className="flex gap-1">
+                  <button onClick={() => moveItem(position, -1)} disabled={position === 0} className="interactive-button w-7 h-7 flex items-center justify-center rounded-md hover:bg-[var(--color-border)] disabled:opacity-30" aria-label="Move up">
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => moveItem(position, 1)} disabled={position === order.length - 1} className="interactive-button w-7 h-7 flex items-center justify-center rounded-md hover:bg-[var(--color-border)] disabled:opacity-30" aria-label="Move down">
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+              {showFeedback && (isInPlace ? <CheckCircle className="w-5 h-5 text-green-400" /> : <XCircle className="w-5 h-5 text-red-400" />)}
+            </li>
+          );
+        })}
+      </ol>
+    );
+  };
+
+  // Fill-blank and short-answer; Enter checks a blank, a short answer takes several lines
+  const renderTextAnswer = (question: QuizQuestion) => {
+    const value = showFeedback ? String(question.userAnswer ?? '') : typeof draft === 'string' ? draft : '';
+    const inputClass = 'w-full p-4 rounded-lg bg-[var(--color-card)] border border-[var(--color-border)] text-base focus:outline-none focus:border-[var(--color-accent-bg)] disabled:opacity-80';
+    return question.type === 'fill-blank' ? (
+      <input
+        type="text"
+        value={value}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={e => { if (e.key === 'Enter' && canCheck) handleCheckAnswer(); }}
+        disabled={showFeedback}
+        placeholder="Type the missing word or phrase"
+        className={inputClass}
+        autoFocus
+      />
+    ) : (
+      <textarea
+        value={value}
+        onChange={e => setDraft(e.target.value)}
+        disabled={showFeedback || isGrading}
+        placeholder="Explain in your own words"
+        rows={5}
+        className={`${inputClass} resize-y`}
+        autoFocus
+      />
+    );
+  };
+
+  const renderAnswerControls = (question: QuizQuestion) => {
+    switch (question.type) {
+      case 'multiple-choice':
+      case 'true-false':
+        return renderChoices(question);
+      case 'multi-select':
+        return renderMultiSelect(question);
+      case 'ordering':
+        return renderOrdering(question);
+      case 'fill-blank':
+      case 'short-answer':
+        return renderTextAnswer(question);
+    }
+  };
+
+  // How the checked answer scored, for the types that aren't marked on the options alone
+  const renderResult = (question: QuizQuestion) => {
+    const credit = getQuestionCredit(question);
+    const [Icon, label, className] = question.isCorrect
+      ? [CheckCircle, 'Correct', 'text-green-400']
+      : credit > 0
+        ? [MinusCircle, `Partial credit: ${Math.round(credit * 100)}%`, 'text-yellow-400']
+        : [XCircle, 'Not quite', 'text-red-400'];
+    return (
+      <div className="mt-6 space-y-3 animate-fade-in-up">
+        <p className={`flex items-center gap-2 font-semibold ${className}`}>
+          <Icon className="w-5 h-5" /> {label}
+        </p>
+        {question.type === 'short-answer' && question.rubric && (
+          <ul className="text-sm space-y-1">
+            {question.rubric.map((criterion, index) => (
+              <li key={index} className="flex items-start justify-between gap-3">
+                <span className="text-[var(--color-text-secondary)]">{criterion.criterion}</span>
+                <span className="font-semibold flex-shrink-0">{question.awardedPoints?.[index] ?? 0} / {criterion.points}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {question.feedback && <p className="text-sm whitespace-pre-wrap">{question.feedback}</p>}
+        {!question.isCorrect && (
+          <div className="p-3 rounded-lg bg-[var(--color-card)] text-sm">
+            <p className="text-xs font-semibold uppercase tracking-wider text-[var(--color-text-secondary)] mb-1">
+              {question.type === 'short-answer' ? 'Sample answer' : question.type === 'fill-blank' ? 'Accepted answers' : 'Answer'}
+            </p>
+            <p className="text-green-300 whitespace-pre-wrap">{getCorrectAnswerText(question)}</p>
+          </div>
+        )}
+      </div>
+    );
+  };
 
   const renderQuizContent = () => {
     if (!currentQuestion) return null;
@@ -95,47 +350,20 @@ export function QuizModal({ isOpen, onClose, session }: QuizModalProps) {
       <div className="animate-fadeIn">
         <p className="mb-4 text-center">
           <span className="bg-[var(--color-card)] px-3 py-1 rounded-full text-sm font-semibold text-[var(--color-text-secondary)]">
-            Question {currentQuestionIndex + 1} / {session.questions.length}
+            Question {currentQuestionIndex + 1} / {questions.length} · {questionTypeLabels[currentQuestion.type]}
           </span>
         </p>
         <h3 className="text-xl md:text-2xl font-bold text-center text-[var(--color-text-primary)] mb-8 leading-tight">
           {currentQuestion.question}
         </h3>
 
-        <div className="space-y-3">
-          {currentQuestion.options?.map((option, index) => {
-            const isSelected = selectedAnswer === option;
-            const isCorrectAnswer = currentQuestion.correctAnswer === index;
-            let buttonClass = 'bg-[var(--color-card)] border-transparent hover:bg-[var(--color-border)]';
-
-            if (showFeedback) {
-              if (isCorrectAnswer) {
-                buttonClass = 'bg-green-900/50 border-green-500/60 text-green-300';
-              } else if (isSelected && !isCorrectAnswer) {
-                buttonClass = 'bg-red-900/50 border-red-500/60 text-red-300';
-              } else {
-                buttonClass = 'bg-[var(--color-card)] border-transparent opacity-60';
-              }
-            }
-            return (
-              <button
-                key={option}
-                onClick={() => handleAnswerSelect(option)}
-                disabled={showFeedback}
-                className={`w-full text-left p-4 border rounded-lg transition-all duration-200 text-base font-semibold flex items-center justify-between disabled:cursor-not-allowed group ${buttonClass}`}
-              >
-                <div className="flex items-center gap-4">
-                  <div className={`flex-shrink-0 w-6 h-6 rounded-md flex items-center justify-center text-sm font-bold ${showFeedback && isCorrectAnswer ? 'bg-green-500/80 text-white' : 'bg-[var(--color-border)] group-hover:bg-white/10'}`}>
-                    {String.fromCharCode(65 + index)}
-                  </div>
-                  <span>{option}</span>
-                </div>
-                {showFeedback && isCorrectAnswer && <CheckCircle className="w-5 h-5 text-green-400" />}
-                {showFeedback && isSelected && !isCorrectAnswer && <XCircle className="w-5 h-5 text-red-400" />}
-              </button>
-            );
-          })}
-        </div>
+        {renderAnswerControls(currentQuestion)}
+
+        {gradingError && !showFeedback && (
+          <p className="mt-4 text-sm text-red-400">{gradingError}</p>
+        )}
+
+        {showFeedback && !isSingleChoice(currentQuestion) && renderResult(currentQuestion)}
 
         {showFeedback && currentQuestion.explanation && (
           <div className="mt-8 p-4 rounded-lg bg-[var(--color-bg)] animate-fade-in-up border border-[var(--color-border)] flex items-start gap-3">
@@ -156,9 +384,12 @@ export function QuizModal({ isOpen, onClose, session }: QuizModalProps) {
       </h3>
       <p className="text-base text-[var(--color-text-secondary)] mb-6">{getScoreFeedback}</p>
       <p className={`text-5xl sm:text-6xl font-bold text-[var(--color-accent-bg)] mb-2 ${scorePercentage === 100 ? 'animate-glowing-text' : ''}`}>
-        {score} <span className="text-2xl sm:text-3xl text-[var(--color-text-secondary)]">/ {session.questions.length}</span>
+        {formatScore(score)} <span className="text-2xl sm:text-3xl text-[var(--color-text-secondary)]">/ {questions.length}</span>
       </p>
       <p className="font-semibold text-lg">{scorePercentage}%</p>
+      {completedSession && (
+        <p className="text-sm text-[var(--color-text-secondary)] mt-2">Finished in {formatDuration(getSessionDurationMs(completedSession))}</p>
+      )}
     </div>
   );
 
@@ -181,7 +412,7 @@ export function QuizModal({ isOpen, onClose, session }: QuizModalProps) {
         {/* Header */}
         <div className="p-4 sm:p-5 flex items-center justify-between border-b border-[var(--color-border)]">
           <h2 id="quiz-title" className="text-lg font-bold">
-            Study Quiz
+            {session.retakeOf ? 'Retake: missed questions' : 'Study Quiz'}
           </h2>
           <button onClick={onClose} className="interactive-button w-8 h-8 flex items-center justify-center rounded-full hover:bg-[var(--color-card)] transition-colors" aria-label="Close quiz">
             <X className="w-5 h-5" />
@@ -194,11 +425,26 @@ export function QuizModal({ isOpen, onClose, session }: QuizModalProps) {
         </div>
 
         {/* Footer */}
-        <div className="flex justify-end p-4 border-t border-[var(--color-border)] bg-[var(--color-bg)]/50 mt-auto">
+        <div className="flex flex-col-reverse sm:flex-row justify-end gap-2 p-4 border-t border-[var(--color-border)] bg-[var(--color-bg)]/50 mt-auto">
+          {completedSession && wrongCount > 0 && (
+            <button onClick={() => onRetake(completedSession)} className="w-full sm:w-auto interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-card)] hover:bg-[var(--color-border)] flex items-center justify-center gap-2">
+              <RotateCcw className="w-4 h-4" />
+              Retake {wrongCount} missed
+            </button>
+          )}
           {quizCompleted ? (
             <button onClick={onClose} className="w-full sm:w-auto interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)]">
               Finish
             </button>
+          ) : currentQuestion && !showFeedback && !isSingleChoice(currentQuestion) ? (
+            <button
+              onClick={handleCheckAnswer}
+              disabled={!canCheck || isGrading}
+              className="w-full sm:w-auto interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {isGrading && <Loader2 className="w-4 h-4 animate-spin" />}
+              {currentQuestion.type === 'short-answer' ? (isGrading ? 'Grading...' : 'Submit for grading') : 'Check answer'}
+            </button>
           ) : (
             <button
               onClick={handleNextQuestion}
@@ -0,0 +1,154 @@
+// src/components/RemoteSyncSection.tsx
+import { useState } from 'react';
+import { Cloud, CloudOff, Loader2, Lock, RefreshCw, Unlock } from 'lucide-react';
+import { SyncConfig, SyncStatus } from '../services/remoteSync';
+
+interface RemoteSyncSectionProps {
+  status: SyncStatus;
+  config: SyncConfig | null;
+  lastSyncedAt: Date | null;
+  isSyncing: boolean;
+  onConnect: (config: SyncConfig, passphrase: string) => Promise<void>;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onSyncNow: () => void;
+  onDisconnect: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClass = 'w-full px-3 py-2 border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-colors text-sm';
+const buttonClass = 'flex items-center justify-center gap-2 px-3 py-2 border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors text-sm disabled:opacity-50';
+
+export function RemoteSyncSection({
+  status,
+  config,
+  lastSyncedAt,
+  isSyncing,
+  onConnect,
+  onUnlock,
+  onSyncNow,
+  onDisconnect,
+}: RemoteSyncSectionProps) {
+  const [serverUrl, setServerUrl] = useState(config?.serverUrl ?? 'http://localhost:8787');
+  const [token, setToken] = useState(config?.token ?? '');
+  const [encrypted, setEncrypted] = useState(config?.encrypted ?? true);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Connecting derives a key and round-trips to the server; show progress meanwhile
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError('');
+    try {
+      await action();
+      setPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleConnect = () => {
+    if (!serverUrl.trim()) {
+      setError('Enter the sync server URL');
+      return;
+    }
+    if (encrypted && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    run(() => onConnect({ serverUrl: serverUrl.trim(), token: token.trim(), encrypted }, passphrase));
+  };
+
+  const handleDisconnect = () => {
+    if (window.confirm('Stop syncing this device? Local data is kept; the server copy is not deleted.')) {
+      onDisconnect();
+    }
+  };
+
+  return (
+    <div className="p-4 border border-[var(--color-border)] rounded-lg space-y-3">
+      <div className="flex items-center gap-2">
+        {status === 'disabled' ? <CloudOff className="w-4 h-4" /> : status === 'locked' ? <Lock className="w-4 h-4" /> : <Cloud className="w-4 h-4" />}
+        <h3 className="font-semibold">Sync</h3>
+        <span className="ml-auto text-xs text-[var(--color-text-secondary)]">
+          {status === 'disabled' ? 'Off' : status === 'locked' ? 'Locked' : config?.encrypted ? 'On, encrypted' : 'On'}
+        </span>
+      </div>
+
+      {status === 'disabled' && (
+        <>
+          <p className="text-xs text-[var(--color-text-secondary)]">
+            Sync conversations, notes, flowcharts and settings between devices through your own server (see <code>server/sync-server.mjs</code>).
+          </p>
+          <input type="url" value={serverUrl} onChange={(e) => setServerUrl(e.target.value)} placeholder="Server URL" className={inputClass} />
+          <input type="password" value={token} onChange={(e) => setToken(e.target.value)} placeholder="Access token (optional)" className={inputClass} />
+          <label className="flex items-center gap-2 text-sm text-[var(--color-text-secondary)]">
+            <input type="checkbox" checked={encrypted} onChange={(e) => setEncrypted(e.target.checked)} />
+            Encrypt on this device (required to sync API keys)
+          </label>
+          {encrypted && (
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleConnect()}
+              placeholder="Sync passphrase (the same on every device)"
+              className={inputClass}
+            />
+          )}
+          <button onClick={handleConnect} disabled={isBusy} className={`w-full ${buttonClass}`}>
+            {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Cloud className="w-4 h-4" />}
+            Connect
+          </button>
+        </>
+      )}
+
+      {status === 'locked' && (
+        <>
+          <p className="text-xs text-[var(--color-text-secondary)]">
+            Enter the sync passphrase to resume syncing with {config?.serverUrl}.
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && passphrase && run(() => onUnlock(passphrase))}
+            placeholder="Sync passphrase"
+            className={inputClass}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => run(() => onUnlock(passphrase))} disabled={isBusy || !passphrase} className={buttonClass}>
+              {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlock className="w-4 h-4" />}
+              Unlock
+            </button>
+            <button onClick={handleDisconnect} disabled={isBusy} className={buttonClass}>
+              Disconnect
+            </button>
+          </div>
+        </>
+      )}
+
+      {status === 'ready' && (
+        <>
+          <p className="text-xs text-[var(--color-text-secondary)]">
+            {config?.serverUrl} · {lastSyncedAt ? `last synced ${lastSyncedAt.toLocaleString()}` : 'not synced yet'}
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={onSyncNow} disabled={isSyncing} className={buttonClass}>
+              <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+              Sync now
+            </button>
+            <button onClick={handleDisconnect} className={buttonClass}>
+              Disconnect
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+// src/components/ReviewModal.tsx
+import { useEffect, useState } from 'react';
+import { CheckCircle, GraduationCap, Lightbulb, Trash2, X, XCircle } from 'lucide-react';
+import { ReviewCard, ReviewGrade } from '../types';
+import { gradeLabels, previewInterval, REVIEW_GRADES } from '../utils/reviewDeck';
+
+interface ReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cards: ReviewCard[];
+  // Cards due when the session started, in review order
+  sessionCardIds: string[];
+  onReview: (id: string, grade: ReviewGrade) => void;
+  onDelete: (id: string) => void;
+}
+
+const gradeClasses: Record<ReviewGrade, string> = {
+  again: 'bg-red-900/40 hover:bg-red-900/60 text-red-300',
+  hard: 'bg-orange-900/40 hover:bg-orange-900/60 text-orange-300',
+  good: 'bg-green-900/40 hover:bg-green-900/60 text-green-300',
+  easy: 'bg-blue-900/40 hover:bg-blue-900/60 text-blue-300',
+};
+
+export function ReviewModal({ isOpen, onClose, cards, sessionCardIds, onReview, onDelete }: ReviewModalProps) {
+  // Ids still to review this session; cards graded "again" go to the back
+  const [queue, setQueue] = useState<string[]>([]);
+  const [reviewed, setReviewed] = useState(0);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [pickedOption, setPickedOption] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQueue(sessionCardIds);
+    setReviewed(0);
+    setIsRevealed(false);
+    setPickedOption(null);
+  }, [isOpen, sessionCardIds]);
+
+  // Cards deleted meanwhile (e.g. in another tab) drop out
+  const remaining = queue.filter(id => cards.some(c => c.id === id));
+  const card = cards.find(c => c.id === remaining[0]);
+
+  const next = (requeue: boolean) => {
+    setQueue(prev => {
+      const rest = prev.filter(id => id !== card?.id);
+      return requeue && card ? [...rest, card.id] : rest;
+    });
+    setIsRevealed(false);
+    setPickedOption(null);
+  };
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card) return;
+    onReview(card.id, grade);
+    setReviewed(prev => prev + 1);
+    next(grade === 'again');
+  };
+
+  const handleDelete = () => {
+    if (!card || !window.confirm('Remove this card from the review deck?')) return;
+    onDelete(card.id);
+    next(false);
+  };
+
+  const handlePick = (index: number) => {
+    if (isRevealed) return;
+    setPickedOption(index);
+    setIsRevealed(true);
+  };
+
+  // Space shows the answer, 1-4 grade it
+  useEffect(() => {
+    if (!isOpen || !card) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (!isRevealed && e.key === ' ') {
+        e.preventDefault();
+        setIsRevealed(true);
+      } else if (isRevealed && ['1', '2', '3', '4'].includes(e.key)) {
+        handleGrade(REVIEW_GRADES[Number(e.key) - 1]);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (!isOpen) return null;
+
+  const renderCard = (current: ReviewCard) => (
+    <div className="animate-fadeIn">
+      <p className="mb-4 text-center">
+        <span className="bg-[var(--color-card)] px-3 py-1 rounded-full text-sm font-semibold text-[var(--color-text-secondary)]">
+          {remaining.length} left
+        </span>
+      </p>
+      <h3 className="text-xl md:text-2xl font-bold text-center text-[var(--color-text-primary)] mb-8 leading-tight whitespace-pre-wrap">
+        {current.front}
+      </h3>
+
+      {current.options && current.correctAnswer !== undefined ? (
+        <div className="space-y-3">
+          {current.options.map((option, index) => {
+            const isCorrect = index === current.correctAnswer;
+            let buttonClass = 'bg-[var(--color-card)] border-transparent hover:bg-[var(--color-border)]';
+            if (isRevealed) {
+              if (isCorrect) buttonClass = 'bg-green-900/50 border-green-500/60 text-green-300';
+              else if (pickedOption === index) buttonClass = 'bg-red-900/50 border-red-500/60 text-red-300';
+              else buttonClass = 'bg-[var(--color-card)] border-transparent opacity-60';
+            }
+            return (
+              <button
+                key={index}
+                onClick={() => handlePick(index)}
+                disabled={isRevealed}
+                className={`w-full text-left p-4 border rounded-lg transition-all duration-200 text-base font-semibold flex items-center justify-between disabled:cursor-not-allowed ${buttonClass}`}
+              >
+                <div className="flex items-center gap-4">
+                  <div className="flex-shrink-0 w-6 h-6 rounded-md flex items-center justify-center text-sm font-bold bg-[var(--color-border)]">
+                    {String.fromCharCode(65 + index)}
+                  </div>
+                  <span>{option}</span>
+                </div>
+                {isRevealed && isCorrect && <CheckCircle className="w-5 h-5 text-green-400" />}
+                {isRevealed && pickedOption === index && !isCorrect && <XCircle className="w-5 h-5 text-red-400" />}
+              </button>
+            );
+          })}
+        </div>
+      ) : isRevealed && (
+        <div className="p-4 rounded-lg bg-[var(--color-card)] text-center text-lg whitespace-pre-wrap animate-fadeIn">
+          {current.back}
+        </div>
+      )}
+
+      {isRevealed && current.explanation && (
+        <div className="mt-6 p-4 rounded-lg bg-[var(--color-bg)] animate-fade-in-up border border-[var(--color-border)] flex items-start gap-3">
+          <Lightbulb className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-[var(--color-text-secondary)]">{current.explanation}</p>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderDone = () => (
+    <div className="text-center flex flex-col items-center justify-center p-4 sm:p-8 animate-pop-in">
+      <CheckCircle className="w-16 h-16 text-green-400 mb-4" />
+      <h3 className="text-2xl font-bold mb-2">{reviewed > 0 ? 'All done for today!' : 'Nothing to review'}</h3>
+      <p className="text-base text-[var(--color-text-secondary)]">
+        {reviewed > 0 ? `${reviewed} review${reviewed === 1 ? '' : 's'} this session.` : 'Cards from quizzes and notes show up here when they are due.'}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4 bg-black/70 backdrop-blur-sm animate-fadeIn">
+      <div
+        className="relative w-full max-w-2xl bg-[#0a0a0a] border border-[var(--color-border)] rounded-2xl shadow-2xl flex flex-col animate-fade-in-up overflow-hidden max-h-[90vh] max-h-[90dvh]"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="review-title"
+      >
+        <div className="p-4 sm:p-5 flex items-center justify-between border-b border-[var(--color-border)]">
+          <h2 id="review-title" className="text-lg font-bold flex items-center gap-2">
+            <GraduationCap className="w-5 h-5" /> Review
+          </h2>
+          <div className="flex items-center gap-1">
+            {card && (
+              <button onClick={handleDelete} className="interactive-button w-8 h-8 flex items-center justify-center rounded-full hover:bg-red-900/30 text-red-400 transition-colors" title="Remove card from deck">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+            <button onClick={onClose} className="interactive-button w-8 h-8 flex items-center justify-center rounded-full hover:bg-[var(--color-card)] transition-colors" aria-label="Close review">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 md:p-8 overflow-y-auto">
+          {card ? renderCard(card) : renderDone()}
+        </div>
+
+        <div className="p-4 border-t border-[var(--color-border)] bg-[var(--color-bg)]/50 mt-auto">
+          {!card ? (
+            <div className="flex justify-end">
+              <button onClick={onClose} className="w-full sm:w-auto interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)]">
+                Finish
+              </button>
+            </div>
+          ) : !isRevealed ? (
+            <button onClick={() => setIsRevealed(true)} className="w-full interactive-button px-6 py-2.5 rounded-lg font-bold bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] hover:bg-[var(--color-accent-bg-hover)]">
+              Show answer
+            </button>
+          ) : (
+            <div className="grid grid-cols-4 gap-2">
+              {REVIEW_GRADES.map((grade, index) => (
+                <button key={grade} onClick={() => handleGrade(grade)} className={`interactive-button py-2 rounded-lg font-bold flex flex-col items-center ${gradeClasses[grade]}`} title={`${gradeLabels[grade]} (${index + 1})`}>
+                  <span>{gradeLabels[grade]}</span>
+                  <span className="text-xs font-normal opacity-80">{previewInterval(card, grade)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+// src/components/SearchResults.tsx
+import { Book, GitBranch, MessageSquare, Search } from 'lucide-react';
+import { SearchResult, SearchTarget } from '../services/searchIndex';
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  onSelect: (target: SearchTarget) => void;
+}
+
+const targetIcons: Record<SearchTarget['type'], typeof Search> = {
+  conversation: MessageSquare,
+  message: MessageSquare,
+  note: Book,
+  flowchart: GitBranch,
+  flowchartNode: GitBranch,
+};
+
+export function SearchResults({ results, onSelect }: SearchResultsProps) {
+  if (results.length === 0) {
+    return (
+      <div className="text-center py-8 px-4">
+        <Search className="w-12 h-12 mx-auto text-gray-500 mb-3" />
+        <p className="text-sm text-gray-500">No matches</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {results.map(result => {
+        const Icon = targetIcons[result.target.type];
+        return (
+          <button
+            key={result.key}
+            onClick={() => onSelect(result.target)}
+            className="w-full text-left p-2 rounded-lg hover:bg-white/5 text-[var(--color-text-primary)] transition-colors"
+          >
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Icon className="w-4 h-4 flex-shrink-0" />
+              <span className="truncate">{result.title || 'Untitled'}</span>
+            </div>
+            <p className="mt-1 text-xs text-[var(--color-text-secondary)] line-clamp-3 break-words">
+              {result.snippet.map((part, i) => (part.isMatch
+                ? <mark key={i} className="bg-yellow-400/20 text-[var(--color-text-primary)] rounded-sm">{part.text}</mark>
+                : <span key={i}>{part.text}</span>
+              ))}
+            </p>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,13 +1,44 @@
 import React, { useState } from 'react';
-import { X, Settings, Key, Download, Upload, Shield, Database, Eye, EyeOff, HelpCircle, Trash2, BookUser } from 'lucide-react';
-import { APISettings, TutorMode } from '../types';
+import { X, Settings, Key, Download, Upload, Shield, Database, Eye, EyeOff, HelpCircle, Trash2, BookUser, BarChart3, AlertTriangle } from 'lucide-react';
+import { AIModel, APISettings, Conversation, Flowchart, Folder, Note, ReviewCard, StudySession, TutorMode } from '../types';
 import { storageUtils } from '../utils/storage';
+import { QuarantinedRecord } from '../utils/database';
+import { VaultStatus } from '../utils/keyVault';
+import { applyImport, BackupData, BackupError, ConflictResolution, createBackup, ImportPlan, planImport } from '../services/backup';
+import { SyncConfig, SyncStatus } from '../services/remoteSync';
+import { KeyVaultSection } from './KeyVaultSection';
+import { RemoteSyncSection } from './RemoteSyncSection';
+import { BackupImportPreview } from './BackupImportPreview';
+import { CustomEndpointsSection } from './CustomEndpointsSection';
+import { UsageDashboard } from './UsageDashboard';
+import { getModelOptions } from '../utils/models';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   settings: APISettings;
   onSaveSettings: (settings: APISettings) => void;
+  conversations: Conversation[];
+  notes: Note[];
+  flowcharts: Flowchart[];
+  folders: Folder[];
+  quizSessions: StudySession[];
+  reviewCards: ReviewCard[];
+  // Merged collections from a backup, plus its settings when they should be restored
+  onImportBackup: (data: BackupData, settings?: APISettings) => void;
+  vaultStatus: VaultStatus;
+  onEnableVault: (passphrase: string, settings: APISettings) => Promise<void>;
+  onUnlockVault: (passphrase: string) => Promise<void>;
+  onLockVault: () => void;
+  onDisableVault: () => void;
+  syncStatus: SyncStatus;
+  syncConfig: SyncConfig | null;
+  lastSyncedAt: Date | null;
+  isSyncing: boolean;
+  onConnectSync: (config: SyncConfig, passphrase: string) => Promise<void>;
+  onUnlockSync: (passphrase: string) => Promise<void>;
+  onSyncNow: () => void;
+  onDisconnectSync: () => void;
 }
 
 const apiInfo = {
@@ -40,18 +71,54 @@ const tutorModes = [
   { id: 'drill', name: 'Drill Sergeant', description: 'Tough love, no excuses, results-focused.', emoji: '💪' },
 ];
 
-type ActiveTab = 'general' | 'keys' | 'data';
+type ActiveTab = 'general' | 'keys' | 'usage' | 'data';
 
-export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: SettingsModalProps) {
+export function SettingsModal({
+  isOpen,
+  onClose,
+  settings,
+  onSaveSettings,
+  conversations,
+  notes,
+  flowcharts,
+  folders,
+  quizSessions,
+  reviewCards,
+  onImportBackup,
+  vaultStatus,
+  onEnableVault,
+  onUnlockVault,
+  onLockVault,
+  onDisableVault,
+  syncStatus,
+  syncConfig,
+  lastSyncedAt,
+  isSyncing,
+  onConnectSync,
+  onUnlockSync,
+  onSyncNow,
+  onDisconnectSync,
+}: SettingsModalProps) {
   const [localSettings, setLocalSettings] = useState<APISettings>(settings);
   const [visibleApis, setVisibleApis] = useState<Record<string, boolean>>({});
   const [activeTab, setActiveTab] = useState<ActiveTab>('general');
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+  const [includeSecrets, setIncludeSecrets] = useState(false);
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  const [importError, setImportError] = useState('');
   const fileInputRef = React.useRef<HTMLInputElement>(null);
 
   React.useEffect(() => {
     setLocalSettings(settings);
   }, [settings]);
 
+  React.useEffect(() => {
+    if (!isOpen || activeTab !== 'data') return;
+    storageUtils.getQuarantinedRecords()
+      .then(setQuarantined)
+      .catch(error => console.error('Error loading quarantined records:', error));
+  }, [isOpen, activeTab]);
+
   const toggleApiVisibility = (id: string) => {
     setVisibleApis(prev => ({ ...prev, [id]: !prev[id] }));
   };
@@ -65,12 +132,8 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
   };
 
   const handleExportData = () => {
-    const data = {
-      conversations: storageUtils.getConversations(),
-      notes: storageUtils.getNotes(),
-      settings: storageUtils.getSettings(),
-      exportDate: new Date().toISOString(),
-    };
+    // API keys only leave the device when asked for
+    const data = createBackup({ conversations, notes, flowcharts, folders, quizSessions, reviewCards }, settings, includeSecrets);
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -85,32 +148,44 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
     if (!file) return;
     const reader = new FileReader();
     reader.onload = (e) => {
+      setImportError('');
       try {
-        const data = JSON.parse(e.target?.result as string);
-        if (data.conversations) storageUtils.saveConversations(data.conversations);
-        if (data.notes) storageUtils.saveNotes(data.notes);
-        if (data.settings) {
-          setLocalSettings(data.settings);
-          storageUtils.saveSettings(data.settings);
-        }
-        alert('Data imported successfully! The app will now reload.');
-        window.location.reload();
+        setImportPlan(planImport(e.target?.result as string, { conversations, notes, flowcharts, folders, quizSessions, reviewCards }));
       } catch (error) {
-        console.error('Error importing data:', error);
-        alert('Failed to import data.');
+        console.error('Error reading backup:', error);
+        setImportPlan(null);
+        setImportError(error instanceof BackupError ? error.message : 'Failed to read the backup file.');
       }
     };
     reader.readAsText(file);
     event.target.value = '';
   };
 
+  const handleApplyImport = (resolution: ConflictResolution, restoreSettings: boolean) => {
+    if (!importPlan) return;
+    const merged = applyImport({ conversations, notes, flowcharts, folders, quizSessions, reviewCards }, importPlan, resolution);
+    onImportBackup(merged, restoreSettings ? importPlan.settings : undefined);
+    setImportPlan(null);
+  };
+
   const triggerFileInput = () => {
     fileInputRef.current?.click();
   };
 
-  const handleClearData = () => {
+  // Unreadable records are kept so they can be recovered by hand
+  const handleExportQuarantined = () => {
+    const blob = new Blob([JSON.stringify(quarantined, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ai-tutor-quarantine-${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClearData = async () => {
     if (window.confirm('Are you sure you want to delete all conversations and settings? This action cannot be undone.')) {
-      storageUtils.clearAllData();
+      await storageUtils.clearAllData();
       alert('All data has been cleared. The app will now reload.');
       window.location.reload();
     }
@@ -148,9 +223,10 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
         </div>
 
         {/* Tabs */}
-        <div className="p-3 grid grid-cols-3 gap-2 border-b border-[var(--color-border)]">
+        <div className="p-3 grid grid-cols-4 gap-2 border-b border-[var(--color-border)]">
           <TabButton id="general" label="General" Icon={BookUser} />
           <TabButton id="keys" label="API Keys" Icon={Shield} />
+          <TabButton id="usage" label="Usage" Icon={BarChart3} />
           <TabButton id="data" label="Data" Icon={Database} />
         </div>
 
@@ -180,14 +256,67 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                   </button>
                 ))}
               </div>
+              <div className="pt-4 border-t border-[var(--color-border)]">
+                <h3 className="font-semibold mb-1">Quiz Model</h3>
+                <p className="text-xs text-[var(--color-text-secondary)] mb-3">
+                  Any configured provider works; models with a JSON mode give the most reliable quizzes.
+                </p>
+                <select
+                  value={localSettings.quizModel || ''}
+                  onChange={(e) => setLocalSettings(prev => ({ ...prev, quizModel: (e.target.value || undefined) as AIModel | undefined }))}
+                  className="w-full px-3 py-2 border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-colors"
+                >
+                  <option value="">Same as chat model</option>
+                  {getModelOptions(localSettings.customEndpoints).map(option => (
+                    <option key={option.id} value={option.id}>{option.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="pt-4 border-t border-[var(--color-border)]">
+                <h3 className="font-semibold mb-1">Retries</h3>
+                <p className="text-xs text-[var(--color-text-secondary)] mb-3">
+                  Rate limits (429) and server errors are retried with exponential backoff, honouring Retry-After.
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="text-sm text-[var(--color-text-secondary)]">
+                    Max retries
+                    <input
+                      type="number"
+                      min={0}
+                      max={5}
+                      value={localSettings.maxRetries}
+                      onChange={(e) => setLocalSettings(prev => ({ ...prev, maxRetries: Math.max(0, Math.min(5, Number(e.target.value) || 0)) }))}
+                      className="mt-1 w-full px-3 py-2 border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-colors"
+                    />
+                  </label>
+                  <label className="text-sm text-[var(--color-text-secondary)]">
+                    Base delay (ms)
+                    <input
+                      type="number"
+                      min={100}
+                      step={100}
+                      value={localSettings.retryBaseDelayMs}
+                      onChange={(e) => setLocalSettings(prev => ({ ...prev, retryBaseDelayMs: Math.max(100, Number(e.target.value) || 100) }))}
+                      className="mt-1 w-full px-3 py-2 border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-colors"
+                    />
+                  </label>
+                </div>
+              </div>
             </div>
           )}
 
           {activeTab === 'keys' && (
             <div className="space-y-4 animate-fadeIn">
+              <KeyVaultSection
+                status={vaultStatus}
+                onEnable={(passphrase) => onEnableVault(passphrase, localSettings)}
+                onUnlock={onUnlockVault}
+                onLock={onLockVault}
+                onDisable={onDisableVault}
+              />
               {Object.keys(apiInfo).map(key => {
                 const id = key as keyof typeof apiInfo;
-                const apiKeyId = `${id}ApiKey` as keyof APISettings;
+                const apiKeyId = `${id}ApiKey` as `${keyof typeof apiInfo}ApiKey`;
                 return (
                   <div key={id}>
                     <label htmlFor={apiKeyId} className="text-sm font-medium text-[var(--color-text-secondary)] mb-2 flex items-center gap-1.5">
@@ -203,7 +332,8 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                         type={visibleApis[id] ? 'text' : 'password'}
                         value={localSettings[apiKeyId] || ''}
                         onChange={(e) => setLocalSettings(prev => ({ ...prev, [apiKeyId]: e.target.value }))}
-                        placeholder={`${apiInfo[id].name} key`}
+                        placeholder={vaultStatus === 'locked' ? 'Unlock the vault to edit' : `${apiInfo[id].name} key`}
+                        disabled={vaultStatus === 'locked'}
                         className="w-full pl-9 pr-10 py-2 border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-colors"
                       />
                       <button type="button" onClick={() => toggleApiVisibility(id)} className="absolute top-1/2 right-3 -translate-y-1/2 text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]">
@@ -213,9 +343,21 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                   </div>
                 )
               })}
+              <CustomEndpointsSection
+                endpoints={localSettings.customEndpoints}
+                onChange={(customEndpoints) => setLocalSettings(prev => ({ ...prev, customEndpoints }))}
+              />
             </div>
           )}
 
+          {activeTab === 'usage' && (
+            <UsageDashboard
+              settings={localSettings}
+              conversations={conversations}
+              onBudgetsChange={(dailyTokenBudgets) => setLocalSettings(prev => ({ ...prev, dailyTokenBudgets }))}
+            />
+          )}
+
           {activeTab === 'data' && (
             <div className="space-y-6 animate-fadeIn">
               <div>
@@ -225,7 +367,48 @@ export function SettingsModal({ isOpen, onClose, settings, onSaveSettings }: Set
                   <button onClick={triggerFileInput} className="flex items-center justify-center gap-2 p-3 border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors"> <Upload className="w-4 h-4" /> Import</button>
                   <input type="file" ref={fileInputRef} onChange={handleImportData} accept=".json" className="hidden" />
                 </div>
+                <label className="mt-3 flex items-center gap-2 text-sm text-[var(--color-text-secondary)]">
+                  <input
+                    type="checkbox"
+                    checked={includeSecrets}
+                    onChange={(e) => setIncludeSecrets(e.target.checked)}
+                  />
+                  Include API keys in the export (stored unencrypted in the file)
+                </label>
+                {importError && <p className="mt-2 text-sm text-red-400">{importError}</p>}
               </div>
+              <RemoteSyncSection
+                status={syncStatus}
+                config={syncConfig}
+                lastSyncedAt={lastSyncedAt}
+                isSyncing={isSyncing}
+                onConnect={onConnectSync}
+                onUnlock={onUnlockSync}
+                onSyncNow={onSyncNow}
+                onDisconnect={onDisconnectSync}
+              />
+              {importPlan && (
+                <BackupImportPreview
+                  plan={importPlan}
+                  onApply={handleApplyImport}
+                  onCancel={() => setImportPlan(null)}
+                />
+              )}
+              {quarantined.length > 0 && (
+                <div>
+                  <h3 className="font-semibold mb-2 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 text-yellow-400" />
+                    Unreadable Records
+                  </h3>
+                  <p className="text-sm text-[var(--color-text-secondary)] mb-3">
+                    {quarantined.length} stored record{quarantined.length === 1 ? '' : 's'} could not be read and {quarantined.length === 1 ? 'was' : 'were'} set aside instead of being deleted.
+                  </p>
+                  <button onClick={handleExportQuarantined} className="w-full flex items-center justify-center gap-2 p-3 border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors">
+                    <Download className="w-4 h-4" />
+                    Download for recovery
+                  </button>
+                </div>
+              )}
               <div>
                 <h3 className="font-semibold mb-2 text-red-400">Danger Zone</h3>
                 <button onClick={handleClearData} className="w-full flex items-center justify-center gap-2 p-3 border border-red-500/30 bg-red-900/20 text-red-400 rounded-lg hover:bg-red-900/40 hover:text-red-300 transition-colors">
@@ -1,19 +1,30 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import {
-  Plus, MessageSquare, Settings, Trash2, X, ChevronLeft, ChevronRight,
-  Search, Pin, Edit, Book, GitBranch
+  Plus, MessageSquare, Settings, X, ChevronLeft, ChevronRight,
+  Search, Book, GitBranch, ListChecks, GraduationCap
 } from 'lucide-react';
-import { Conversation, Note, Flowchart, AIModel } from '../types';
+import { Conversation, ConversationSource, Note, Flowchart, Folder, AIModel, CustomEndpoint } from '../types';
+import { getModelOptions } from '../utils/models';
+import { sourceLabels } from '../services/chatImporters';
+import { SearchIndex, SearchTarget } from '../services/searchIndex';
+import { SearchResults } from './SearchResults';
+import { SidebarItemList } from './SidebarItemList';
+import { FolderTree } from './FolderTree';
+import { BulkActionBar } from './BulkActionBar';
+import { ItemSort, itemSortLabels, sortItems } from '../utils/itemSort';
+import { FolderFilter, OrganizedEntity, OrganizedItem, collectTags, countByFolder, createItemFilter } from '../utils/organize';
 
 interface SidebarProps {
   conversations: Conversation[];
   notes: Note[];
   flowcharts: Flowchart[];
+  folders: Folder[];
   activeView: 'chat' | 'note' | 'flowchart';
   currentConversationId: string | null;
   currentNoteId: string | null;
   currentFlowchartId: string | null;
   onNewConversation: () => void;
+  onNewNote: () => void;
   onSelectConversation: (id: string | null) => void;
   onSelectNote: (id: string | null) => void;
   onSelectFlowchart: (id: string | null) => void;
@@ -21,9 +32,28 @@ interface SidebarProps {
   onRenameConversation: (id: string, newTitle: string) => void;
   onTogglePinConversation: (id: string) => void;
   onDeleteNote: (id: string) => void;
+  onRenameNote: (id: string, newTitle: string) => void;
+  onTogglePinNote: (id: string) => void;
   onDeleteFlowchart: (id: string) => void;
+  onRenameFlowchart: (id: string, newTitle: string) => void;
+  onTogglePinFlowchart: (id: string) => void;
+  onCreateFolder: (name: string, parentId: string | null) => void;
+  onRenameFolder: (id: string, name: string) => void;
+  onMoveFolder: (id: string, parentId: string | null) => void;
+  onDeleteFolder: (id: string) => void;
+  // Bulk actions on the selected items of one kind
+  onMoveItems: (entity: OrganizedEntity, ids: string[], folderId: string | null) => void;
+  onAddTag: (entity: OrganizedEntity, ids: string[], tag: string) => void;
+  onRemoveTag: (entity: OrganizedEntity, ids: string[], tag: string) => void;
+  onDeleteItems: (entity: OrganizedEntity, ids: string[]) => void;
+  onExportItems: (entity: OrganizedEntity, ids: string[]) => void;
+  // Review cards due today
+  dueCount: number;
+  onOpenReview: () => void;
+  // Opens a search hit: the message, note or flowchart node itself
+  onOpenSearchResult: (target: SearchTarget) => void;
   onOpenSettings: () => void;
-  settings: { selectedModel: AIModel };
+  settings: { selectedModel: AIModel; customEndpoints: CustomEndpoint[] };
   onModelChange: (model: AIModel) => void;
   onCloseSidebar: () => void;
   isSidebarOpen: boolean;
@@ -35,11 +65,13 @@ export function Sidebar({
   conversations,
   notes,
   flowcharts,
+  folders,
   activeView,
   currentConversationId,
   currentNoteId,
   currentFlowchartId,
   onNewConversation,
+  onNewNote,
   onSelectConversation,
   onSelectNote,
   onSelectFlowchart,
@@ -47,7 +79,23 @@ export function Sidebar({
   onRenameConversation,
   onTogglePinConversation,
   onDeleteNote,
+  onRenameNote,
+  onTogglePinNote,
   onDeleteFlowchart,
+  onRenameFlowchart,
+  onTogglePinFlowchart,
+  onCreateFolder,
+  onRenameFolder,
+  onMoveFolder,
+  onDeleteFolder,
+  onMoveItems,
+  onAddTag,
+  onRemoveTag,
+  onDeleteItems,
+  onExportItems,
+  dueCount,
+  onOpenReview,
+  onOpenSearchResult,
   onOpenSettings,
   settings,
   onModelChange,
@@ -57,9 +105,15 @@ export function Sidebar({
   isSidebarOpen
 }: SidebarProps) {
   const [searchQuery, setSearchQuery] = useState('');
-  const [editingId, setEditingId] = useState<string | null>(null);
-  const [editingTitle, setEditingTitle] = useState('');
   const [view, setView] = useState<'chats' | 'notes' | 'flowcharts'>('chats');
+  // 'native' means chats started in this app
+  const [sourceFilter, setSourceFilter] = useState<ConversationSource | 'native' | 'all'>('all');
+  const [itemSort, setItemSort] = useState<ItemSort>('updated');
+  const [folderFilter, setFolderFilter] = useState<FolderFilter>('all');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const searchIndexRef = useRef<SearchIndex | null>(null);
 
   useEffect(() => {
     if (activeView === 'chat') setView('chats');
@@ -67,16 +121,7 @@ export function Sidebar({
     else if (activeView === 'flowchart') setView('flowcharts');
   }, [activeView]);
 
-  const models = [
-    { id: 'gpt-oss-120b', icon: '/openai.svg', name: 'GPT-OSS 120B' },
-    { id: 'llama-3.3-70b-versatile', icon: '/meta-color.svg', name: 'Llama 3.3 70B' },
-    { id: 'mistral-large-latest', icon: '/mistral-color.svg', name: 'Mistral Large' },
-    { id: 'mistral-medium-latest', icon: '/mistral-color.svg', name: 'Mistral Medium' },
-    { id: 'gemini-2.5-flash', icon: '/gemini-color.svg', name: 'Gemini 2.5 Flash' },
-    { id: 'gemma-3-27b-it', icon: '/gemini-color.svg', name: 'Gemma 3 27B' },
-    { id: 'zai-glm-4.6', icon: '/zhipu-color.svg', name: 'ZAI GLM 4.6' },
-    { id: 'glm-4.5-flash', icon: '/zhipu-color.svg', name: 'GLM 4.5 Flash' },
-  ];
+  const models = useMemo(() => getModelOptions(settings.customEndpoints), [settings.customEndpoints]);
 
   const sortedConversations = useMemo(() => {
     return [...conversations].sort((a, b) => {
@@ -85,30 +130,95 @@ export function Sidebar({
     });
   }, [conversations]);
 
-  const filteredConversations = useMemo(() => sortedConversations.filter(c => c.title.toLowerCase().includes(searchQuery.toLowerCase())), [sortedConversations, searchQuery]);
-  const filteredNotes = useMemo(() => notes.filter(n => n.title.toLowerCase().includes(searchQuery.toLowerCase()) || n.content.toLowerCase().includes(searchQuery.toLowerCase())), [notes, searchQuery]);
-  const filteredFlowcharts = useMemo(() => flowcharts.filter(f => f.title.toLowerCase().includes(searchQuery.toLowerCase())), [flowcharts, searchQuery]);
+  // Only offer the filter once something has been imported
+  const importedSources = useMemo(() => {
+    const sources = new Set<ConversationSource>();
+    conversations.forEach(c => c.source && sources.add(c.source));
+    return [...sources];
+  }, [conversations]);
+
+  useEffect(() => {
+    if (sourceFilter === 'native' ? importedSources.length === 0 : sourceFilter !== 'all' && !importedSources.includes(sourceFilter)) {
+      setSourceFilter('all');
+    }
+  }, [importedSources, sourceFilter]);
+
+  const sourceConversations = useMemo(() => conversations.filter(c =>
+    sourceFilter === 'all' || (c.source ?? 'native') === sourceFilter
+  ), [conversations, sourceFilter]);
+
+  const entity: OrganizedEntity = view === 'chats' ? 'conversations' : view;
+  // Everything the current list could show, before the folder and tag filters
+  const viewItems: OrganizedItem[] = view === 'chats' ? sourceConversations : view === 'notes' ? notes : flowcharts;
+  const folderCounts = useMemo(() => countByFolder(folders, viewItems), [folders, viewItems]);
+  const viewTags = useMemo(() => collectTags(viewItems), [viewItems]);
+  const isFiltered = folderFilter !== 'all' || tagFilter.length > 0;
+  const itemFilter = useMemo(() => createItemFilter(folders, folderFilter, tagFilter), [folders, folderFilter, tagFilter]);
+
+  // Drop filters and selections whose folder, tag or item has gone
+  useEffect(() => {
+    if (folderFilter !== 'all' && folderFilter !== 'unfiled' && !folders.some(f => f.id === folderFilter)) setFolderFilter('all');
+  }, [folders, folderFilter]);
+
+  useEffect(() => {
+    setTagFilter(prev => (prev.every(tag => viewTags.includes(tag)) ? prev : prev.filter(tag => viewTags.includes(tag))));
+  }, [viewTags]);
+
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const ids = new Set(viewItems.map(item => item.id));
+      return [...prev].every(id => ids.has(id)) ? prev : new Set([...prev].filter(id => ids.has(id)));
+    });
+  }, [viewItems]);
+
+  const filteredConversations = useMemo(() => sortItems(sourceConversations, itemSort).filter(itemFilter), [sourceConversations, itemSort, itemFilter]);
+
+  // Built on the first search, then kept up to date incrementally
+  const searchResults = useMemo(() => {
+    if (isFolded || !searchQuery.trim()) return null;
+    if (!searchIndexRef.current) searchIndexRef.current = new SearchIndex();
+    searchIndexRef.current.update(conversations, notes, flowcharts);
+    const sources = new Map(conversations.map(c => [c.id, c.source ?? 'native']));
+    // Folder and tag filters apply to the chat, note or flowchart a hit is in
+    const passing = isFiltered ? new Set([...conversations, ...notes, ...flowcharts].filter(itemFilter).map(item => item.id)) : null;
+    return searchIndexRef.current.search(searchQuery).filter(result => {
+      const target = result.target;
+      if ('conversationId' in target && sourceFilter !== 'all' && sources.get(target.conversationId) !== sourceFilter) return false;
+      if (!passing) return true;
+      return passing.has('conversationId' in target ? target.conversationId : 'noteId' in target ? target.noteId : target.flowchartId);
+    });
+  }, [conversations, notes, flowcharts, searchQuery, sourceFilter, isFolded, isFiltered, itemFilter]);
+
+  const sortedNotes = useMemo(() => sortItems(notes, itemSort).filter(itemFilter), [notes, itemSort, itemFilter]);
+  const sortedFlowcharts = useMemo(() => sortItems(flowcharts, itemSort).filter(itemFilter), [flowcharts, itemSort, itemFilter]);
+  const conversationTitles = useMemo(() => new Map(conversations.map(c => [c.id, c.title])), [conversations]);
 
-  const handleStartEditing = (conversation: Conversation) => {
-    setEditingId(conversation.id);
-    setEditingTitle(conversation.title);
+  const selectedTags = useMemo(() => collectTags(viewItems.filter(item => selectedIds.has(item.id))), [viewItems, selectedIds]);
+
+  const handleToggleSelect = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
   };
 
-  const handleSaveEdit = () => {
-    if (editingId && editingTitle.trim()) {
-      onRenameConversation(editingId, editingTitle.trim());
-    }
-    setEditingId(null);
+  const handleToggleTagFilter = (tag: string) => {
+    setTagFilter(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') handleSaveEdit();
-    else if (e.key === 'Escape') setEditingId(null);
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setIsSelecting(false);
   };
 
+  const selectionProps = { selectedIds, isSelecting, onToggleSelect: handleToggleSelect, onTagClick: handleToggleTagFilter };
+
   const handleViewChange = (newView: 'chats' | 'notes' | 'flowcharts') => {
     setView(newView);
     setSearchQuery('');
+    clearSelection();
     if (newView === 'chats') onSelectConversation(sortedConversations[0]?.id || null);
     else if (newView === 'notes') onSelectNote(null);
     else onSelectFlowchart(null);
@@ -132,9 +242,18 @@ export function Sidebar({
             <button onClick={onCloseSidebar} className="p-2 text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)] hover:bg-[var(--color-card)] rounded-lg lg:hidden" title="Close sidebar"><X className="w-5 h-5" /></button>
           </div>
         </div>
-        <button onClick={onNewConversation} className={`w-full flex items-center ${isFolded ? 'justify-center' : 'justify-start'} gap-2 px-3 py-2 bg-[var(--color-accent-bg)] hover:bg-[var(--color-accent-bg-hover)] rounded-lg text-[var(--color-accent-text)] shadow-sm font-semibold btn-shine`}>
+        <button onClick={view === 'notes' ? onNewNote : onNewConversation} className={`w-full flex items-center ${isFolded ? 'justify-center' : 'justify-start'} gap-2 px-3 py-2 bg-[var(--color-accent-bg)] hover:bg-[var(--color-accent-bg-hover)] rounded-lg text-[var(--color-accent-text)] shadow-sm font-semibold btn-shine`}>
           <Plus className="w-4 h-4" />
-          {!isFolded && <span>New chat</span>}
+          {!isFolded && <span>{view === 'notes' ? 'New note' : 'New chat'}</span>}
+        </button>
+        <button onClick={onOpenReview} className={`relative w-full flex items-center ${isFolded ? 'justify-center' : 'justify-start'} gap-2 px-3 py-2 rounded-lg text-sm font-semibold transition-colors ${dueCount > 0 ? 'text-white hover:bg-[var(--color-card)]' : 'text-[var(--color-text-secondary)] hover:text-white hover:bg-[var(--color-card)]'}`} title={dueCount > 0 ? `${dueCount} card${dueCount === 1 ? '' : 's'} due` : 'Review deck'}>
+          <GraduationCap className="w-4 h-4" />
+          {!isFolded && <span className="flex-1 text-left">Review due</span>}
+          {dueCount > 0 && (
+            <span className={`${isFolded ? 'absolute -top-1 -right-1' : ''} min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-blue-500 text-white text-[10px] font-bold leading-none text-center`}>
+              {dueCount > 99 ? '99+' : dueCount}
+            </span>
+          )}
         </button>
       </div>
 
@@ -149,7 +268,7 @@ export function Sidebar({
               <p className="text-xs font-semibold text-[var(--color-text-secondary)] uppercase tracking-wider px-1">AI Model</p>
               <div className="grid grid-cols-2 gap-2">
                 {models.map(model => (
-                  <button key={model.id} onClick={() => onModelChange(model.id as AIModel)} className={`flex items-center gap-2 p-2 rounded-lg transition-all duration-200 border transform hover:scale-105 active:scale-100 ${settings.selectedModel === model.id ? 'bg-[var(--color-card)] border-[var(--color-border)] text-white scale-105' : 'bg-transparent border-transparent hover:bg-[var(--color-card)] text-[var(--color-text-secondary)] hover:text-white'}`} title={model.name}>
+                  <button key={model.id} onClick={() => onModelChange(model.id)} className={`flex items-center gap-2 p-2 rounded-lg transition-all duration-200 border transform hover:scale-105 active:scale-100 ${settings.selectedModel === model.id ? 'bg-[var(--color-card)] border-[var(--color-border)] text-white scale-105' : 'bg-transparent border-transparent hover:bg-[var(--color-card)] text-[var(--color-text-secondary)] hover:text-white'}`} title={model.name}>
                     <img src={model.icon} alt={model.name} className="w-5 h-5 flex-shrink-0" />
                     <span className="text-xs font-semibold truncate w-full text-left">{model.name}</span>
                   </button>
@@ -161,24 +280,127 @@ export function Sidebar({
       )}
 
       <div className="flex-1 overflow-y-auto p-2 flex flex-col">
-        {!isFolded && <div className="relative mb-2"><Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--color-text-secondary)]" /><input type="text" value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} placeholder={`Search ${view}...`} className="w-full bg-[var(--color-card)] border border-transparent focus:border-[var(--color-border)] rounded-lg pl-9 pr-3 py-1.5 text-sm placeholder:text-[var(--color-text-placeholder)] focus:outline-none" /></div>}
+        {!isFolded && <div className="relative mb-2"><Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--color-text-secondary)]" /><input type="text" value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} placeholder="Search everything..." className="w-full bg-[var(--color-card)] border border-transparent focus:border-[var(--color-border)] rounded-lg pl-9 pr-3 py-1.5 text-sm placeholder:text-[var(--color-text-placeholder)] focus:outline-none" /></div>}
         
-        {view === 'chats' && (
-          <div className="space-y-1">
-            {filteredConversations.length > 0 ? filteredConversations.map(c => (
-              <div key={c.id} onClick={() => onSelectConversation(c.id)} className={`group relative flex items-center gap-2 ${isFolded ? 'justify-center p-2.5' : 'p-2'} rounded-lg cursor-pointer transition-colors ${activeView === 'chat' && currentConversationId === c.id ? 'bg-white/10 text-white' : 'hover:bg-white/5 text-[var(--color-text-primary)]'}`} title={c.title}>
-                {isFolded ? <div className="relative"><MessageSquare className="w-5 h-5" />{c.isPinned && <Pin className="w-2.5 h-2.5 absolute -top-1 -right-1 text-yellow-400" />}</div> : <>
-                  <div className="relative flex-shrink-0"><MessageSquare className="w-4 h-4" />{c.isPinned && <Pin className="w-2.5 h-2.5 absolute -top-1 -right-1 text-yellow-400" />}</div>
-                  {activeView === 'chat' && currentConversationId === c.id && <div className="absolute left-0 top-1/2 -translate-y-1/2 w-0.5 h-4 bg-blue-400 rounded-r-full" />}
-                  {editingId === c.id ? <input type="text" value={editingTitle} onChange={(e) => setEditingTitle(e.target.value)} onBlur={handleSaveEdit} onKeyDown={handleKeyDown} className="flex-1 text-sm bg-transparent border-b border-[var(--color-border)] outline-none" autoFocus onClick={e => e.stopPropagation()} /> : <div className="flex-1 min-w-0 text-sm font-medium truncate">{c.title}</div>}
-                  <div className="absolute inset-y-0 right-0 flex items-center opacity-0 group-hover:opacity-100 transition-opacity bg-gradient-to-l from-[var(--color-sidebar)] pl-8 pr-1.5"><button onClick={e => { e.stopPropagation(); onTogglePinConversation(c.id);}} className="p-1 rounded hover:bg-[var(--color-border)]" title={c.isPinned ? 'Unpin' : 'Pin'}><Pin className="w-3.5 h-3.5" /></button><button onClick={e => { e.stopPropagation(); handleStartEditing(c); }} className="p-1 rounded hover:bg-[var(--color-border)]" title="Rename"><Edit className="w-3.5 h-3.5" /></button><button onClick={e => { e.stopPropagation(); onDeleteConversation(c.id); }} className="p-1 rounded hover:bg-red-900/30 text-red-400" title="Delete"><Trash2 className="w-3.5 h-3.5" /></button></div>
-                </>}
-              </div>
-            )) : <div className="text-center py-8 px-4"><MessageSquare className="w-12 h-12 mx-auto text-gray-500 mb-3" /><p className="text-sm text-gray-500">{searchQuery ? 'No chats found' : 'No conversations yet'}</p></div>}
+        {view === 'chats' && !isFolded && importedSources.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {(['all', 'native', ...importedSources] as const).map(source => (
+              <button key={source} onClick={() => setSourceFilter(source)} className={`px-2 py-0.5 rounded-full text-xs font-semibold transition-colors ${sourceFilter === source ? 'bg-[var(--color-card)] text-white' : 'text-[var(--color-text-secondary)] hover:text-white'}`}>
+                {source === 'all' ? 'All' : source === 'native' ? 'Native' : sourceLabels[source]}
+              </button>
+            ))}
           </div>
         )}
-        
-        {/* Other views (Notes, Flowcharts) */}
+
+        {!isFolded && (
+          <FolderTree
+            folders={folders}
+            counts={folderCounts}
+            totalCount={viewItems.length}
+            filter={folderFilter}
+            onFilterChange={setFolderFilter}
+            onCreateFolder={onCreateFolder}
+            onRenameFolder={onRenameFolder}
+            onMoveFolder={onMoveFolder}
+            onDeleteFolder={onDeleteFolder}
+            onDropItems={(ids, folderId) => onMoveItems(entity, ids, folderId)}
+          />
+        )}
+
+        {!isFolded && viewTags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {viewTags.map(tag => (
+              <button key={tag} onClick={() => handleToggleTagFilter(tag)} className={`px-2 py-0.5 rounded-full text-xs font-semibold transition-colors ${tagFilter.includes(tag) ? 'bg-[var(--color-card)] text-white' : 'text-[var(--color-text-secondary)] hover:text-white'}`}>
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {searchResults && <SearchResults results={searchResults} onSelect={onOpenSearchResult} />}
+
+        {!searchResults && !isFolded && (
+          <div className="flex items-center justify-between gap-1 mb-1 px-1 text-xs text-[var(--color-text-secondary)]">
+            <button onClick={() => (isSelecting ? clearSelection() : setIsSelecting(true))} className={`flex items-center gap-1 font-semibold hover:text-white ${isSelecting ? 'text-white' : ''}`} title="Select several items (or ctrl/cmd-click)">
+              <ListChecks className="w-3.5 h-3.5" />
+              {isSelecting ? 'Done' : 'Select'}
+            </button>
+            <div className="flex items-center gap-1">
+              <label htmlFor="sidebar-sort">Sort by</label>
+              <select id="sidebar-sort" value={itemSort} onChange={(e) => setItemSort(e.target.value as ItemSort)} className="bg-transparent font-semibold text-[var(--color-text-primary)] focus:outline-none cursor-pointer">
+                {(Object.keys(itemSortLabels) as ItemSort[]).map(sort => <option key={sort} value={sort} className="bg-[var(--color-bg-secondary)]">{itemSortLabels[sort]}</option>)}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {!searchResults && !isFolded && selectedIds.size > 0 && (
+          <BulkActionBar
+            count={selectedIds.size}
+            folders={folders}
+            tags={selectedTags}
+            onMove={folderId => onMoveItems(entity, [...selectedIds], folderId)}
+            onAddTag={tag => onAddTag(entity, [...selectedIds], tag)}
+            onRemoveTag={tag => onRemoveTag(entity, [...selectedIds], tag)}
+            onExport={() => onExportItems(entity, [...selectedIds])}
+            onDelete={() => { onDeleteItems(entity, [...selectedIds]); clearSelection(); }}
+            onClear={clearSelection}
+          />
+        )}
+
+        {!searchResults && view === 'chats' && (
+          <SidebarItemList
+            items={filteredConversations}
+            icon={MessageSquare}
+            currentId={currentConversationId}
+            isActive={activeView === 'chat'}
+            isFolded={isFolded}
+            emptyLabel={sourceFilter !== 'all' || isFiltered ? 'No chats found' : 'No conversations yet'}
+            conversationTitles={conversationTitles}
+            onSelect={onSelectConversation}
+            onRename={onRenameConversation}
+            onTogglePin={onTogglePinConversation}
+            onDelete={onDeleteConversation}
+            onOpenConversation={onSelectConversation}
+            {...selectionProps}
+          />
+        )}
+
+        {!searchResults && view === 'notes' && (
+          <SidebarItemList
+            items={sortedNotes}
+            icon={Book}
+            currentId={currentNoteId}
+            isActive={activeView === 'note'}
+            isFolded={isFolded}
+            emptyLabel={isFiltered ? 'No notes found' : 'No notes yet. Start one with New note, or save an answer from a chat.'}
+            conversationTitles={conversationTitles}
+            onSelect={onSelectNote}
+            onRename={onRenameNote}
+            onTogglePin={onTogglePinNote}
+            onDelete={onDeleteNote}
+            onOpenConversation={onSelectConversation}
+            {...selectionProps}
+          />
+        )}
+
+        {!searchResults && view === 'flowcharts' && (
+          <SidebarItemList
+            items={sortedFlowcharts}
+            icon={GitBranch}
+            currentId={currentFlowchartId}
+            isActive={activeView === 'flowchart'}
+            isFolded={isFolded}
+            emptyLabel={isFiltered ? 'No flowcharts found' : 'No flowcharts yet. Generate one from a chat.'}
+            conversationTitles={conversationTitles}
+            onSelect={onSelectFlowchart}
+            onRename={onRenameFlowchart}
+            onTogglePin={onTogglePinFlowchart}
+            onDelete={onDeleteFlowchart}
+            onOpenConversation={onSelectConversation}
+            {...selectionProps}
+          />
+        )}
       </div>
 
       <div className="p-2 border-t border-[var(--color-border)]">
@@ -0,0 +1,115 @@
+// src/components/SidebarItemList.tsx
+import React, { useState } from 'react';
+import { Book, CheckSquare, Edit, MessageSquare, Pin, Square, Trash2 } from 'lucide-react';
+import { SidebarItem } from '../utils/itemSort';
+import { ITEMS_DRAG_TYPE } from '../utils/organize';
+
+interface SidebarItemListProps {
+  items: SidebarItem[];
+  icon: typeof Book;
+  currentId: string | null;
+  isActive: boolean;
+  isFolded: boolean;
+  emptyLabel: string;
+  // Titles of existing conversations, for the link back to an item's source chat
+  conversationTitles: Map<string, string>;
+  onSelect: (id: string) => void;
+  onRename: (id: string, newTitle: string) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+  onOpenConversation: (id: string) => void;
+  selectedIds: Set<string>;
+  // In select mode a click selects instead of opening; ctrl/cmd-click always does
+  isSelecting: boolean;
+  onToggleSelect: (id: string) => void;
+  onTagClick: (tag: string) => void;
+}
+
+export function SidebarItemList({
+  items,
+  icon: Icon,
+  currentId,
+  isActive,
+  isFolded,
+  emptyLabel,
+  conversationTitles,
+  onSelect,
+  onRename,
+  onTogglePin,
+  onDelete,
+  onOpenConversation,
+  selectedIds,
+  isSelecting,
+  onToggleSelect,
+  onTagClick,
+}: SidebarItemListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const handleSaveEdit = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') handleSaveEdit();
+    else if (e.key === 'Escape') setEditingId(null);
+  };
+
+  const handleClick = (e: React.MouseEvent, id: string) => {
+    if (isSelecting || e.ctrlKey || e.metaKey) onToggleSelect(id);
+    else onSelect(id);
+  };
+
+  // Dragging a selected item drags the whole selection
+  const handleDragStart = (e: React.DragEvent, id: string) => {
+    const ids = selectedIds.has(id) ? [...selectedIds] : [id];
+    e.dataTransfer.setData(ITEMS_DRAG_TYPE, JSON.stringify(ids));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-8 px-4">
+        <Icon className="w-12 h-12 mx-auto text-gray-500 mb-3" />
+        <p className="text-sm text-gray-500">{emptyLabel}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {items.map(item => {
+        const isCurrent = isActive && currentId === item.id;
+        const sourceId = item.sourceConversationId;
+        const sourceTitle = sourceId ? conversationTitles.get(sourceId) : undefined;
+        const isSelected = selectedIds.has(item.id);
+        return (
+          <div key={item.id} draggable={editingId !== item.id} onDragStart={e => handleDragStart(e, item.id)} onClick={e => handleClick(e, item.id)} className={`group relative flex items-center gap-2 ${isFolded ? 'justify-center p-2.5' : 'p-2'} rounded-lg cursor-pointer transition-colors ${isSelected ? 'bg-blue-500/15 text-white' : isCurrent ? 'bg-white/10 text-white' : 'hover:bg-white/5 text-[var(--color-text-primary)]'}`} title={item.title}>
+            {isFolded ? <div className="relative"><Icon className="w-5 h-5" />{item.isPinned && <Pin className="w-2.5 h-2.5 absolute -top-1 -right-1 text-yellow-400" />}</div> : <>
+              {isSelecting && (isSelected ? <CheckSquare className="w-4 h-4 flex-shrink-0 text-blue-400" /> : <Square className="w-4 h-4 flex-shrink-0 text-[var(--color-text-secondary)]" />)}
+              <div className="relative flex-shrink-0"><Icon className="w-4 h-4" />{item.isPinned && <Pin className="w-2.5 h-2.5 absolute -top-1 -right-1 text-yellow-400" />}</div>
+              {isCurrent && <div className="absolute left-0 top-1/2 -translate-y-1/2 w-0.5 h-4 bg-blue-400 rounded-r-full" />}
+              {editingId === item.id ? <input type="text" value={editingTitle} onChange={(e) => setEditingTitle(e.target.value)} onBlur={handleSaveEdit} onKeyDown={handleKeyDown} className="flex-1 text-sm bg-transparent border-b border-[var(--color-border)] outline-none" autoFocus onClick={e => e.stopPropagation()} /> : <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium truncate">{item.title || 'Untitled'}</div>
+                {item.tags && item.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-0.5">
+                    {item.tags.map(tag => <button key={tag} onClick={e => { e.stopPropagation(); onTagClick(tag); }} className="px-1.5 rounded-full bg-[var(--color-card)] text-[10px] text-[var(--color-text-secondary)] hover:text-white" title={`Filter by ${tag}`}>#{tag}</button>)}
+                  </div>
+                )}
+              </div>}
+              <div className="absolute inset-y-0 right-0 flex items-center opacity-0 group-hover:opacity-100 transition-opacity bg-gradient-to-l from-[var(--color-sidebar)] pl-8 pr-1.5">
+                {sourceId && sourceTitle !== undefined && <button onClick={e => { e.stopPropagation(); onOpenConversation(sourceId); }} className="p-1 rounded hover:bg-[var(--color-border)]" title={`Open source chat: ${sourceTitle}`}><MessageSquare className="w-3.5 h-3.5" /></button>}
+                <button onClick={e => { e.stopPropagation(); onTogglePin(item.id); }} className="p-1 rounded hover:bg-[var(--color-border)]" title={item.isPinned ? 'Unpin' : 'Pin'}><Pin className="w-3.5 h-3.5" /></button>
+                <button onClick={e => { e.stopPropagation(); setEditingId(item.id); setEditingTitle(item.title); }} className="p-1 rounded hover:bg-[var(--color-border)]" title="Rename"><Edit className="w-3.5 h-3.5" /></button>
+                <button onClick={e => { e.stopPropagation(); onDelete(item.id); }} className="p-1 rounded hover:bg-red-900/30 text-red-400" title="Delete"><Trash2 className="w-3.5 h-3.5" /></button>
+              </div>
+            </>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+// src/components/UsageDashboard.tsx
+import { useMemo, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { APISettings, Conversation, UsageLog, UsageTotals } from '../types';
+import { storageUtils } from '../utils/storage';
+import { providerRegistry } from '../services/providers';
+import { emptyUsageTotals, getTotalTokens, toDateKey } from '../services/usageTracker';
+
+interface UsageDashboardProps {
+  settings: APISettings;
+  conversations: Conversation[];
+  onBudgetsChange: (budgets: Record<string, number>) => void;
+}
+
+const HISTORY_DAYS = 7;
+
+function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  return cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+}
+
+function sumTotals(entries: UsageTotals[]): UsageTotals {
+  return entries.reduce(
+    (sum, t) => ({
+      promptTokens: sum.promptTokens + t.promptTokens,
+      completionTokens: sum.completionTokens + t.completionTokens,
+      requests: sum.requests + t.requests,
+      cost: sum.cost + t.cost,
+    }),
+    emptyUsageTotals
+  );
+}
+
+export function UsageDashboard({ settings, conversations, onBudgetsChange }: UsageDashboardProps) {
+  const [log, setLog] = useState<UsageLog>(() => storageUtils.getUsageLog());
+
+  const providers = useMemo(() => providerRegistry.list(settings), [settings]);
+  const getProviderName = (id: string) => providers.find(p => p.id === id)?.name || id;
+
+  const today = useMemo(() => log[toDateKey()] ?? {}, [log]);
+
+  // Every provider with usage today or a budget, plus the ones with keys
+  const providerIds = useMemo(() => {
+    const ids = new Set<string>([
+      ...Object.keys(today),
+      ...Object.keys(settings.dailyTokenBudgets),
+      ...providers.filter(p => providerRegistry.hasApiKey(settings, p.models[0])).map(p => p.id),
+    ]);
+    return [...ids];
+  }, [today, settings, providers]);
+
+  const history = useMemo(() => {
+    return Array.from({ length: HISTORY_DAYS }, (_, i) => {
+      const date = new Date();
+      date.setDate(date.getDate() - i);
+      const key = toDateKey(date);
+      return { key, totals: sumTotals(Object.values(log[key] ?? {})) };
+    });
+  }, [log]);
+
+  const topConversations = useMemo(() => {
+    return conversations
+      .filter(c => c.usage && c.usage.requests > 0)
+      .sort((a, b) => getTotalTokens(b.usage!) - getTotalTokens(a.usage!))
+      .slice(0, 5);
+  }, [conversations]);
+
+  const handleBudgetChange = (providerId: string, value: string) => {
+    const budgets = { ...settings.dailyTokenBudgets };
+    const tokens = Math.max(0, Math.floor(Number(value) || 0));
+    if (tokens > 0) budgets[providerId] = tokens;
+    else delete budgets[providerId];
+    onBudgetsChange(budgets);
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Clear the usage history? Budgets are kept.')) {
+      storageUtils.saveUsageLog({});
+      setLog({});
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <div>
+        <h3 className="font-semibold mb-1">Today</h3>
+        <p className="text-xs text-[var(--color-text-secondary)] mb-3">
+          Tokens per provider across chat, titles, quizzes and flowcharts. Set a daily budget to be warned before a shared key hits its limit.
+        </p>
+        {providerIds.length === 0 ? (
+          <p className="text-sm text-[var(--color-text-secondary)]">No usage recorded yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {providerIds.map(id => {
+              const totals = today[id];
+              const used = totals ? getTotalTokens(totals) : 0;
+              const budget = settings.dailyTokenBudgets[id];
+              const percent = budget ? Math.min(100, Math.round((used / budget) * 100)) : 0;
+              return (
+                <div key={id} className="p-3 border border-[var(--color-border)] rounded-lg space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-semibold">{getProviderName(id)}</span>
+                    <span className="text-[var(--color-text-secondary)]">{formatCost(totals?.cost ?? 0)}</span>
+                  </div>
+                  <div className="text-xs text-[var(--color-text-secondary)]">
+                    {(totals?.promptTokens ?? 0).toLocaleString()} in · {(totals?.completionTokens ?? 0).toLocaleString()} out · {totals?.requests ?? 0} request{totals?.requests === 1 ? '' : 's'}
+                  </div>
+                  {budget > 0 && (
+                    <div className="h-1.5 rounded-full bg-[var(--color-border)] overflow-hidden">
+                      <div
+                        className={`h-full ${percent >= 100 ? 'bg-red-400' : percent >= 80 ? 'bg-yellow-400' : 'bg-green-400'}`}
+                        style={{ width: `${percent}%` }}
+                      />
+                    </div>
+                  )}
+                  <label className="flex items-center justify-between gap-3 text-xs text-[var(--color-text-secondary)]">
+                    Daily budget (tokens)
+                    <input
+                      type="number"
+                      min={0}
+                      step={1000}
+                      value={budget || ''}
+                      placeholder="None"
+                      onChange={(e) => handleBudgetChange(id, e.target.value)}
+                      className="w-32 px-2 py-1 border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-colors text-right"
+                    />
+                  </label>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2">Last {HISTORY_DAYS} days</h3>
+        <div className="space-y-1 text-sm">
+          {history.map(({ key, totals }) => (
+            <div key={key} className="flex items-center justify-between text-[var(--color-text-secondary)]">
+              <span>{key}</span>
+              <span>{getTotalTokens(totals).toLocaleString()} tokens · {formatCost(totals.cost)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {topConversations.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-2">Top conversations</h3>
+          <div className="space-y-1 text-sm">
+            {topConversations.map(conv => (
+              <div key={conv.id} className="flex items-center justify-between gap-3 text-[var(--color-text-secondary)]">
+                <span className="truncate">{conv.title}</span>
+                <span className="flex-shrink-0">{getTotalTokens(conv.usage!).toLocaleString()} tokens · {formatCost(conv.usage!.cost)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={handleReset}
+        className="w-full flex items-center justify-center gap-2 p-3 border border-[var(--color-border)] rounded-lg hover:bg-[var(--color-card)] transition-colors text-sm"
+      >
+        <Trash2 className="w-4 h-4" />
+        Clear usage history
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+// src/components/VaultUnlockModal.tsx
+import { FormEvent, useState } from 'react';
+import { Lock, Loader2, Unlock } from 'lucide-react';
+
+interface VaultUnlockModalProps {
+  isOpen: boolean;
+  onUnlock: (passphrase: string) => Promise<void>;
+  // Continue without keys; the vault can be unlocked later in Settings
+  onSkip: () => void;
+}
+
+export function VaultUnlockModal({ isOpen, onUnlock, onSkip }: VaultUnlockModalProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError('');
+    try {
+      await onUnlock(passphrase);
+      setPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not unlock the vault');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm" />
+      <form
+        onSubmit={handleSubmit}
+        className="relative w-full max-w-sm glass-panel rounded-lg p-6 space-y-4 animate-fade-in-up"
+      >
+        <div className="flex items-center gap-3">
+          <Lock className="w-5 h-5" />
+          <h2 className="text-xl font-bold">Unlock API Keys</h2>
+        </div>
+        <p className="text-sm text-[var(--color-text-secondary)]">
+          Your API keys are encrypted. Enter your passphrase to use them in this session.
+        </p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoFocus
+          className="w-full px-3 py-2 border border-[var(--color-border)] rounded-lg bg-[var(--color-card)] focus:ring-2 focus:ring-gray-500 focus:border-transparent transition-colors"
+        />
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onSkip}
+            className="px-4 py-2 text-[var(--color-text-primary)] hover:bg-[var(--color-card)] rounded-lg transition-colors font-semibold"
+          >
+            Not now
+          </button>
+          <button
+            type="submit"
+            disabled={!passphrase || isUnlocking}
+            className="flex items-center gap-2 px-4 py-2 bg-[var(--color-accent-bg)] text-[var(--color-accent-text)] rounded-lg hover:bg-[var(--color-accent-bg-hover)] transition-colors font-semibold disabled:opacity-50"
+          >
+            {isUnlocking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlock className="w-4 h-4" />}
+            Unlock
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
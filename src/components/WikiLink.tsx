@@ -0,0 +1,89 @@
+// src/components/WikiLink.tsx
+import React from 'react';
+import { Book, GitBranch, MessageSquare } from 'lucide-react';
+import { parseWikiHref, WikiLinkCandidate, WikiLinkKind, WikiLinkResolver } from '../utils/wikiLinks';
+
+const kindIcons: Record<WikiLinkKind, typeof Book> = {
+  note: Book,
+  chat: MessageSquare,
+  flow: GitBranch,
+};
+
+const kindNames: Record<WikiLinkKind, string> = {
+  note: 'note',
+  chat: 'conversation',
+  flow: 'flowchart',
+};
+
+interface MarkdownLinkProps {
+  href?: string;
+  title?: string;
+  children?: React.ReactNode;
+  resolver?: WikiLinkResolver;
+}
+
+// `a` renderer for Markdown: wiki links open the item they name, other links
+// open in a new tab so the app stays put
+export function MarkdownLink({ href, title, children, resolver }: MarkdownLinkProps) {
+  const link = parseWikiHref(href);
+  if (!link) {
+    return <a href={href} title={title} target="_blank" rel="noopener noreferrer">{children}</a>;
+  }
+
+  const Icon = kindIcons[link.kind];
+  const target = resolver?.resolve(link) ?? null;
+  // A missing note can be created from the link; missing chats and flowcharts can't
+  if (!resolver || (!target && link.kind !== 'note')) {
+    return (
+      <span className="text-[var(--color-text-secondary)] line-through decoration-dotted" title={`No ${kindNames[link.kind]} called "${link.title}"`}>
+        {children}
+      </span>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => { e.stopPropagation(); resolver.open(link); }}
+      className={`inline-flex items-baseline gap-1 text-blue-400 hover:text-blue-300 hover:underline ${target ? '' : 'opacity-70 border-b border-dashed border-blue-400/60'}`}
+      title={target ? `Open ${kindNames[link.kind]}: ${link.title}` : `Create note "${link.title}"`}
+    >
+      <Icon className="w-3.5 h-3.5 self-center flex-shrink-0" />
+      {children}
+    </button>
+  );
+}
+
+interface WikiLinkSuggestionsProps {
+  suggestions: WikiLinkCandidate[];
+  activeIndex: number;
+  onSelect: (candidate: WikiLinkCandidate) => void;
+  className?: string;
+}
+
+// Popup offered while typing [[ in a text field
+export function WikiLinkSuggestions({ suggestions, activeIndex, onSelect, className = '' }: WikiLinkSuggestionsProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className={`absolute z-20 w-72 max-w-full p-1 bg-[var(--color-card)] border border-[var(--color-border)] rounded-lg shadow-xl ${className}`} role="listbox">
+      {suggestions.map((candidate, i) => {
+        const Icon = kindIcons[candidate.kind];
+        return (
+          <button
+            key={`${candidate.kind}:${candidate.title}`}
+            type="button"
+            role="option"
+            aria-selected={i === activeIndex}
+            // Keeps focus (and the caret) in the text field
+            onMouseDown={(e) => { e.preventDefault(); onSelect(candidate); }}
+            className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-sm ${i === activeIndex ? 'bg-white/10 text-white' : 'text-[var(--color-text-primary)] hover:bg-white/5'}`}
+          >
+            <Icon className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate">{candidate.title}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
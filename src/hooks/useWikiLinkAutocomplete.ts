@@ -0,0 +1,85 @@
+// src/hooks/useWikiLinkAutocomplete.ts
+import React, { useCallback, useMemo, useState } from 'react';
+import { completeWikiLink, findOpenWikiLink, suggestLinks, WikiLinkCandidate } from '../utils/wikiLinks';
+
+interface OpenLink {
+  start: number;
+  caret: number;
+  query: string;
+}
+
+/**
+ * Suggests link targets while a [[ link is being typed in `textareaRef`.
+ * Call `refresh` whenever the text or caret changes and give `handleKeyDown`
+ * the first look at key presses; it returns true when it used the key.
+ */
+export function useWikiLinkAutocomplete(
+  textareaRef: React.RefObject<HTMLTextAreaElement>,
+  value: string,
+  setValue: (value: string) => void,
+  candidates: WikiLinkCandidate[] | undefined
+) {
+  const [openLink, setOpenLink] = useState<OpenLink | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // Escape hides suggestions for the link at this position until it is finished
+  const [dismissedStart, setDismissedStart] = useState<number | null>(null);
+
+  const suggestions = useMemo(() => {
+    if (!openLink || !candidates || openLink.start === dismissedStart) return [];
+    return suggestLinks(candidates, openLink.query);
+  }, [openLink, candidates, dismissedStart]);
+
+  const refresh = useCallback(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || textarea.selectionStart !== textarea.selectionEnd) {
+      setOpenLink(null);
+      return;
+    }
+    const caret = textarea.selectionStart;
+    const found = findOpenWikiLink(textarea.value, caret);
+    setOpenLink(prev => {
+      if (!found) return null;
+      if (prev?.start === found.start && prev.query === found.query && prev.caret === caret) return prev;
+      return { ...found, caret };
+    });
+    setActiveIndex(0);
+  }, [textareaRef]);
+
+  const close = useCallback(() => setOpenLink(null), []);
+
+  const select = useCallback((candidate: WikiLinkCandidate) => {
+    if (!openLink) return;
+    const completed = completeWikiLink(value, openLink.start, openLink.caret, candidate);
+    setValue(completed.text);
+    setOpenLink(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(completed.caret, completed.caret);
+    });
+  }, [openLink, value, setValue, textareaRef]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent): boolean => {
+    if (!openLink || suggestions.length === 0) return false;
+    switch (e.key) {
+      case 'ArrowDown':
+        setActiveIndex(i => (i + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        setActiveIndex(i => (i - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        select(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        break;
+      case 'Escape':
+        setDismissedStart(openLink.start);
+        break;
+      default:
+        return false;
+    }
+    e.preventDefault();
+    return true;
+  }, [openLink, suggestions, activeIndex, select]);
+
+  return { suggestions, activeIndex, refresh, close, select, handleKeyDown };
+}
@@ -1,5 +1,7 @@
-import { APISettings, Conversation, StudySession, QuizQuestion, TutorMode, AIModel } from '../types';
-import { generateId } from '../utils/helpers';
+import { APISettings, TutorMode, AIModel, TokenUsage } from '../types';
+import { estimateTokens } from '../utils/helpers';
+import { getJsonOutputSupport, providerRegistry, ProviderDefinition, ProviderProtocol } from './providers';
+import { recordUsage } from './usageTracker';
 
 // Persona prompts for tutors
 const tutorPrompts: Record<TutorMode, string> = {
@@ -119,92 +121,351 @@ const tutorPrompts: Record<TutorMode, string> = {
 11. Brutal Honesty: If you don't know something, admit it directly: "I don't have that intel. Find it yourself or we find it together. No excuses for fake information." Integrity is non-negotiable in the military and in learning.`
 };
 
-// Helper: OpenAI-compatible streaming with timeout
-async function* streamOpenAICompatResponse(
-  url: string,
+interface StreamOptions {
+  timeout?: number;
+  temperature?: number;
+  // Ask for a raw JSON body where the provider supports it (see JsonOutputSupport)
+  jsonMode?: boolean;
+  // Constrains the JSON to a schema on providers with schema support
+  jsonSchema?: JsonSchema;
+  // Caller's cancellation (e.g. the Stop button); aborts the fetch and the body reader
+  signal?: AbortSignal;
+  // Called once the stream completes, with reported (or estimated) token counts
+  onUsage?: UsageCallback;
+}
+
+type UsageCallback = (usage: TokenUsage, latencyMs: number) => void;
+
+export interface JsonSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export type ChatMessage = { role: string; content: string };
+
+export interface ChatRequestOptions {
+  signal?: AbortSignal;
+  // Answers with this model instead of the selected one
+  model?: AIModel;
+  // Tried in order after the selected model when it fails or has no key
+  fallbackModels?: AIModel[];
+  // Called with each model as it is tried, so callers can record who answered
+  onModel?: (model: AIModel) => void;
+  // Summary of older turns, appended to the system prompt
+  contextSummary?: string;
+  onUsage?: UsageCallback;
+}
+
+type ProtocolStreamer = (
+  provider: ProviderDefinition,
   apiKey: string,
   model: string,
-  messages: { role: string; content: string }[],
+  messages: ChatMessage[],
   systemPrompt: string,
-  timeout: number = 60000 // Increased timeout for flowcharts
-): AsyncGenerator<string> {
-  const messagesWithSystemPrompt = [
-    { role: 'system', content: systemPrompt },
-    ...messages,
-  ];
+  options: StreamOptions,
+  onUsage: (usage: TokenUsage) => void
+) => AsyncGenerator<string>;
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+function createAbortError(): Error {
+  const error = new Error('Request cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+// Longest wait we accept before retrying; beyond this we fall back instead
+const MAX_RETRY_DELAY = 30000;
+
+// A failed provider call, carrying what the retry logic needs to decide
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+
+  // Rate limits, server errors, timeouts and network failures are worth retrying
+  get isRetryable(): boolean {
+    if (this.retryAfterMs !== undefined && this.retryAfterMs > MAX_RETRY_DELAY) return false;
+    return this.status === undefined || this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
 
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with jitter, unless the provider told us how long to wait
+function getRetryDelay(error: ProviderError, attempt: number, baseDelay: number): number {
+  if (error.retryAfterMs !== undefined) return error.retryAfterMs;
+  const exponential = Math.min(baseDelay * 2 ** attempt, MAX_RETRY_DELAY);
+  return exponential / 2 + Math.random() * exponential / 2;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(createAbortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Helper: apply the provider's auth scheme to an endpoint path
+function buildRequestTarget(provider: ProviderDefinition, apiKey: string, path: string) {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  let url = `${provider.baseUrl}${path}`;
+
+  // Keyless local servers get no credentials at all
+  if (apiKey && provider.auth === 'query-key') {
+    url += `${url.includes('?') ? '&' : '?'}key=${encodeURIComponent(apiKey)}`;
+  } else if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  return { url, headers };
+}
+
+// Helper: one signal that fires when the caller aborts or the timeout elapses
+function linkAbortSignal(signal: AbortSignal | undefined, timeout: number) {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const onAbort = () => controller.abort();
+
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener('abort', onAbort);
+
+  return {
+    signal: controller.signal,
+    // The timeout only covers waiting for the response headers
+    clearTimeout: () => clearTimeout(timeoutId),
+    dispose: () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+// Helper: read an SSE body line by line, handing each `data:` payload to `parse`.
+// The reader is cancelled as soon as `signal` aborts or the consumer stops early.
+async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  parse: (data: string) => string | undefined,
+  signal: AbortSignal
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const cancel = () => { reader.cancel().catch(() => {}); };
+  let buffer = '';
+  let finished = false;
+
+  signal.addEventListener('abort', cancel);
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (signal.aborted) throw createAbortError();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) continue;
+        const data = line.substring(6).trim();
+        if (data === '[DONE]') {
+          finished = true;
+          return;
+        }
+
+        try {
+          const chunk = parse(data);
+          if (chunk) yield chunk;
+        } catch {
+          // ignore parse errors for partial chunks
+        }
+      }
+    }
+    finished = true;
+  } finally {
+    signal.removeEventListener('abort', cancel);
+    if (finished) reader.releaseLock();
+    else cancel();
+  }
+}
+
+// Helper: POST a streaming request and yield each parsed SSE payload
+async function* streamRequest(
+  provider: ProviderDefinition,
+  url: string,
+  init: RequestInit,
+  options: StreamOptions,
+  parse: (data: string) => string | undefined
+): AsyncGenerator<string> {
+  const link = linkAbortSignal(options.signal, options.timeout ?? 60000);
 
   try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model,
-        messages: messagesWithSystemPrompt,
-        stream: true,
-        max_tokens: 8192,
-        temperature: 0.2 // Lower temperature for JSON/Flowcharts
-      }),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
+    const response = await fetch(url, { ...init, signal: link.signal });
+    link.clearTimeout();
 
     if (!response.ok) {
       const errorBody = await response.text();
       console.error("API Error Body:", errorBody);
-      throw new Error(`API Error: ${response.status} ${response.statusText}`);
+      throw new ProviderError(
+        `${provider.name} API Error: ${response.status} ${response.statusText || errorBody.slice(0, 200)}`,
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
     }
 
     if (!response.body) {
       throw new Error('Response body is null');
     }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.substring(6).trim();
-            if (data === '[DONE]') return;
-
-            try {
-              const json = JSON.parse(data);
-              const chunk = json.choices?.[0]?.delta?.content;
-              if (chunk) yield chunk;
-            } catch (e) {
-              // ignore parse errors for partial chunks
-            }
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock();
-    }
+    yield* readServerSentEvents(response.body, parse, link.signal);
   } catch (error) {
-    clearTimeout(timeoutId);
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timed out');
-    }
+    if (options.signal?.aborted) throw createAbortError();
+    if (link.signal.aborted) throw new ProviderError('Request timed out');
+    // fetch() rejects with a TypeError when the network itself fails
+    if (error instanceof TypeError) throw new ProviderError(`${provider.name} network error: ${error.message}`);
     throw error;
+  } finally {
+    link.dispose();
   }
 }
 
+// Helper: the chat-completions `response_format` for a JSON request
+function toResponseFormat(options: StreamOptions, provider: ProviderDefinition, model: string) {
+  const support = options.jsonMode ? getJsonOutputSupport(provider, model) : undefined;
+  if (!support) return undefined;
+  if (support === 'json-schema' && options.jsonSchema) {
+    return {
+      type: 'json_schema',
+      json_schema: { name: options.jsonSchema.name, strict: true, schema: options.jsonSchema.schema },
+    };
+  }
+  return { type: 'json_object' };
+}
+
+// Helper: OpenAI-compatible chat-completions streaming
+async function* streamOpenAICompatResponse(
+  provider: ProviderDefinition,
+  apiKey: string,
+  model: string,
+  messages: ChatMessage[],
+  systemPrompt: string,
+  options: StreamOptions,
+  onUsage: (usage: TokenUsage) => void
+): AsyncGenerator<string> {
+  const messagesWithSystemPrompt = systemPrompt
+    ? [{ role: 'system', content: systemPrompt }, ...messages]
+    : messages;
+
+  const { url, headers } = buildRequestTarget(provider, apiKey, '/chat/completions');
+  const responseFormat = toResponseFormat(options, provider, model);
+  const init: RequestInit = {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model,
+      messages: messagesWithSystemPrompt,
+      stream: true,
+      ...(provider.streamUsageOption ? { stream_options: { include_usage: true } } : {}),
+      ...(responseFormat ? { response_format: responseFormat } : {}),
+      max_tokens: 8192,
+      temperature: options.temperature ?? 0.2 // Lower temperature for JSON/Flowcharts
+    }),
+  };
+
+  yield* streamRequest(provider, url, init, options, data => {
+    const payload = JSON.parse(data);
+    // The final chunk carries `usage`; Groq reports it under `x_groq`
+    const usage = payload.usage ?? payload.x_groq?.usage;
+    if (usage) {
+      onUsage({ promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 });
+    }
+    return payload.choices?.[0]?.delta?.content;
+  });
+}
+
+// Helper: Gemini streamGenerateContent SSE streaming
+async function* streamGeminiResponse(
+  provider: ProviderDefinition,
+  apiKey: string,
+  model: string,
+  messages: ChatMessage[],
+  systemPrompt: string,
+  options: StreamOptions,
+  onUsage: (usage: TokenUsage) => void
+): AsyncGenerator<string> {
+  // Gemini has no system role here, so the persona is primed as an opening exchange
+  const googleMessages = [
+    ...(systemPrompt
+      ? [
+          { role: 'user', parts: [{ text: systemPrompt }] },
+          { role: 'model', parts: [{ text: 'Understood. I will follow these instructions.' }] },
+        ]
+      : []),
+    ...messages.map(m => ({
+      role: m.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: m.content }],
+    })),
+  ];
+
+  const generationConfig: Record<string, unknown> = {};
+  if (options.jsonMode && getJsonOutputSupport(provider, model)) {
+    generationConfig.responseMimeType = 'application/json';
+  }
+  if (options.temperature !== undefined) generationConfig.temperature = options.temperature;
+
+  const { url, headers } = buildRequestTarget(
+    provider,
+    apiKey,
+    `/models/${model}:streamGenerateContent?alt=sse`
+  );
+  const init: RequestInit = {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ contents: googleMessages, generationConfig }),
+  };
+
+  // usageMetadata is cumulative, so the last chunk's counts are the totals
+  yield* streamRequest(provider, url, init, options, data => {
+    const payload = JSON.parse(data);
+    const usage = payload.usageMetadata;
+    if (usage) {
+      onUsage({ promptTokens: usage.promptTokenCount ?? 0, completionTokens: usage.candidatesTokenCount ?? 0 });
+    }
+    return payload.candidates?.[0]?.content?.parts?.[0]?.text;
+  });
+}
+
+const protocolStreamers: Record<ProviderProtocol, ProtocolStreamer> = {
+  gemini: streamGeminiResponse,
+  openai: streamOpenAICompatResponse,
+};
+
 class AiService {
   private settings: APISettings = {
     googleApiKey: '',
@@ -212,423 +473,143 @@ class AiService {
     mistralApiKey: '',
     groqApiKey: '',
     cerebrasApiKey: '',
+    customEndpoints: [],
     selectedModel: 'gemini-2.5-flash',
     selectedTutorMode: 'standard',
+    maxRetries: 2,
+    retryBaseDelayMs: 1000,
+    dailyTokenBudgets: {},
   };
 
   public updateSettings(newSettings: APISettings) {
     this.settings = newSettings;
   }
 
-  private getSystemPrompt(): string {
-    return tutorPrompts[this.settings.selectedTutorMode] || tutorPrompts.standard;
+  public getSystemPrompt(contextSummary?: string): string {
+    const prompt = tutorPrompts[this.settings.selectedTutorMode] || tutorPrompts.standard;
+    if (!contextSummary) return prompt;
+    return `${prompt}\n\nSUMMARY OF THE EARLIER CONVERSATION (older messages are not shown):\n${contextSummary}`;
   }
 
-  // Uses the currently selected model to generate flowcharts
-  public async *generateFlowchartResponse(
-    messages: { role: string; content: string }[]
+  // Resolves the model's provider and streams through its wire protocol.
+  // Retryable failures are retried with backoff, but only until the first
+  // chunk arrives: a half-streamed answer cannot be replayed. Completed
+  // requests, and stopped ones that already streamed text, are recorded in
+  // the usage log.
+  private async *streamCompletion(
+    model: AIModel,
+    messages: ChatMessage[],
+    systemPrompt: string,
+    options: StreamOptions = {}
   ): AsyncGenerator<string> {
-    const model = this.settings.selectedModel;
-    const userMessages = messages.map(m => ({ role: m.role, content: m.content }));
-
-    // Specific system prompt for Flowcharts
-    const systemPrompt = 'You are a helpful assistant that generates flowcharts in valid JSON format. Do not output markdown code blocks, just raw JSON.';
-
-    try {
-      // 1. GOOGLE MODELS
-      if (model.startsWith('gemini') || model.startsWith('gemma')) {
-        if (!this.settings.googleApiKey) throw new Error('Google API key not set');
-
-        const googleUrl = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?key=${this.settings.googleApiKey}&alt=sse`;
-
-        const googleMessages = [
-          { role: 'user', parts: [{ text: systemPrompt }] },
-          { role: 'model', parts: [{ text: 'Understood. I will output raw JSON.' }] },
-          ...userMessages.map(m => ({
-            role: m.role === 'assistant' ? 'model' : 'user',
-            parts: [{ text: m.content }],
-          })),
-        ];
-
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 60000);
-
-        try {
-          const response = await fetch(googleUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              contents: googleMessages,
-              generationConfig: { responseMimeType: "application/json" } // Force JSON
-            }),
-            signal: controller.signal,
-          });
-
-          clearTimeout(timeoutId);
-          if (!response.ok) throw new Error(await response.text());
-          if (!response.body) throw new Error('Response body is null');
-
-          const reader = response.body.getReader();
-          const decoder = new TextDecoder();
-
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            const chunk = decoder.decode(value);
-            // Google SSE parsing is messy, simplified here for stream:
-            const lines = chunk.split('\n');
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                try {
-                  const json = JSON.parse(line.substring(6));
-                  const text = json.candidates?.[0]?.content?.parts?.[0]?.text;
-                  if (text) yield text;
-                } catch (e) { }
-              }
-            }
-          }
-        } catch (error) {
-          clearTimeout(timeoutId);
-          throw error;
+    const provider = providerRegistry.resolve(model, this.settings);
+    const apiKey = provider.getApiKey(this.settings);
+    if (!apiKey && provider.requiresApiKey !== false) throw new Error(`${provider.name} API key not set`);
+
+    const wireModel = provider.toWireModel ? provider.toWireModel(model) : model;
+    const streamer = protocolStreamers[provider.protocol];
+    const startedAt = Date.now();
+
+    for (let attempt = 0; ; attempt++) {
+      let hasYielded = false;
+      let reported: TokenUsage | undefined;
+      let completion = '';
+      let finished = false;
+      try {
+        for await (const chunk of streamer(provider, apiKey, wireModel, messages, systemPrompt, options, usage => { reported = usage; })) {
+          hasYielded = true;
+          completion += chunk;
+          yield chunk;
+        }
+        finished = true;
+        return;
+      } catch (error) {
+        const canRetry = !hasYielded
+          && error instanceof ProviderError
+          && error.isRetryable
+          && attempt < this.settings.maxRetries;
+        if (!canRetry) throw error;
+
+        const delay = getRetryDelay(error, attempt, this.settings.retryBaseDelayMs);
+        console.warn(`${provider.name} request failed (${error.message}), retrying in ${Math.round(delay)}ms`);
+        await sleep(delay, options.signal);
+      } finally {
+        // A stopped stream was still billed for what it sent
+        if (finished || hasYielded) {
+          const usage = reported ?? {
+            promptTokens: estimateTokens(systemPrompt + messages.map(m => m.content).join('')),
+            completionTokens: estimateTokens(completion),
+            estimated: true,
+          };
+          recordUsage(provider, model, usage, this.settings.dailyTokenBudgets);
+          options.onUsage?.(usage, Date.now() - startedAt);
         }
       }
+    }
+  }
 
-      // 2. MISTRAL MODELS
-      else if (model.includes('mistral') || model.includes('codestral')) {
-        if (!this.settings.mistralApiKey) throw new Error('Mistral API key not set');
-        yield* streamOpenAICompatResponse(
-          'https://api.mistral.ai/v1/chat/completions',
-          this.settings.mistralApiKey,
-          model,
-          userMessages,
-          systemPrompt
-        );
-      }
-
-      // 3. GROQ MODELS
-      else if (model.includes('llama') || model.includes('openai/gpt-oss-20b')) {
-        if (!this.settings.groqApiKey) throw new Error('Groq API key not set');
-        yield* streamOpenAICompatResponse(
-          'https://api.groq.com/openai/v1/chat/completions',
-          this.settings.groqApiKey,
-          model,
-          userMessages,
-          systemPrompt
-        );
-      }
-
-      // 4. CEREBRAS MODELS
-      else if (model.includes('gpt-oss-120b') || model.includes('qwen') || model === 'zai-glm-4.6') {
-        if (!this.settings.cerebrasApiKey) throw new Error('Cerebras API key not set');
-        yield* streamOpenAICompatResponse(
-          'https://api.cerebras.ai/v1/chat/completions',
-          this.settings.cerebrasApiKey,
-          model,
-          userMessages,
-          systemPrompt
-        );
-      }
-
-      // 5. ZHIPU MODELS
-      else if (model.includes('glm')) {
-        if (!this.settings.zhipuApiKey) throw new Error('ZhipuAI API key not set');
-        yield* streamOpenAICompatResponse(
-          'https://open.bigmodel.cn/api/paas/v4/chat/completions',
-          this.settings.zhipuApiKey,
-          model,
-          userMessages,
-          systemPrompt
-        );
-      }
-
-      else {
-        throw new Error(`Model ${model} not supported for flowchart generation.`);
-      }
+  // Non-streaming helper for short one-shot prompts
+  public async generateCompletion(
+    prompt: string,
+    model: AIModel = this.settings.selectedModel,
+    options: StreamOptions = {}
+  ): Promise<string> {
+    return this.generateChatCompletion([{ role: 'user', content: prompt }], '', model, options);
+  }
 
-    } catch (error) {
-      console.error('Error generating flowchart:', error);
-      throw error;
+  // Non-streaming multi-turn request, e.g. to repair invalid structured output
+  public async generateChatCompletion(
+    messages: ChatMessage[],
+    systemPrompt: string,
+    model: AIModel = this.settings.selectedModel,
+    options: StreamOptions = {}
+  ): Promise<string> {
+    let fullResponse = '';
+    for await (const chunk of this.streamCompletion(model, messages, systemPrompt, options)) {
+      fullResponse += chunk;
     }
+    return fullResponse;
   }
 
-  // Unified streaming response generator (Chat)
+  // Unified streaming response generator (Chat). Walks the fallback chain,
+  // starting with the selected model, until one provider answers.
   public async *generateStreamingResponse(
-    messages: { role: string; content: string }[]
+    messages: ChatMessage[],
+    options: ChatRequestOptions = {}
   ): AsyncGenerator<string> {
     if (!messages || messages.length === 0) {
       throw new Error('No messages provided');
     }
 
     const userMessages = messages.map(m => ({ role: m.role, content: m.content }));
-    const systemPrompt = this.getSystemPrompt();
-    const model = this.settings.selectedModel;
-
-    try {
-      // GOOGLE MODELS
-      if (model.startsWith('gemini') || model.startsWith('gemma')) {
-        if (!this.settings.googleApiKey) throw new Error('Google API key not set');
-
-        // Ensure we use valid 2.5 models if available, fallback logic included in ID
-        const googleUrl = `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?key=${this.settings.googleApiKey}&alt=sse`;
-
-        const googleMessages = [
-          { role: 'user', parts: [{ text: systemPrompt }] },
-          { role: 'model', parts: [{ text: 'Understood. I will follow this role.' }] },
-          ...userMessages.map(m => ({
-            role: m.role === 'assistant' ? 'model' : 'user',
-            parts: [{ text: m.content }],
-          })),
-        ];
-
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-        try {
-          const response = await fetch(googleUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ contents: googleMessages }),
-            signal: controller.signal,
-          });
-
-          clearTimeout(timeoutId);
-
-          if (!response.ok) {
-            const errorBody = await response.text();
-            throw new Error(`Google API Error: ${response.status} - ${errorBody}`);
-          }
-
-          if (!response.body) throw new Error('Response body is null');
-          const reader = response.body.getReader();
-          const decoder = new TextDecoder();
-
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            const chunk = decoder.decode(value);
-            const lines = chunk.split('\n');
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                try {
-                  const json = JSON.parse(line.substring(6));
-                  const text = json.candidates?.[0]?.content?.parts?.[0]?.text;
-                  if (text) yield text;
-                } catch (e) { }
-              }
-            }
-          }
-        } catch (error) {
-          clearTimeout(timeoutId);
-          if (error instanceof Error && error.name === 'AbortError') throw new Error('Request timed out');
-          throw error;
-        }
-      }
+    const chain = [...new Set([options.model ?? this.settings.selectedModel, ...(options.fallbackModels ?? [])])];
 
-      // MISTRAL MODELS
-      else if (model.includes('mistral') || model.includes('codestral')) {
-        if (!this.settings.mistralApiKey) throw new Error('Mistral API key not set');
-        yield* streamOpenAICompatResponse(
-          'https://api.mistral.ai/v1/chat/completions',
-          this.settings.mistralApiKey,
-          model,
-          userMessages,
-          systemPrompt
-        );
-      }
+    for (const [index, model] of chain.entries()) {
+      const isLast = index === chain.length - 1;
+      let hasYielded = false;
 
-      // ZHIPU / CEREBRAS (Check specific ID first for collisions)
-      else if (model.includes('glm')) {
-        if (model === 'zai-glm-4.6') {
-          if (!this.settings.cerebrasApiKey) throw new Error('Cerebras API key not set for ZAI GLM');
-          yield* streamOpenAICompatResponse(
-            'https://api.cerebras.ai/v1/chat/completions',
-            this.settings.cerebrasApiKey,
-            model,
-            userMessages,
-            systemPrompt
-          );
-        } else {
-          if (!this.settings.zhipuApiKey) throw new Error('ZhipuAI API key not set');
-          yield* streamOpenAICompatResponse(
-            'https://open.bigmodel.cn/api/paas/v4/chat/completions',
-            this.settings.zhipuApiKey,
-            model,
-            userMessages,
-            systemPrompt
-          );
+      try {
+        if (!isLast && !providerRegistry.hasApiKey(this.settings, model)) {
+          throw new Error(`No API key configured for ${model}`);
         }
-      }
-
-      // GROQ MODELS
-      else if (model.includes('llama') || model.includes('openai/gpt-oss-20b')) {
-        if (!this.settings.groqApiKey) throw new Error('Groq API key not set');
-        yield* streamOpenAICompatResponse(
-          'https://api.groq.com/openai/v1/chat/completions',
-          this.settings.groqApiKey,
-          model,
-          userMessages,
-          systemPrompt
-        );
-      }
-
-      // CEREBRAS MODELS (General check)
-      else if (model.includes('gpt-oss-120b') || model.includes('qwen')) {
-        if (!this.settings.cerebrasApiKey) throw new Error('Cerebras API key not set');
-        yield* streamOpenAICompatResponse(
-          'https://api.cerebras.ai/v1/chat/completions',
-          this.settings.cerebrasApiKey,
-          model,
-          userMessages,
-          systemPrompt
-        );
-      }
-
-      else {
-        throw new Error(`Model ${model} not supported or API key missing.`);
-      }
-
-    } catch (error) {
-      console.error('Error in generateStreamingResponse:', error);
-      throw error;
-    }
-  }
-
-  // Quiz generation logic (FIXED & ROBUST)
-  public async generateQuiz(conversation: Conversation): Promise<StudySession> {
-    if (!this.settings.googleApiKey) {
-      throw new Error('Google API key must be configured to generate quizzes.');
-    }
-
-    if (!conversation.messages || conversation.messages.length < 2) {
-      throw new Error('Conversation must have at least 2 messages to generate a quiz.');
-    }
-
-    const conversationText = conversation.messages
-      .map(m => `${m.role === 'user' ? 'Q:' : 'A:'} ${m.content}`)
-      .join('\n\n');
-
-    const prompt = `Based on the following conversation, create a multiple-choice quiz with 5 questions to test understanding of the key concepts.
-
-    STRICT JSON OUTPUT FORMAT REQUIRED:
-    {
-      "questions": [
-        {
-          "question": "Question text here",
-          "options": ["Option 1", "Option 2", "Option 3", "Option 4"],
-          "answer": "Option 2",
-          "explanation": "Explanation here"
+        options.onModel?.(model);
+
+        for await (const chunk of this.streamCompletion(model, userMessages, this.getSystemPrompt(options.contextSummary), {
+          signal: options.signal,
+          onUsage: options.onUsage,
+        })) {
+          hasYielded = true;
+          yield chunk;
         }
-      ]
-    }
-    
-    RULES:
-    1. "questions" must be an array.
-    2. "options" must be an array of exactly 4 strings.
-    3. "answer" must be a string that MATCHES EXACTLY one of the strings in "options".
-    4. "explanation" must be a string.
-    5. No markdown code blocks, just raw JSON.
-
-    CONVERSATION:
-    ${conversationText.slice(0, 6000)}`;
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000);
-
-    try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${this.settings.googleApiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ role: 'user', parts: [{ text: prompt }] }],
-            generationConfig: { responseMimeType: "application/json", temperature: 0.3 }
-          }),
-          signal: controller.signal,
+        return;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        if (hasYielded || isLast) {
+          console.error('Error in generateStreamingResponse:', error);
+          throw error;
         }
-      );
-
-      clearTimeout(timeoutId);
-      if (!response.ok) throw new Error(await response.text());
-
-      const data = await response.json();
-      const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
-
-      if (!textResponse) throw new Error('No content returned from AI');
-
-      let parsed;
-      try {
-        parsed = JSON.parse(textResponse);
-      } catch (e) {
-        console.error("JSON Parse Error:", e);
-        throw new Error("Failed to parse AI response as JSON");
-      }
-
-      // FIXED: Handle different possible valid JSON structures safely
-      let questionsArray: any[] = [];
-      if (Array.isArray(parsed)) {
-        questionsArray = parsed;
-      } else if (parsed && parsed.questions && Array.isArray(parsed.questions)) {
-        questionsArray = parsed.questions;
-      } else if (parsed && parsed.quiz && Array.isArray(parsed.quiz)) {
-        questionsArray = parsed.quiz;
-      } else {
-        console.error("Invalid Quiz Structure:", parsed);
-        throw new Error('AI returned invalid quiz structure (missing questions array)');
-      }
-
-      if (questionsArray.length === 0) {
-        throw new Error('No questions generated.');
+        console.warn(`${model} failed, falling back to ${chain[index + 1]}:`, error);
       }
-
-      const questions: QuizQuestion[] = questionsArray.map((q: any) => {
-        // Helper to find answer index safely
-        let correctIndex = -1;
-        const options = Array.isArray(q.options) ? q.options : ["Yes", "No", "Maybe", "Unsure"];
-
-        if (q.answer) {
-          // Try exact match
-          correctIndex = options.indexOf(q.answer);
-
-          // Try string match (trimmed)
-          if (correctIndex === -1) {
-            correctIndex = options.findIndex((opt: string) =>
-              String(opt).trim().toLowerCase() === String(q.answer).trim().toLowerCase()
-            );
-          }
-
-          // Try letter matching (A, B, C, D)
-          if (correctIndex === -1 && /^[A-D]$/i.test(q.answer)) {
-            correctIndex = q.answer.toUpperCase().charCodeAt(0) - 65;
-          }
-        }
-
-        // Fallback to 0 if still not found (prevent crash)
-        if (correctIndex === -1) correctIndex = 0;
-
-        return {
-          id: generateId(),
-          question: q.question || "Untitled Question",
-          options: options,
-          correctAnswer: correctIndex,
-          explanation: q.explanation || 'No explanation provided.',
-        };
-      });
-
-      return {
-        id: generateId(),
-        conversationId: conversation.id,
-        questions,
-        currentQuestionIndex: 0,
-        score: 0,
-        totalQuestions: questions.length,
-        isCompleted: false,
-        createdAt: new Date(),
-      };
-    } catch (error) {
-      clearTimeout(timeoutId);
-      throw error;
     }
   }
 }
@@ -0,0 +1,248 @@
+// src/services/backup.ts
+import { APISettings, Conversation, ConversationSource, Flowchart, Folder, Note, ReviewCard, StudySession } from '../types';
+import { generateId, getChangedAt } from '../utils/helpers';
+import { stripSecrets } from '../utils/keyVault';
+import { toConversation, toFlowchart, toFolder, toNote, toReviewCard, toSettings, toStudySession } from '../utils/storage';
+import { ChatExport, parseChatExport } from './chatImporters';
+
+const BACKUP_FORMAT = 'ai-tutor-backup';
+
+// 1: the unversioned { conversations, notes, settings, exportDate } export
+// 2: adds format/version and flowcharts
+// 3: adds folders (items carry folderId and tags)
+// 4: adds quizSessions
+// 5: adds reviewCards
+export const BACKUP_VERSION = 5;
+
+export interface BackupData {
+  conversations: Conversation[];
+  notes: Note[];
+  flowcharts: Flowchart[];
+  folders: Folder[];
+  quizSessions: StudySession[];
+  reviewCards: ReviewCard[];
+}
+
+export type BackupEntity = keyof BackupData;
+
+export const BACKUP_ENTITIES: BackupEntity[] = ['conversations', 'notes', 'flowcharts', 'folders', 'quizSessions', 'reviewCards'];
+
+export interface Backup extends BackupData {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings?: APISettings;
+}
+
+export type ConflictResolution = 'newer' | 'both' | 'skip';
+
+export interface EntityImportPlan<T> {
+  added: T[];
+  // Same id on both sides with different content
+  conflicts: { existing: T; incoming: T }[];
+  unchanged: number;
+  // Records in the file that failed validation and will not be imported
+  invalid: number;
+}
+
+export interface ImportPlan {
+  version: number;
+  // Set when the file is another chat app's export rather than a backup
+  source?: ConversationSource;
+  exportedAt?: string;
+  settings?: APISettings;
+  conversations: EntityImportPlan<Conversation>;
+  notes: EntityImportPlan<Note>;
+  flowcharts: EntityImportPlan<Flowchart>;
+  folders: EntityImportPlan<Folder>;
+  quizSessions: EntityImportPlan<StudySession>;
+  reviewCards: EntityImportPlan<ReviewCard>;
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+// upgrades[n] turns a version-n file into version n + 1
+const upgrades: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  1: data => ({ ...data, format: BACKUP_FORMAT, version: 2, exportedAt: data.exportDate, flowcharts: [] }),
+  2: data => ({ ...data, version: 3, folders: [] }),
+  3: data => ({ ...data, version: 4, quizSessions: [] }),
+  4: data => ({ ...data, version: 5, reviewCards: [] }),
+};
+
+export function createBackup(data: BackupData, settings: APISettings, includeSecrets: boolean): Backup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...data,
+    settings: includeSecrets ? settings : stripSecrets(settings),
+  };
+}
+
+// Some items and the folders they are in, without settings; imports like a full backup
+export function createSelectionBackup(data: BackupData): Backup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...data,
+  };
+}
+
+function detectVersion(data: Record<string, unknown>): number {
+  if (data.format === BACKUP_FORMAT && typeof data.version === 'number') return data.version;
+  if (data.format === undefined && Array.isArray(data.conversations)) return 1;
+  throw new BackupError('This file is not an AI Tutor backup');
+}
+
+function upgrade(data: Record<string, unknown>): Record<string, unknown> {
+  let version = detectVersion(data);
+  if (version > BACKUP_VERSION) {
+    throw new BackupError(`This backup is from a newer version of the app (format ${version}); update the app to import it`);
+  }
+  while (version < BACKUP_VERSION) {
+    data = upgrades[version](data);
+    version++;
+  }
+  return data;
+}
+
+function emptyPlan<T>(): EntityImportPlan<T> {
+  return { added: [], conflicts: [], unchanged: 0, invalid: 0 };
+}
+
+function planEntity<T extends { id: string }>(
+  existing: T[],
+  records: unknown,
+  parse: (record: unknown) => T,
+  entity: BackupEntity
+): EntityImportPlan<T> {
+  if (records !== undefined && !Array.isArray(records)) {
+    throw new BackupError(`"${entity}" must be a list`);
+  }
+  const byId = new Map(existing.map(item => [item.id, item]));
+  const plan = emptyPlan<T>();
+
+  for (const record of records ?? []) {
+    let incoming: T;
+    try {
+      incoming = parse(record);
+    } catch {
+      plan.invalid++;
+      continue;
+    }
+    const current = byId.get(incoming.id);
+    if (!current) plan.added.push(incoming);
+    else if (JSON.stringify(current) === JSON.stringify(incoming)) plan.unchanged++;
+    else plan.conflicts.push({ existing: current, incoming });
+  }
+  return plan;
+}
+
+// Converted conversations are already valid, so they skip parsing; the ones
+// the importer could not read count as invalid
+function planChatExport(chatExport: ChatExport, current: BackupData): ImportPlan {
+  const conversations = planEntity(current.conversations, chatExport.conversations, record => record as Conversation, 'conversations');
+  return {
+    version: BACKUP_VERSION,
+    source: chatExport.source,
+    conversations: { ...conversations, invalid: chatExport.skipped },
+    notes: emptyPlan(),
+    flowcharts: emptyPlan(),
+    folders: emptyPlan(),
+    quizSessions: emptyPlan(),
+    reviewCards: emptyPlan(),
+  };
+}
+
+function isBackup(data: unknown): data is Record<string, unknown> {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return false;
+  const record = data as Record<string, unknown>;
+  return record.format !== undefined || Array.isArray(record.conversations);
+}
+
+/**
+ * Validates a backup file (upgrading older formats) or a chat export from
+ * another app and works out what importing it would change, without
+ * changing anything
+ */
+export function planImport(text: string, current: BackupData): ImportPlan {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupError('The file is not valid JSON');
+  }
+  if (!isBackup(parsed)) {
+    const chatExport = parseChatExport(parsed);
+    if (!chatExport) throw new BackupError('This file is not an AI Tutor backup or a supported chat export');
+    return planChatExport(chatExport, current);
+  }
+
+  const data = upgrade(parsed);
+  let settings: APISettings | undefined;
+  if (data.settings !== undefined && data.settings !== null) {
+    try {
+      settings = toSettings(data.settings);
+    } catch (error) {
+      throw new BackupError(`"settings" is unreadable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return {
+    version: detectVersion(parsed),
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : undefined,
+    settings,
+    conversations: planEntity(current.conversations, data.conversations, toConversation, 'conversations'),
+    notes: planEntity(current.notes, data.notes, toNote, 'notes'),
+    flowcharts: planEntity(current.flowcharts, data.flowcharts, toFlowchart, 'flowcharts'),
+    folders: planEntity(current.folders, data.folders, toFolder, 'folders'),
+    quizSessions: planEntity(current.quizSessions, data.quizSessions, toStudySession, 'quizSessions'),
+    reviewCards: planEntity(current.reviewCards, data.reviewCards, toReviewCard, 'reviewCards'),
+  };
+}
+
+function copyAsImported<T extends { title: string }>(item: T): T {
+  return { ...item, id: generateId(), title: `${item.title} (imported)` };
+}
+
+// Entities without `copy` (folders, which a copy would leave empty, quiz
+// sessions, which are not edited, and review cards, whose copies would be
+// reviewed twice) keep the newer version when asked to keep both
+function resolveEntity<T extends { id: string; updatedAt: Date; changedAt?: Date }>(
+  existing: T[],
+  plan: EntityImportPlan<T>,
+  resolution: ConflictResolution,
+  copy?: (item: T) => T
+): T[] {
+  const replacements = new Map<string, T>();
+  const copies: T[] = [];
+  const keepNewer = resolution === 'newer' || (resolution === 'both' && !copy);
+
+  plan.conflicts.forEach(({ existing: current, incoming }) => {
+    if (keepNewer && getChangedAt(incoming).getTime() > getChangedAt(current).getTime()) {
+      replacements.set(current.id, incoming);
+    } else if (resolution === 'both' && copy) {
+      copies.push(copy(incoming));
+    }
+  });
+
+  return [...existing.map(item => replacements.get(item.id) ?? item), ...plan.added, ...copies];
+}
+
+// The merged collections; records only in the current data are always kept
+export function applyImport(current: BackupData, plan: ImportPlan, resolution: ConflictResolution): BackupData {
+  return {
+    conversations: resolveEntity(current.conversations, plan.conversations, resolution, copyAsImported),
+    notes: resolveEntity(current.notes, plan.notes, resolution, copyAsImported),
+    flowcharts: resolveEntity(current.flowcharts, plan.flowcharts, resolution, copyAsImported),
+    folders: resolveEntity(current.folders, plan.folders, resolution),
+    quizSessions: resolveEntity(current.quizSessions, plan.quizSessions, resolution),
+    reviewCards: resolveEntity(current.reviewCards, plan.reviewCards, resolution),
+  };
+}
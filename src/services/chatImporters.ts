@@ -0,0 +1,257 @@
+// src/services/chatImporters.ts
+import { Conversation, ConversationSource, Message } from '../types';
+import { generateConversationTitle } from '../utils/helpers';
+
+export const sourceLabels: Record<ConversationSource, string> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+  generic: 'Other apps',
+};
+
+export interface ChatExport {
+  source: ConversationSource;
+  conversations: Conversation[];
+  // Conversations in the file with no readable user or assistant messages
+  skipped: number;
+}
+
+// A message as read from an export, before ids and parents are assigned
+interface ImportedTurn {
+  externalId?: string;
+  role: Message['role'];
+  content: string;
+  timestamp?: Date;
+}
+
+type Json = Record<string, unknown>;
+
+interface ChatImporter {
+  source: ConversationSource;
+  matches: (item: Json) => boolean;
+  // Returns null when the conversation has nothing worth importing
+  convert: (item: Json) => Conversation | null;
+}
+
+function isObject(value: unknown): value is Json {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Accepts ISO strings and Unix times in seconds (ChatGPT) or milliseconds
+function toDate(value: unknown): Date | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return new Date(value < 1e12 ? value * 1000 : value);
+  }
+  if (typeof value === 'string' && value) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+// Stable ids for files without their own, so importing the same file twice
+// finds the existing conversation instead of duplicating it
+function hashString(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Turns one conversation's active path into a native conversation. Ids are
+ * prefixed with the source so re-imports line up with earlier ones, and
+ * consecutive turns from the same role (e.g. a tool call and the answer
+ * that follows it) are merged into one message.
+ */
+function buildConversation(
+  source: ConversationSource,
+  externalId: string,
+  title: string | undefined,
+  turns: ImportedTurn[],
+  createdAt?: Date,
+  updatedAt?: Date
+): Conversation | null {
+  const merged: ImportedTurn[] = [];
+  turns.forEach(turn => {
+    const content = turn.content.trim();
+    if (!content) return;
+    const previous = merged[merged.length - 1];
+    if (previous && previous.role === turn.role) previous.content += `\n\n${content}`;
+    else merged.push({ ...turn, content });
+  });
+  if (merged.length === 0) return null;
+
+  const id = `${source}-${externalId}`;
+  const start = createdAt ?? merged.find(turn => turn.timestamp)?.timestamp ?? new Date();
+  const messages: Message[] = [];
+  merged.forEach((turn, index) => {
+    const parent = messages[messages.length - 1];
+    messages.push({
+      id: `${id}-${turn.externalId ?? index}`,
+      role: turn.role,
+      content: turn.content,
+      // Untimed messages inherit the previous time so the order still reads right
+      timestamp: turn.timestamp ?? parent?.timestamp ?? start,
+      parentId: parent ? parent.id : null,
+    });
+  });
+  const last = messages[messages.length - 1];
+
+  return {
+    id,
+    title: title?.trim() || generateConversationTitle(merged[0].content),
+    messages,
+    activeLeafId: last.id,
+    createdAt: start,
+    updatedAt: updatedAt ?? last.timestamp,
+    source,
+  };
+}
+
+// ChatGPT stores each conversation as a tree of nodes in `mapping`; walking up
+// from `current_node` gives the branch that was on screen
+function readChatGptTurns(item: Json): ImportedTurn[] {
+  const mapping = isObject(item.mapping) ? item.mapping : {};
+  const path: Json[] = [];
+  const visited = new Set<string>();
+  let nodeId: unknown = item.current_node;
+  while (typeof nodeId === 'string' && !visited.has(nodeId)) {
+    const node = mapping[nodeId];
+    if (!isObject(node)) break;
+    visited.add(nodeId);
+    path.unshift(node);
+    nodeId = node.parent;
+  }
+
+  const turns: ImportedTurn[] = [];
+  path.forEach(node => {
+    const message = node.message;
+    if (!isObject(message)) return;
+    const role = isObject(message.author) ? message.author.role : undefined;
+    if (role !== 'user' && role !== 'assistant') return;
+    // Hidden context, and assistant messages addressed to a tool rather than the user
+    if (isObject(message.metadata) && message.metadata.is_visually_hidden_from_conversation) return;
+    if (message.recipient && message.recipient !== 'all') return;
+
+    const content = isObject(message.content) ? message.content : {};
+    let text = '';
+    if (Array.isArray(content.parts)) {
+      text = content.parts.filter((part): part is string => typeof part === 'string').join('\n');
+    } else if (typeof content.text === 'string') {
+      text = content.content_type === 'code' ? `\`\`\`\n${content.text}\n\`\`\`` : content.text;
+    }
+    turns.push({ externalId: String(message.id ?? node.id), role, content: text, timestamp: toDate(message.create_time) });
+  });
+  return turns;
+}
+
+// Claude exports list the messages of the active branch in order
+function readClaudeTurns(item: Json): ImportedTurn[] {
+  const messages = Array.isArray(item.chat_messages) ? item.chat_messages.filter(isObject) : [];
+  return messages.flatMap(message => {
+    if (message.sender !== 'human' && message.sender !== 'assistant') return [];
+    // Newer exports keep the text in content blocks and may leave `text` empty
+    const blocks = Array.isArray(message.content) ? message.content.filter(isObject) : [];
+    const text = asString(message.text) || blocks
+      .filter(block => block.type === 'text')
+      .map(block => asString(block.text) ?? '')
+      .join('\n');
+    return [{
+      externalId: asString(message.uuid),
+      role: message.sender === 'human' ? 'user' as const : 'assistant' as const,
+      content: text,
+      timestamp: toDate(message.created_at),
+    }];
+  });
+}
+
+const genericRoles: Record<string, Message['role']> = {
+  user: 'user',
+  human: 'user',
+  assistant: 'assistant',
+  ai: 'assistant',
+  bot: 'assistant',
+  model: 'assistant',
+};
+
+// Plain { title, messages: [{ role, content }] } files written by many smaller apps and scripts
+function readGenericTurns(item: Json): ImportedTurn[] {
+  const messages = Array.isArray(item.messages) ? item.messages.filter(isObject) : [];
+  return messages.flatMap(message => {
+    const role = genericRoles[String(message.role ?? message.author ?? '').toLowerCase()];
+    const content = asString(message.content) ?? asString(message.text);
+    if (!role || content === undefined) return [];
+    return [{
+      externalId: asString(message.id),
+      role,
+      content,
+      timestamp: toDate(message.timestamp ?? message.created_at ?? message.createdAt),
+    }];
+  });
+}
+
+const importers: ChatImporter[] = [
+  {
+    source: 'chatgpt',
+    matches: item => isObject(item.mapping) && 'current_node' in item,
+    convert: item => buildConversation(
+      'chatgpt',
+      String(item.conversation_id ?? item.id ?? hashString(JSON.stringify(item.mapping))),
+      asString(item.title),
+      readChatGptTurns(item),
+      toDate(item.create_time),
+      toDate(item.update_time)
+    ),
+  },
+  {
+    source: 'claude',
+    matches: item => Array.isArray(item.chat_messages),
+    convert: item => buildConversation(
+      'claude',
+      String(item.uuid ?? hashString(JSON.stringify(item.chat_messages))),
+      asString(item.name),
+      readClaudeTurns(item),
+      toDate(item.created_at),
+      toDate(item.updated_at)
+    ),
+  },
+  {
+    source: 'generic',
+    // Native conversations also have `messages`; those belong to backups
+    matches: item => Array.isArray(item.messages) && !('createdAt' in item && 'updatedAt' in item),
+    convert: item => buildConversation(
+      'generic',
+      asString(item.id) ?? hashString(JSON.stringify(item.messages)),
+      asString(item.title),
+      readGenericTurns(item),
+      toDate(item.created_at ?? item.createdAt),
+      toDate(item.updated_at ?? item.updatedAt)
+    ),
+  },
+];
+
+/**
+ * Recognises a ChatGPT, Claude or generic chat export (a list of
+ * conversations or a single one) and converts it. Returns null when the data
+ * is not a chat export the app knows.
+ */
+export function parseChatExport(data: unknown): ChatExport | null {
+  const items = (Array.isArray(data) ? data : [data]).filter(isObject);
+  if (items.length === 0) return null;
+  const importer = importers.find(candidate => candidate.matches(items[0]));
+  if (!importer) return null;
+
+  const conversations: Conversation[] = [];
+  let skipped = 0;
+  items.forEach(item => {
+    const conversation = importer.matches(item) ? importer.convert(item) : null;
+    if (conversation) conversations.push(conversation);
+    else skipped++;
+  });
+  return { source: importer.source, conversations, skipped };
+}
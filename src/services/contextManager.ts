@@ -0,0 +1,174 @@
+// src/services/contextManager.ts
+import { AIModel, ContextSummary, Conversation, Message } from '../types';
+import { aiService, ChatMessage, isAbortError } from './aiService';
+import { estimateTokens } from '../utils/helpers';
+import { getActivePath } from '../utils/messageTree';
+
+// Input context window per model, in tokens
+const contextWindows: Partial<Record<AIModel, number>> = {
+  'gemini-2.5-pro': 1048576,
+  'gemini-2.5-flash': 1048576,
+  'gemini-2.0-flash': 1048576,
+  'gemma-3-27b-it': 131072,
+  'mistral-large-latest': 131072,
+  'mistral-medium-latest': 131072,
+  'mistral-small-latest': 32768,
+  'codestral-latest': 262144,
+  'glm-4.5-flash': 131072,
+  'llama-3.3-70b-versatile': 131072,
+  'openai/gpt-oss-20b': 131072,
+  'gpt-oss-120b': 65536,
+  'qwen-3-235b-a22b-instruct-2507': 65536,
+  'zai-glm-4.6': 65536,
+};
+
+// Custom endpoints don't report their window; assume a small local model
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Room left for the model's answer
+const MAX_RESPONSE_RESERVE = 4096;
+
+// Room kept for the rolling summary once older turns start being compressed
+const SUMMARY_RESERVE = 1024;
+
+// Role/formatting overhead providers add around each message
+const MESSAGE_OVERHEAD = 4;
+
+export interface ContextUsage {
+  used: number;
+  limit: number;
+}
+
+interface ContextPlan {
+  // Valid summary of the messages before `recent`, if any
+  summary?: ContextSummary;
+  // Older turns that no longer fit and must be folded into the summary
+  toSummarize: Message[];
+  // Sent verbatim
+  recent: Message[];
+}
+
+export function getContextWindow(model: AIModel): number {
+  return contextWindows[model] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+// The whole fallback chain must fit, so plan for its smallest window
+function getChainWindow(models: AIModel[]): number {
+  return Math.min(...models.map(getContextWindow));
+}
+
+function estimateMessageTokens(message: Pick<Message, 'content'>): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD;
+}
+
+// A summary only counts while the message it ends at still exists;
+// edits and regenerations that drop it invalidate the summary.
+function getSummaryStart(messages: Message[], summary?: ContextSummary): number {
+  if (!summary) return 0;
+  return messages.findIndex(m => m.id === summary.upToMessageId) + 1;
+}
+
+function planContext(messages: Message[], models: AIModel[], summary?: ContextSummary): ContextPlan {
+  const window = getChainWindow(models);
+  const start = getSummaryStart(messages, summary);
+  const validSummary = start > 0 ? summary : undefined;
+  const candidates = messages.slice(start);
+
+  const reserve = Math.min(MAX_RESPONSE_RESERVE, Math.floor(window / 4));
+  const systemTokens = estimateTokens(aiService.getSystemPrompt(validSummary?.content));
+  const total = candidates.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+
+  if (systemTokens + total <= window - reserve) {
+    return { summary: validSummary, toSummarize: [], recent: candidates };
+  }
+
+  // Keep the newest turns verbatim, always at least the latest message
+  const budget = window - reserve - systemTokens - SUMMARY_RESERVE;
+  let used = 0;
+  let splitAt = candidates.length - 1;
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    used += estimateMessageTokens(candidates[i]);
+    if (used > budget && i < candidates.length - 1) break;
+    splitAt = i;
+  }
+
+  // Providers expect the verbatim history to open with a user turn
+  while (splitAt < candidates.length - 1 && candidates[splitAt].role !== 'user') {
+    splitAt++;
+  }
+
+  return {
+    summary: validSummary,
+    toSummarize: candidates.slice(0, splitAt),
+    recent: candidates.slice(splitAt),
+  };
+}
+
+// Tokens the next request would send, before any new summarisation
+export function getContextUsage(conversation: Conversation, models: AIModel[]): ContextUsage {
+  const thread = getActivePath(conversation);
+  const start = getSummaryStart(thread, conversation.contextSummary);
+  const summary = start > 0 ? conversation.contextSummary?.content : undefined;
+  const used = thread
+    .slice(start)
+    .reduce((sum, m) => sum + estimateMessageTokens(m), estimateTokens(aiService.getSystemPrompt(summary)));
+
+  return { used, limit: getChainWindow(models) };
+}
+
+async function summarizeMessages(
+  previousSummary: string | undefined,
+  messages: Message[],
+  model: AIModel,
+  signal?: AbortSignal
+): Promise<string> {
+  const transcript = messages
+    .map(m => `${m.role === 'user' ? 'Student' : 'Tutor'}: ${m.content}`)
+    .join('\n\n');
+
+  const prompt = `You are compressing the history of a tutoring conversation so it can continue within a limited context window.
+
+${previousSummary ? `EXISTING SUMMARY:\n${previousSummary}\n\n` : ''}NEW MESSAGES TO FOLD IN:
+${transcript}
+
+Write an updated summary (max 300 words) that keeps:
+- The topics covered and the key facts, formulas or code discussed
+- What the student already understood and where they struggled
+- Any open questions, preferences or instructions the student gave
+
+Return ONLY the summary, nothing else.`;
+
+  return (await aiService.generateCompletion(prompt, model, { signal })).trim();
+}
+
+/**
+ * Builds the messages for the next request. When the history no longer fits,
+ * older turns are folded into the conversation's rolling summary; the caller
+ * persists `summary` when it differs from the stored one.
+ */
+export async function buildChatContext(
+  conversation: Conversation,
+  models: AIModel[],
+  signal?: AbortSignal
+): Promise<{ messages: ChatMessage[]; summary?: ContextSummary }> {
+  const plan = planContext(getActivePath(conversation), models, conversation.contextSummary);
+  let summary = plan.summary;
+
+  if (plan.toSummarize.length > 0) {
+    try {
+      const content = await summarizeMessages(summary?.content, plan.toSummarize, models[0], signal);
+      if (content) {
+        summary = { content, upToMessageId: plan.toSummarize[plan.toSummarize.length - 1].id };
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      // Still send a request that fits: the oldest turns are dropped this time
+      console.warn('Failed to summarise conversation history, truncating instead:', error);
+    }
+  }
+
+  return {
+    messages: plan.recent.map(m => ({ role: m.role, content: m.content })),
+    summary,
+  };
+}
@@ -0,0 +1,196 @@
+// src/services/conversationExport.tsx
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown, { Components } from 'react-markdown';
+import katexCss from 'katex/dist/katex.min.css?raw';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneLight, vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { Conversation, Message } from '../types';
+import { downloadFile } from '../utils/helpers';
+import { getActivePath } from '../utils/messageTree';
+import { builtInModels } from '../utils/models';
+import { rehypePlugins, remarkPlugins } from '../utils/markdown';
+import { parseCustomModelId } from './providers';
+
+export type ExportFormat = 'markdown' | 'html' | 'print';
+
+type Layout = 'screen' | 'print';
+
+// KaTeX's fonts as bundled with the app, by file name. Only woff2 is kept:
+// every browser that renders the rest of the page reads it.
+const katexFontUrls = import.meta.glob<string>('../../node_modules/katex/dist/fonts/*.woff2', { query: '?url', import: 'default', eager: true });
+
+let embeddedKatexCss: Promise<string> | null = null;
+
+const palettes: Record<Layout, { background: string; text: string; muted: string; border: string; bubble: string; inlineCode: string }> = {
+  screen: { background: '#0e0e0e', text: '#ffffff', muted: '#a0a0a0', border: 'rgba(255, 255, 255, 0.1)', bubble: '#2a2a2a', inlineCode: '#1a1a1a' },
+  print: { background: '#ffffff', text: '#111111', muted: '#555555', border: '#d4d4d4', bubble: '#f3f4f6', inlineCode: '#f3f4f6' },
+};
+
+function speakerName(message: Message): string {
+  if (message.role === 'user') return 'You';
+  if (!message.model) return 'AI Assistant';
+  return builtInModels.find(model => model.id === message.model)?.name
+    || parseCustomModelId(message.model)?.model
+    || message.model;
+}
+
+function toFileName(title: string, extension: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${slug || 'conversation'}.${extension}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Message content is already Markdown with `$...$` math, so it is written as is
+export function conversationToMarkdown(conversation: Conversation): string {
+  const parts = [`# ${conversation.title}`, `*Exported ${new Date().toLocaleString()}*`];
+  getActivePath(conversation).forEach(message => {
+    parts.push('---', `### ${speakerName(message)}`, message.content.trim());
+  });
+  return `${parts.join('\n\n')}\n`;
+}
+
+function codeComponents(layout: Layout): Components {
+  return {
+    code({ className, children }) {
+      const match = /language-(\w+)/.exec(className || '');
+      if (!match) return <code>{children}</code>;
+      return (
+        <SyntaxHighlighter language={match[1]} style={layout === 'print' ? oneLight : vscDarkPlus} PreTag="div" wrapLongLines={layout === 'print'}>
+          {String(children).replace(/\n$/, '')}
+        </SyntaxHighlighter>
+      );
+    },
+  };
+}
+
+function toDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// KaTeX's stylesheet with its fonts inlined as data URIs, so a saved page
+// needs no network. The fonts come from the app's own assets, which also
+// works offline.
+function getEmbeddedKatexCss(): Promise<string> {
+  embeddedKatexCss ??= Promise.all(
+    Object.entries(katexFontUrls).map(async ([path, url]) => {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Could not load the math font ${path}`);
+      const font = new Blob([await response.arrayBuffer()], { type: 'font/woff2' });
+      return [path.slice(path.lastIndexOf('/') + 1), await toDataUrl(font)] as const;
+    })
+  ).then(fonts => {
+    const dataUrls = new Map(fonts);
+    return katexCss.replace(/url\(fonts\/([\w-]+\.woff2)\)[^;}]*/g, (source, fileName: string) => {
+      const dataUrl = dataUrls.get(fileName);
+      return dataUrl ? `url(${dataUrl}) format("woff2")` : source;
+    });
+  });
+  embeddedKatexCss.catch(() => { embeddedKatexCss = null; });
+  return embeddedKatexCss;
+}
+
+function stylesheet(layout: Layout, mathCss: string): string {
+  const colors = palettes[layout];
+  return `
+${mathCss}
+* { box-sizing: border-box; }
+body { margin: 0; background: ${colors.background}; color: ${colors.text}; font: 15px/1.65 Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+main { max-width: 48rem; margin: 0 auto; padding: 2rem 1.5rem; }
+header { border-bottom: 1px solid ${colors.border}; margin-bottom: 1.5rem; }
+header h1 { margin: 0 0 0.25rem; font-size: 1.6rem; }
+header p, .speaker { color: ${colors.muted}; font-size: 0.75rem; }
+.speaker { text-transform: uppercase; letter-spacing: 0.05em; font-weight: 600; margin-bottom: 0.25rem; }
+.message { margin-bottom: 1.5rem; }
+.message.user .content { background: ${colors.bubble}; border-radius: 1rem; padding: 0.75rem 1rem; width: fit-content; max-width: 85%; }
+.content > :first-child { margin-top: 0; }
+.content > :last-child { margin-bottom: 0; }
+.content pre, .content div[style] { border-radius: 0.5rem; font-size: 13px; }
+.content pre { background: ${colors.inlineCode}; padding: 0.75rem 1rem; overflow-x: auto; }
+.content :not(pre) > code { background: ${colors.inlineCode}; border: 1px solid ${colors.border}; border-radius: 0.25rem; padding: 0.1rem 0.4rem; font-size: 13px; }
+.content table { border-collapse: collapse; width: 100%; }
+.content th, .content td { border: 1px solid ${colors.border}; padding: 0.5rem; }
+.content a { color: #60a5fa; }
+.katex-display { overflow-x: auto; overflow-y: hidden; }
+${layout === 'print' ? `
+@page { margin: 18mm 16mm; }
+.content a { color: inherit; }
+.message { break-inside: avoid-page; }
+.content div[style], .content pre, .content table, .katex-display { break-inside: avoid; }
+h1, h2, h3, .speaker { break-after: avoid; }
+` : ''}`;
+}
+
+// A standalone page with math and code already rendered, so it needs no
+// scripts. The math fonts are only embedded when there is math to show.
+export async function conversationToHtml(conversation: Conversation, layout: Layout = 'screen'): Promise<string> {
+  const components = codeComponents(layout);
+  const body = renderToStaticMarkup(
+    <main>
+      <header>
+        <h1>{conversation.title}</h1>
+        <p>{new Date(conversation.createdAt).toLocaleString()}</p>
+      </header>
+      {getActivePath(conversation).map(message => (
+        <section key={message.id} className={`message ${message.role}`}>
+          <div className="speaker">{speakerName(message)}</div>
+          <div className="content">
+            <ReactMarkdown remarkPlugins={remarkPlugins} rehypePlugins={rehypePlugins} components={components}>
+              {message.content}
+            </ReactMarkdown>
+          </div>
+        </section>
+      ))}
+    </main>
+  );
+  const mathCss = body.includes('class="katex"') ? await getEmbeddedKatexCss() : '';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(conversation.title)}</title>
+<style>${stylesheet(layout, mathCss)}</style>
+</head>
+<body>${body}</body>
+</html>
+`;
+}
+
+// Opens the handout layout in a new window and starts the browser's print
+// dialog, from which it can be saved as PDF. Throws if pop-ups are blocked.
+// The window is opened before the page is built, while the click still
+// counts as the user's.
+async function printConversation(conversation: Conversation): Promise<void> {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) throw new Error('Allow pop-ups for this site to print the conversation');
+  try {
+    printWindow.document.write(await conversationToHtml(conversation, 'print'));
+  } catch (error) {
+    printWindow.close();
+    throw error;
+  }
+  printWindow.document.close();
+  // Wait for the KaTeX fonts so the first page does not print with fallbacks
+  printWindow.document.fonts.ready.then(() => {
+    printWindow.focus();
+    printWindow.print();
+  });
+}
+
+export async function exportConversation(conversation: Conversation, format: ExportFormat): Promise<void> {
+  if (format === 'markdown') {
+    downloadFile(conversationToMarkdown(conversation), toFileName(conversation.title, 'md'), 'text/markdown');
+  } else if (format === 'html') {
+    downloadFile(await conversationToHtml(conversation), toFileName(conversation.title, 'html'), 'text/html');
+  } else {
+    await printConversation(conversation);
+  }
+}
@@ -2,7 +2,9 @@
 import { Conversation } from '../types';
 import { Flowchart, FlowchartNode, FlowchartEdge, NodeType } from '../types/flowchart';
 import { generateId } from '../utils/helpers';
-import { aiService } from './aiService';
+import { getActivePath } from '../utils/messageTree';
+import { isAbortError } from './aiService';
+import { generateStructured, StructuredSchema, ValidationIssue } from './structuredOutput';
 
 interface AnalyzedContent {
   mainTopic: string;
@@ -11,6 +13,79 @@ interface AnalyzedContent {
   relationships: Array<{ from: string; to: string; relationship: string }>;
 }
 
+interface RawFlowchart {
+  title: string;
+  description?: string;
+  nodes: Array<{ id: string; type: NodeType; label: string; description?: string; position: { x: number; y: number } }>;
+  edges: Array<{ id?: string; source: string; target: string; label?: string }>;
+}
+
+const FLOWCHART_SYSTEM_PROMPT = 'You are a helpful assistant that generates flowcharts in valid JSON format. Do not output markdown code blocks, just raw JSON.';
+
+// Optional fields rule out strict provider-side decoding; validation is local
+const FLOWCHART_SCHEMA: StructuredSchema<RawFlowchart> = {
+  name: 'flowchart',
+  schema: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', minLength: 1 },
+      description: { type: 'string' },
+      nodes: {
+        type: 'array',
+        minItems: 2,
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+            type: { type: 'string', enum: ['start', 'process', 'decision', 'end', 'topic', 'concept'] },
+            label: { type: 'string', minLength: 1 },
+            description: { type: 'string' },
+            position: {
+              type: 'object',
+              properties: { x: { type: 'number' }, y: { type: 'number' } },
+              required: ['x', 'y'],
+            },
+          },
+          required: ['id', 'type', 'label', 'position'],
+        },
+      },
+      edges: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            source: { type: 'string', minLength: 1 },
+            target: { type: 'string', minLength: 1 },
+            label: { type: 'string' },
+          },
+          required: ['source', 'target'],
+        },
+      },
+    },
+    required: ['title', 'nodes', 'edges'],
+  },
+  refine: chart => {
+    const issues: ValidationIssue[] = [];
+    const seen = new Set<string>();
+    chart.nodes.forEach((node, i) => {
+      if (seen.has(node.id)) issues.push({ path: `$.nodes[${i}].id`, message: `duplicate node id "${node.id}"` });
+      seen.add(node.id);
+    });
+    chart.edges.forEach((edge, i) => {
+      for (const end of ['source', 'target'] as const) {
+        if (!seen.has(edge[end])) {
+          issues.push({ path: `$.edges[${i}].${end}`, message: `unknown node id "${edge[end]}"` });
+        }
+      }
+      if (edge.source === edge.target) {
+        issues.push({ path: `$.edges[${i}]`, message: 'an edge must not connect a node to itself' });
+      }
+    });
+    return issues;
+  },
+};
+
 // Enhanced prompt for better flowchart generation
 function createFlowchartPrompt(conversationText: string): string {
   return `You are an expert educational content analyzer and flowchart designer. Your task is to create a visually appealing and educationally effective learning flowchart from a conversation.
@@ -392,8 +467,12 @@ function validateAndFixFlowchart(data: any, conversation: Conversation): Flowcha
 }
 
 export async function generateFlowchartFromConversation(
-  conversation: Conversation
+  fullConversation: Conversation,
+  signal?: AbortSignal
 ): Promise<Flowchart> {
+  // Only the branch being shown is charted
+  const conversation = { ...fullConversation, messages: getActivePath(fullConversation) };
+
   if (!conversation.messages || conversation.messages.length < 2) {
     throw new Error('Conversation must have at least 2 messages to generate a flowchart.');
   }
@@ -413,36 +492,21 @@ export async function generateFlowchartFromConversation(
   const prompt = createFlowchartPrompt(conversationText);
   
   try {
-    // Use dedicated flowchart method that ALWAYS uses Gemini 2.5 Flash
-    let fullResponse = '';
-    
-    for await (const chunk of aiService.generateFlowchartResponse([
-      { role: 'user', content: prompt }
-    ])) {
-      fullResponse += chunk;
-    }
-    
-    // Clean the response - remove markdown, code blocks, and extra text
-    let cleanText = fullResponse.trim();
-    
-    // Remove markdown code blocks
-    cleanText = cleanText.replace(/```json\s*/gi, '').replace(/```\s*/g, '');
-    
-    // Find JSON object (look for first { and last })
-    const firstBrace = cleanText.indexOf('{');
-    const lastBrace = cleanText.lastIndexOf('}');
-    
-    if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-      cleanText = cleanText.substring(firstBrace, lastBrace + 1);
-    }
-    
-    // Parse the JSON
-    const parsed = JSON.parse(cleanText);
+    // Uses the currently selected model; invalid JSON is sent back for repair
+    const parsed = await generateStructured({
+      messages: [{ role: 'user', content: prompt }],
+      systemPrompt: FLOWCHART_SYSTEM_PROMPT,
+      schema: FLOWCHART_SCHEMA,
+      signal,
+    });
     
-    // Validate and fix the flowchart
+    // Fix layout and drop backward edges
     return validateAndFixFlowchart(parsed, conversation);
     
   } catch (error) {
+    // A cancelled request must not turn into a fallback flowchart
+    if (isAbortError(error)) throw error;
+
     console.error('Error generating flowchart with AI:', error);
     console.log('Falling back to structured flowchart generation');
     
@@ -0,0 +1,186 @@
+// src/services/providers.ts
+import { AIModel, APISettings, CustomEndpoint } from '../types';
+
+// How a provider's HTTP API is spoken: Google's streamGenerateContent SSE,
+// or the OpenAI chat-completions dialect most other vendors clone.
+export type ProviderProtocol = 'gemini' | 'openai';
+
+// Where the API key travels: `?key=` on the URL, or an Authorization header
+export type ProviderAuthScheme = 'query-key' | 'bearer';
+
+// Native structured output: a generic JSON mode, or decoding constrained to a
+// JSON Schema. Providers without either are prompted and their reply parsed.
+export type JsonOutputSupport = 'json-object' | 'json-schema';
+
+export interface ProviderDefinition {
+  id: string;
+  name: string;
+  baseUrl: string;
+  auth: ProviderAuthScheme;
+  protocol: ProviderProtocol;
+  models: AIModel[];
+  getApiKey: (settings: APISettings) => string;
+  // Local servers usually run without auth; defaults to true
+  requiresApiKey?: boolean;
+  // Maps an app-level model id to the name the provider expects on the wire
+  toWireModel?: (model: AIModel) => string;
+  // Needs `stream_options.include_usage` to report token usage when streaming
+  streamUsageOption?: boolean;
+  jsonOutput?: JsonOutputSupport;
+  // Wire model names that reject the provider's JSON mode
+  jsonOutputUnsupported?: string[];
+}
+
+// Custom endpoint models are namespaced so they never collide with built-ins
+export function customModelId(endpointId: string, model: string): AIModel {
+  return `custom:${endpointId}/${model}`;
+}
+
+export function parseCustomModelId(model: string): { endpointId: string; model: string } | null {
+  if (!model.startsWith('custom:')) return null;
+  const rest = model.slice('custom:'.length);
+  const slash = rest.indexOf('/');
+  if (slash === -1) return null;
+  return { endpointId: rest.slice(0, slash), model: rest.slice(slash + 1) };
+}
+
+export function getJsonOutputSupport(provider: ProviderDefinition, wireModel: string): JsonOutputSupport | undefined {
+  if (provider.jsonOutputUnsupported?.includes(wireModel)) return undefined;
+  return provider.jsonOutput;
+}
+
+function toCustomProvider(endpoint: CustomEndpoint): ProviderDefinition {
+  return {
+    id: `custom-${endpoint.id}`,
+    name: endpoint.name || 'Custom endpoint',
+    baseUrl: endpoint.baseUrl.replace(/\/+$/, ''),
+    auth: 'bearer',
+    protocol: 'openai',
+    models: endpoint.models.map(m => customModelId(endpoint.id, m)),
+    getApiKey: () => endpoint.apiKey || '',
+    requiresApiKey: false,
+    toWireModel: model => parseCustomModelId(model)?.model ?? model,
+    streamUsageOption: true,
+  };
+}
+
+// Lists the models an OpenAI-compatible server exposes via GET {baseUrl}/models
+export async function fetchOpenAICompatModels(baseUrl: string, apiKey?: string): Promise<string[]> {
+  const headers: Record<string, string> = {};
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/models`, { headers });
+  if (!response.ok) {
+    throw new Error(`Failed to list models: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const entries: { id?: unknown }[] = Array.isArray(data?.data) ? data.data : [];
+  return entries
+    .map(entry => entry.id)
+    .filter((id): id is string => typeof id === 'string' && id.length > 0)
+    .sort();
+}
+
+class ProviderRegistry {
+  private providers = new Map<string, ProviderDefinition>();
+
+  public register(provider: ProviderDefinition) {
+    this.providers.set(provider.id, provider);
+  }
+
+  public get(id: string): ProviderDefinition | undefined {
+    return this.providers.get(id);
+  }
+
+  // Built-in providers plus the user's custom endpoints, when settings are given
+  public list(settings?: APISettings): ProviderDefinition[] {
+    const custom = settings?.customEndpoints?.map(toCustomProvider) ?? [];
+    return [...this.providers.values(), ...custom];
+  }
+
+  // Each model belongs to exactly one provider; the first registration wins
+  public resolve(model: AIModel, settings?: APISettings): ProviderDefinition {
+    const provider = this.list(settings).find(p => p.models.includes(model));
+    if (!provider) {
+      throw new Error(`Model ${model} is not supported by any registered provider.`);
+    }
+    return provider;
+  }
+
+  // True when the model's provider has a key, or does not need one
+  public hasApiKey(settings: APISettings, model: AIModel): boolean {
+    try {
+      return isUsable(this.resolve(model, settings), settings);
+    } catch {
+      return false;
+    }
+  }
+
+  public hasAnyApiKey(settings: APISettings): boolean {
+    return this.list(settings).some(p => isUsable(p, settings));
+  }
+}
+
+function isUsable(provider: ProviderDefinition, settings: APISettings): boolean {
+  if (provider.requiresApiKey === false) return provider.models.length > 0;
+  return !!provider.getApiKey(settings);
+}
+
+export const providerRegistry = new ProviderRegistry();
+
+providerRegistry.register({
+  id: 'google',
+  name: 'Google',
+  baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  auth: 'query-key',
+  protocol: 'gemini',
+  models: ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.0-flash', 'gemma-3-27b-it'],
+  getApiKey: settings => settings.googleApiKey,
+  jsonOutput: 'json-object',
+  jsonOutputUnsupported: ['gemma-3-27b-it'],
+});
+
+providerRegistry.register({
+  id: 'mistral',
+  name: 'Mistral',
+  baseUrl: 'https://api.mistral.ai/v1',
+  auth: 'bearer',
+  protocol: 'openai',
+  models: ['mistral-large-latest', 'mistral-medium-latest', 'mistral-small-latest', 'codestral-latest'],
+  getApiKey: settings => settings.mistralApiKey,
+  jsonOutput: 'json-object',
+});
+
+providerRegistry.register({
+  id: 'zhipu',
+  name: 'ZhipuAI',
+  baseUrl: 'https://open.bigmodel.cn/api/paas/v4',
+  auth: 'bearer',
+  protocol: 'openai',
+  models: ['glm-4.5-flash'],
+  getApiKey: settings => settings.zhipuApiKey,
+  jsonOutput: 'json-object',
+});
+
+providerRegistry.register({
+  id: 'groq',
+  name: 'Groq',
+  baseUrl: 'https://api.groq.com/openai/v1',
+  auth: 'bearer',
+  protocol: 'openai',
+  models: ['llama-3.3-70b-versatile', 'openai/gpt-oss-20b'],
+  getApiKey: settings => settings.groqApiKey,
+  jsonOutput: 'json-object',
+});
+
+providerRegistry.register({
+  id: 'cerebras',
+  name: 'Cerebras',
+  baseUrl: 'https://api.cerebras.ai/v1',
+  auth: 'bearer',
+  protocol: 'openai',
+  models: ['gpt-oss-120b', 'qwen-3-235b-a22b-instruct-2507', 'zai-glm-4.6'],
+  getApiKey: settings => settings.cerebrasApiKey,
+  jsonOutput: 'json-schema',
+});
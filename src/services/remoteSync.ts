@@ -0,0 +1,415 @@
+// src/services/remoteSync.ts
+import { APISettings, Conversation, Flowchart, Folder, Note, ReviewCard, StudySession } from '../types';
+import { decryptText, deriveKey, encryptText, fromBase64, PBKDF2_ITERATIONS, SALT_BYTES, toBase64 } from '../utils/crypto';
+import { getChangedAt } from '../utils/helpers';
+import { EntityStore } from '../utils/database';
+import { applySecrets, extractSecrets, stripSecrets } from '../utils/keyVault';
+import { storageUtils, toConversation, toFlowchart, toFolder, toNote, toReviewCard, toStudySession } from '../utils/storage';
+import { BackupData } from './backup';
+import { createRestAdapter } from './restSyncAdapter';
+import { EncryptionMeta, RemoteRecord, SyncAdapter, SyncError, SyncStore } from './syncAdapter';
+
+const CONFIG_KEY = 'ai-tutor-sync';
+const STATE_KEY = 'ai-tutor-sync-state';
+const LOCK_NAME = 'ai-tutor-remote-sync';
+// Encrypted into EncryptionMeta.check to verify a passphrase
+const KEY_CHECK_TEXT = 'ai-tutor-sync';
+const SETTINGS_ID = 'settings';
+
+export interface SyncConfig {
+  serverUrl: string;
+  // Bearer token the server expects; empty for none
+  token: string;
+  // Encrypt every record with a key derived from the sync passphrase
+  encrypted: boolean;
+}
+
+export type SyncStatus = 'disabled' | 'locked' | 'ready';
+
+interface SyncState {
+  cursor: number;
+  lastSyncedAt?: string;
+  // `${store}:${id}` -> change time (see getChangedAt) of the version the
+  // server has. A local record whose change time differs has changed since
+  // the last sync.
+  known: Record<string, string>;
+}
+
+export interface EntityChanges<T> {
+  records: T[];
+  removed: string[];
+}
+
+export interface SyncChanges {
+  conversations: EntityChanges<Conversation>;
+  notes: EntityChanges<Note>;
+  flowcharts: EntityChanges<Flowchart>;
+  folders: EntityChanges<Folder>;
+  quizSessions: EntityChanges<StudySession>;
+  reviewCards: EntityChanges<ReviewCard>;
+}
+
+export interface SyncInput {
+  data: BackupData;
+  settings: APISettings;
+}
+
+export interface SyncResult {
+  changes: SyncChanges;
+  // Newer settings from another device, already merged with this device's keys
+  settings?: { value: APISettings; updatedAt: Date };
+  pulled: number;
+  pushed: number;
+  // Records changed on both sides since the last sync
+  conflicts: number;
+}
+
+// Derived from the sync passphrase for this page session; never persisted
+let sessionKey: CryptoKey | null = null;
+
+// What the engine needs of every synced entity
+type SyncedRecord = { id: string; updatedAt: Date; changedAt?: Date };
+
+const parsers: Record<EntityStore, (record: unknown) => SyncedRecord> = {
+  conversations: toConversation,
+  notes: toNote,
+  flowcharts: toFlowchart,
+  folders: toFolder,
+  quizSessions: toStudySession,
+  reviewCards: toReviewCard,
+};
+
+function readConfig(): SyncConfig | null {
+  try {
+    const stored = localStorage.getItem(CONFIG_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading sync settings:', error);
+    return null;
+  }
+}
+
+function readState(): SyncState {
+  try {
+    const stored = localStorage.getItem(STATE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    console.error('Error reading sync state:', error);
+  }
+  return { cursor: 0, known: {} };
+}
+
+function writeState(state: SyncState): void {
+  localStorage.setItem(STATE_KEY, JSON.stringify(state));
+}
+
+async function keyFromMeta(meta: EncryptionMeta, passphrase: string): Promise<CryptoKey> {
+  const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  try {
+    if (await decryptText(key, meta.check) === KEY_CHECK_TEXT) return key;
+  } catch {
+    // fall through: GCM fails the same way for a wrong key and for tampered data
+  }
+  throw new SyncError('Wrong sync passphrase');
+}
+
+// The first device to connect with encryption chooses the salt; later ones reuse it
+async function setUpEncryption(adapter: SyncAdapter, passphrase: string): Promise<CryptoKey> {
+  const { encryption } = await adapter.getMeta();
+  if (encryption) return keyFromMeta(encryption, passphrase);
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  await adapter.setMeta({
+    encryption: { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check: await encryptText(key, KEY_CHECK_TEXT) },
+  });
+  return key;
+}
+
+async function encode(store: SyncStore, id: string, updatedAt: Date, value: unknown): Promise<RemoteRecord> {
+  const json = JSON.stringify(value);
+  const record: RemoteRecord = { store, id, updatedAt: updatedAt.toISOString() };
+  if (sessionKey) return { ...record, encrypted: true, payload: await encryptText(sessionKey, json) };
+  return { ...record, payload: json };
+}
+
+async function decode(record: RemoteRecord): Promise<unknown> {
+  if (!record.payload) throw new SyncError(`Record ${record.id} has no content`);
+  if (!record.encrypted) return JSON.parse(record.payload);
+  if (!sessionKey) throw new SyncError('Unlock sync to read encrypted records');
+  return JSON.parse(await decryptText(sessionKey, record.payload));
+}
+
+// Both devices changed the conversation: keep every message from both, so no
+// turn is lost (the other side's shows up as a branch). The newer copy's
+// title and active branch win; the merge is a new version, so it is pushed.
+function mergeConversations(local: Conversation, remote: Conversation): Conversation {
+  const [newer, older] = getChangedAt(remote).getTime() > getChangedAt(local).getTime() ? [remote, local] : [local, remote];
+  const ids = new Set(newer.messages.map(message => message.id));
+  return {
+    ...newer,
+    messages: [...newer.messages, ...older.messages.filter(message => !ids.has(message.id))],
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * One pull-then-push round against the server:
+ * 1. Pull what changed since the last cursor. Records this device did not
+ *    change are taken as they are; for records changed on both sides,
+ *    conversations are merged and anything else keeps the later change.
+ *    Tombstones delete unless the local copy was edited after the deletion.
+ * 2. Push every record and tombstone whose change time the server doesn't have.
+ *    Records the server refuses as older are resolved like pulled conflicts
+ *    and go out again next round.
+ */
+async function runSync(adapter: SyncAdapter, config: SyncConfig, input: SyncInput): Promise<SyncResult> {
+  const state = readState();
+  const known = { ...state.known };
+  const local: Record<EntityStore, Map<string, SyncedRecord>> = {
+    conversations: new Map(input.data.conversations.map(item => [item.id, item])),
+    notes: new Map(input.data.notes.map(item => [item.id, item])),
+    flowcharts: new Map(input.data.flowcharts.map(item => [item.id, item])),
+    folders: new Map(input.data.folders.map(item => [item.id, item])),
+    quizSessions: new Map(input.data.quizSessions.map(item => [item.id, item])),
+    reviewCards: new Map(input.data.reviewCards.map(item => [item.id, item])),
+  };
+  const tombstones = new Map((await storageUtils.getTombstones()).map(tombstone => [tombstone.id, tombstone]));
+  const changed: Record<EntityStore, Map<string, SyncedRecord>> = {
+    conversations: new Map(),
+    notes: new Map(),
+    flowcharts: new Map(),
+    folders: new Map(),
+    quizSessions: new Map(),
+    reviewCards: new Map(),
+  };
+  const removed: Record<EntityStore, Set<string>> = {
+    conversations: new Set(),
+    notes: new Set(),
+    flowcharts: new Set(),
+    folders: new Set(),
+    quizSessions: new Set(),
+    reviewCards: new Set(),
+  };
+  let settingsUpdatedAt = storageUtils.getSettingsUpdatedAt();
+  let syncedSettings: SyncResult['settings'];
+  let conflicts = 0;
+
+  const applyRemote = async (record: RemoteRecord) => {
+    const key = `${record.store}:${record.id}`;
+    const remoteTime = new Date(record.updatedAt).getTime();
+
+    if (record.store === 'settings') {
+      if (record.deleted || remoteTime <= settingsUpdatedAt.getTime()) return;
+      if (known[key] !== settingsUpdatedAt.toISOString()) conflicts++;
+      // Keys missing from the synced copy (e.g. sync without encryption) stay as they are here
+      const value = applySecrets({ ...input.settings, ...(await decode(record) as APISettings) }, extractSecrets(input.settings));
+      settingsUpdatedAt = new Date(record.updatedAt);
+      syncedSettings = { value, updatedAt: settingsUpdatedAt };
+      known[key] = record.updatedAt;
+      return;
+    }
+
+    const store = record.store;
+    const current = local[store].get(record.id);
+    const tombstone = tombstones.get(key);
+    const localChanged = current
+      ? known[key] !== getChangedAt(current).toISOString()
+      : !!tombstone && known[key] !== tombstone.deletedAt.toISOString();
+
+    if (record.deleted) {
+      if (current && localChanged && getChangedAt(current).getTime() > remoteTime) {
+        conflicts++;
+        return;
+      }
+      if (current) {
+        local[store].delete(record.id);
+        changed[store].delete(record.id);
+        removed[store].add(record.id);
+      }
+      tombstones.delete(key);
+      known[key] = record.updatedAt;
+      return;
+    }
+
+    let incoming: SyncedRecord;
+    try {
+      incoming = parsers[store](await decode(record));
+    } catch (error) {
+      if (error instanceof SyncError) throw error;
+      console.error(`Skipping unreadable synced record ${key}:`, error);
+      return;
+    }
+
+    let result = incoming;
+    if (localChanged && (!current || JSON.stringify(current) !== JSON.stringify(incoming))) {
+      const localTime = current ? getChangedAt(current).getTime() : tombstone!.deletedAt.getTime();
+      conflicts++;
+      if (current && store === 'conversations') {
+        result = mergeConversations(current as Conversation, incoming as Conversation);
+      } else if (localTime > remoteTime) {
+        // Ours is newer (or was deleted later); it is pushed below
+        return;
+      }
+    }
+    local[store].set(record.id, result);
+    changed[store].set(record.id, result);
+    removed[store].delete(record.id);
+    tombstones.delete(key);
+    known[key] = record.updatedAt;
+  };
+
+  // 1. Pull
+  const pulled = await adapter.pull(state.cursor);
+  for (const record of pulled.records) {
+    // Skips the echo of our own earlier pushes
+    if (known[`${record.store}:${record.id}`] === record.updatedAt) continue;
+    await applyRemote(record);
+  }
+
+  // 2. Push
+  const outgoing: RemoteRecord[] = [];
+  for (const store of Object.keys(local) as EntityStore[]) {
+    for (const item of local[store].values()) {
+      const changedAt = getChangedAt(item);
+      if (known[`${store}:${item.id}`] !== changedAt.toISOString()) {
+        outgoing.push(await encode(store, item.id, changedAt, item));
+      }
+    }
+  }
+  tombstones.forEach(tombstone => {
+    const updatedAt = tombstone.deletedAt.toISOString();
+    if (known[tombstone.id] !== updatedAt) {
+      outgoing.push({ store: tombstone.store, id: tombstone.recordId, updatedAt, deleted: true });
+    }
+  });
+  const settingsKey = `settings:${SETTINGS_ID}`;
+  if (settingsUpdatedAt.getTime() > 0 && known[settingsKey] !== settingsUpdatedAt.toISOString()) {
+    // API keys only leave the device encrypted
+    const settings = config.encrypted ? input.settings : stripSecrets(input.settings);
+    outgoing.push(await encode('settings', SETTINGS_ID, settingsUpdatedAt, settings));
+  }
+
+  let pushed = 0;
+  if (outgoing.length > 0) {
+    const { conflicts: refused } = await adapter.push(outgoing);
+    const refusedKeys = new Set(refused.map(record => `${record.store}:${record.id}`));
+    outgoing.forEach(record => {
+      const key = `${record.store}:${record.id}`;
+      if (refusedKeys.has(key)) return;
+      known[key] = record.updatedAt;
+      pushed++;
+    });
+    for (const record of refused) await applyRemote(record);
+    await storageUtils.deleteTombstones(
+      outgoing.filter(record => record.deleted && !refusedKeys.has(`${record.store}:${record.id}`)).map(record => `${record.store}:${record.id}`)
+    );
+  }
+
+  writeState({ cursor: pulled.cursor, lastSyncedAt: new Date().toISOString(), known });
+
+  const toChanges = <T>(store: EntityStore): EntityChanges<T> => ({
+    records: [...changed[store].values()] as T[],
+    removed: [...removed[store]],
+  });
+  return {
+    changes: {
+      conversations: toChanges<Conversation>('conversations'),
+      notes: toChanges<Note>('notes'),
+      flowcharts: toChanges<Flowchart>('flowcharts'),
+      folders: toChanges<Folder>('folders'),
+      quizSessions: toChanges<StudySession>('quizSessions'),
+      reviewCards: toChanges<ReviewCard>('reviewCards'),
+    },
+    settings: syncedSettings,
+    pulled: pulled.records.length,
+    pushed,
+    conflicts,
+  };
+}
+
+/**
+ * Applies a sync result to the current list. Items edited while the sync
+ * ran (no longer the object that was synced) are kept; they go out next round.
+ */
+export function applySyncChanges<T extends { id: string }>(items: T[], synced: T[], changes: EntityChanges<T>): T[] {
+  if (changes.records.length === 0 && changes.removed.length === 0) return items;
+  const syncedById = new Map(synced.map(item => [item.id, item]));
+  const updates = new Map(changes.records.map(record => [record.id, record]));
+  const removedIds = new Set(changes.removed);
+  const isUntouched = (item: T) => syncedById.get(item.id) === item;
+
+  const result: T[] = [];
+  items.forEach(item => {
+    const update = updates.get(item.id);
+    updates.delete(item.id);
+    if (removedIds.has(item.id) && isUntouched(item)) return;
+    result.push(update && isUntouched(item) ? update : item);
+  });
+  // New records; skip ones deleted here while the sync ran
+  updates.forEach(record => {
+    if (!syncedById.has(record.id)) result.unshift(record);
+  });
+  return result;
+}
+
+/**
+ * Optional sync of conversations, notes, flowcharts, folders, quiz history,
+ * review cards and settings through a server (see SyncAdapter). With encryption on, records are
+ * encrypted on the device with AES-GCM under a key derived from the sync
+ * passphrase, which is entered once per session like the key vault's.
+ */
+export const remoteSync = {
+  getConfig(): SyncConfig | null {
+    return readConfig();
+  },
+
+  getStatus(): SyncStatus {
+    const config = readConfig();
+    if (!config) return 'disabled';
+    return config.encrypted && !sessionKey ? 'locked' : 'ready';
+  },
+
+  getLastSyncedAt(): Date | null {
+    const { lastSyncedAt } = readState();
+    return lastSyncedAt ? new Date(lastSyncedAt) : null;
+  },
+
+  // Checks the server and the passphrase, then starts from an empty sync state
+  async connect(config: SyncConfig, passphrase: string): Promise<void> {
+    const adapter = createRestAdapter(config.serverUrl, config.token);
+    if (config.encrypted) {
+      sessionKey = await setUpEncryption(adapter, passphrase);
+    } else {
+      const { encryption } = await adapter.getMeta();
+      if (encryption) throw new SyncError('This server holds encrypted data; turn on encryption and enter its passphrase');
+      sessionKey = null;
+    }
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+    writeState({ cursor: 0, known: {} });
+  },
+
+  async unlock(passphrase: string): Promise<void> {
+    const config = readConfig();
+    if (!config) throw new SyncError('Sync is not set up');
+    const { encryption } = await createRestAdapter(config.serverUrl, config.token).getMeta();
+    if (!encryption) throw new SyncError('The sync server has no encryption settings; connect again');
+    sessionKey = await keyFromMeta(encryption, passphrase);
+  },
+
+  disconnect(): void {
+    sessionKey = null;
+    localStorage.removeItem(CONFIG_KEY);
+    localStorage.removeItem(STATE_KEY);
+  },
+
+  // Resolves to null when another tab is already syncing
+  async sync(input: SyncInput): Promise<SyncResult | null> {
+    const config = readConfig();
+    if (!config) throw new SyncError('Sync is not set up');
+    if (config.encrypted && !sessionKey) throw new SyncError('Unlock sync first');
+    const adapter = createRestAdapter(config.serverUrl, config.token);
+    if (!navigator.locks) return runSync(adapter, config, input);
+    return navigator.locks.request(LOCK_NAME, { ifAvailable: true }, lock => (lock ? runSync(adapter, config, input) : null));
+  },
+};
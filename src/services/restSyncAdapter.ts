@@ -0,0 +1,37 @@
+// src/services/restSyncAdapter.ts
+import { PullResult, PushResult, RemoteRecord, SyncAdapter, SyncError, SyncMeta } from './syncAdapter';
+
+// Talks to server/sync-server.mjs or anything implementing the same four routes
+export function createRestAdapter(serverUrl: string, token: string): SyncAdapter {
+  const baseUrl = serverUrl.trim().replace(/\/+$/, '');
+
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+      });
+    } catch {
+      throw new SyncError(`Could not reach the sync server at ${baseUrl}`);
+    }
+    if (response.status === 401) throw new SyncError('The sync server rejected the access token');
+    if (response.status === 409) throw new SyncError('The sync server already uses a different encryption passphrase');
+    if (!response.ok) {
+      throw new SyncError(`Sync server error ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+    return response.json();
+  };
+
+  return {
+    getMeta: () => request<SyncMeta>('/v1/meta'),
+    setMeta: async meta => {
+      await request('/v1/meta', { method: 'PUT', body: JSON.stringify(meta) });
+    },
+    pull: cursor => request<PullResult>(`/v1/changes?since=${cursor}`),
+    push: (records: RemoteRecord[]) => request<PushResult>('/v1/changes', { method: 'POST', body: JSON.stringify({ records }) }),
+  };
+}
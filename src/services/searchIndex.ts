@@ -0,0 +1,286 @@
+// src/services/searchIndex.ts
+import { Conversation, Flowchart, Note } from '../types';
+import { stem } from '../utils/stemmer';
+
+// Where a search result leads
+export type SearchTarget =
+  | { type: 'conversation'; conversationId: string }
+  | { type: 'message'; conversationId: string; messageId: string }
+  | { type: 'note'; noteId: string }
+  | { type: 'flowchart'; flowchartId: string }
+  | { type: 'flowchartNode'; flowchartId: string; nodeId: string };
+
+export interface SnippetPart {
+  text: string;
+  isMatch: boolean;
+}
+
+export interface SearchResult {
+  key: string;
+  target: SearchTarget;
+  // Title of the conversation, note or flowchart the match is in
+  title: string;
+  snippet: SnippetPart[];
+  score: number;
+}
+
+interface IndexedDocument {
+  target: SearchTarget;
+  // Key into `titles`, so renaming a conversation doesn't reindex its messages
+  titleKey: string;
+  text: string;
+  // Matches in titles count double
+  weight: number;
+  terms: Map<string, number>;
+  length: number;
+  // The object the document was built from; a new object means it changed
+  source: object;
+}
+
+interface DocumentInput {
+  key: string;
+  source: object;
+  target: SearchTarget;
+  titleKey: string;
+  text: string;
+  weight?: number;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}\p{M}]+/gu;
+const MAX_RESULTS = 50;
+const SNIPPET_LENGTH = 140;
+const SNIPPET_LEAD = 40;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Lowercase with accents removed, so "Théorème" matches "theoreme"
+function normalize(word: string): string {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+function isIndexable(word: string): boolean {
+  return word.length > 1 || /\d/.test(word);
+}
+
+function tokenize(text: string): string[] {
+  return (text.match(WORD_PATTERN) ?? []).map(normalize).filter(isIndexable);
+}
+
+// Cut around the first match, with matched words marked for highlighting
+function buildSnippet(text: string, matchedTerms: Set<string>): SnippetPart[] {
+  const matches: { start: number; end: number }[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (matchedTerms.has(stem(normalize(match[0])))) {
+      matches.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  let start = matches.length > 0 ? Math.max(0, matches[0].start - SNIPPET_LEAD) : 0;
+  if (start > 0) {
+    const wordStart = text.indexOf(' ', start);
+    if (wordStart !== -1 && wordStart < matches[0].start) start = wordStart + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const parts: SnippetPart[] = [];
+  const push = (from: number, to: number, isMatch: boolean) => {
+    if (to > from) parts.push({ text: text.slice(from, to).replace(/\s+/g, ' '), isMatch });
+  };
+  let position = start;
+  matches.filter(m => m.start >= start && m.end <= end).forEach(m => {
+    push(position, m.start, false);
+    push(m.start, m.end, true);
+    position = m.end;
+  });
+  push(position, end, false);
+
+  if (start > 0) parts.unshift({ text: '…', isMatch: false });
+  if (end < text.length) parts.push({ text: '…', isMatch: false });
+  return parts;
+}
+
+function documentInputs(conversations: Conversation[], notes: Note[], flowcharts: Flowchart[]): DocumentInput[] {
+  const inputs: DocumentInput[] = [];
+  conversations.forEach(conversation => {
+    const titleKey = `conversation:${conversation.id}`;
+    inputs.push({
+      key: titleKey,
+      source: conversation,
+      target: { type: 'conversation', conversationId: conversation.id },
+      titleKey,
+      text: conversation.title,
+      weight: 2,
+    });
+    // Every branch is indexed; opening a result switches to the branch it is on
+    conversation.messages.forEach(message => inputs.push({
+      key: `message:${conversation.id}:${message.id}`,
+      source: message,
+      target: { type: 'message', conversationId: conversation.id, messageId: message.id },
+      titleKey,
+      text: message.content,
+    }));
+  });
+  notes.forEach(note => inputs.push({
+    key: `note:${note.id}`,
+    source: note,
+    target: { type: 'note', noteId: note.id },
+    titleKey: `note:${note.id}`,
+    text: `${note.title}\n${note.content}`,
+  }));
+  flowcharts.forEach(flowchart => {
+    const titleKey = `flowchart:${flowchart.id}`;
+    inputs.push({
+      key: titleKey,
+      source: flowchart,
+      target: { type: 'flowchart', flowchartId: flowchart.id },
+      titleKey,
+      text: [flowchart.title, flowchart.description].filter(Boolean).join('\n'),
+      weight: 2,
+    });
+    flowchart.nodes.forEach(node => inputs.push({
+      key: `node:${flowchart.id}:${node.id}`,
+      source: node,
+      target: { type: 'flowchartNode', flowchartId: flowchart.id, nodeId: node.id },
+      titleKey,
+      text: [node.label, node.description].filter(Boolean).join('\n'),
+    }));
+  });
+  return inputs;
+}
+
+/**
+ * Inverted index over conversation titles, message bodies, notes and
+ * flowchart nodes. `update` only retokenizes records whose object changed,
+ * so it can run on every state change; `search` ranks with BM25, requires
+ * every query word and treats the last one as a prefix while it is typed.
+ */
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  // term -> document key -> occurrences
+  private postings = new Map<string, Map<string, number>>();
+  // Every word seen -> its stem, for prefix matching
+  private vocabulary = new Map<string, string>();
+  private titles = new Map<string, string>();
+  private totalLength = 0;
+
+  update(conversations: Conversation[], notes: Note[], flowcharts: Flowchart[]): void {
+    this.titles = new Map([
+      ...conversations.map(c => [`conversation:${c.id}`, c.title] as const),
+      ...notes.map(n => [`note:${n.id}`, n.title] as const),
+      ...flowcharts.map(f => [`flowchart:${f.id}`, f.title] as const),
+    ]);
+
+    const seen = new Set<string>();
+    documentInputs(conversations, notes, flowcharts).forEach(input => {
+      seen.add(input.key);
+      if (this.documents.get(input.key)?.source === input.source) return;
+      this.remove(input.key);
+      this.add(input);
+    });
+    [...this.documents.keys()].forEach(key => {
+      if (!seen.has(key)) this.remove(key);
+    });
+  }
+
+  search(query: string): SearchResult[] {
+    const words = tokenize(query);
+    if (words.length === 0 || this.documents.size === 0) return [];
+    const isTypingLastWord = !/\s$/.test(query);
+
+    // The stems each query word may match
+    const alternatives = words.map((word, i) => {
+      const stems = new Set([stem(word)]);
+      if (i === words.length - 1 && isTypingLastWord) {
+        this.vocabulary.forEach((wordStem, known) => {
+          if (known.startsWith(word)) stems.add(wordStem);
+        });
+      }
+      return [...stems].filter(term => this.postings.has(term));
+    });
+    if (alternatives.some(stems => stems.length === 0)) return [];
+
+    const averageLength = this.totalLength / this.documents.size;
+    const scores = new Map<string, number>();
+    alternatives.forEach((stems, i) => {
+      const wordScores = new Map<string, number>();
+      stems.forEach(term => {
+        const postings = this.postings.get(term)!;
+        const idf = Math.log(1 + (this.documents.size - postings.size + 0.5) / (postings.size + 0.5));
+        postings.forEach((frequency, key) => {
+          const doc = this.documents.get(key)!;
+          const score = idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * doc.length / averageLength));
+          wordScores.set(key, Math.max(wordScores.get(key) ?? 0, score * doc.weight));
+        });
+      });
+      // Keep only documents that matched every earlier word too
+      if (i === 0) wordScores.forEach((score, key) => scores.set(key, score));
+      else {
+        scores.forEach((score, key) => {
+          const wordScore = wordScores.get(key);
+          if (wordScore === undefined) scores.delete(key);
+          else scores.set(key, score + wordScore);
+        });
+      }
+    });
+
+    const matchedTerms = new Set(alternatives.flat());
+    return [...scores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_RESULTS)
+      .map(([key, score]) => {
+        const doc = this.documents.get(key)!;
+        return {
+          key,
+          target: doc.target,
+          title: this.titles.get(doc.titleKey) ?? '',
+          snippet: buildSnippet(doc.text, matchedTerms),
+          score,
+        };
+      });
+  }
+
+  private add(input: DocumentInput): void {
+    const terms = new Map<string, number>();
+    const words = tokenize(input.text);
+    words.forEach(word => {
+      let wordStem = this.vocabulary.get(word);
+      if (wordStem === undefined) {
+        wordStem = stem(word);
+        this.vocabulary.set(word, wordStem);
+      }
+      terms.set(wordStem, (terms.get(wordStem) ?? 0) + 1);
+    });
+
+    terms.forEach((frequency, term) => {
+      let postings = this.postings.get(term);
+      if (!postings) {
+        postings = new Map();
+        this.postings.set(term, postings);
+      }
+      postings.set(input.key, frequency);
+    });
+    this.documents.set(input.key, {
+      target: input.target,
+      titleKey: input.titleKey,
+      text: input.text,
+      weight: input.weight ?? 1,
+      terms,
+      length: words.length,
+      source: input.source,
+    });
+    this.totalLength += words.length;
+  }
+
+  private remove(key: string): void {
+    const doc = this.documents.get(key);
+    if (!doc) return;
+    doc.terms.forEach((_, term) => {
+      const postings = this.postings.get(term);
+      postings?.delete(key);
+      if (postings?.size === 0) this.postings.delete(term);
+    });
+    this.documents.delete(key);
+    this.totalLength -= doc.length;
+  }
+}
@@ -0,0 +1,186 @@
+// src/services/structuredOutput.ts
+import { AIModel } from '../types';
+import { extractJson } from '../utils/helpers';
+import { aiService, ChatMessage } from './aiService';
+
+// The JSON Schema subset the validator understands. It is also what gets
+// sent to providers with schema-constrained decoding.
+export type SchemaNode =
+  | { type: 'string'; enum?: readonly string[]; minLength?: number; maxLength?: number }
+  | { type: 'number' | 'integer' }
+  | { type: 'boolean' }
+  | { type: 'array'; items: SchemaNode; minItems?: number; maxItems?: number }
+  | {
+      type: 'object';
+      properties: Record<string, SchemaNode>;
+      required?: readonly string[];
+      additionalProperties?: boolean;
+    };
+
+export interface ValidationIssue {
+  // e.g. `$.questions[2].answer`
+  path: string;
+  message: string;
+}
+
+export interface StructuredSchema<T> {
+  name: string;
+  schema: SchemaNode;
+  // Cross-field rules plain JSON Schema can't express; runs on schema-valid values
+  refine?: (value: T) => ValidationIssue[];
+  // Safe for strict provider-side decoding: every property required, no extras
+  strict?: boolean;
+}
+
+export interface StructuredRequest<T> {
+  messages: ChatMessage[];
+  systemPrompt?: string;
+  schema: StructuredSchema<T>;
+  // Defaults to the chat model
+  model?: AIModel;
+  temperature?: number;
+  signal?: AbortSignal;
+  // Re-prompts with the validation errors after the first attempt
+  maxRepairs?: number;
+}
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+// Keywords the local validator enforces but strict decoders commonly reject
+const VALIDATION_ONLY_KEYWORDS = ['minLength', 'maxLength', 'minItems', 'maxItems'];
+
+export class StructuredOutputError extends Error {
+  constructor(message: string, public readonly issues: ValidationIssue[]) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+export function validateSchema(value: unknown, node: SchemaNode, path = '$'): ValidationIssue[] {
+  const issue = (message: string): ValidationIssue[] => [{ path, message }];
+
+  switch (node.type) {
+    case 'string': {
+      if (typeof value !== 'string') return issue(`expected string, got ${describe(value)}`);
+      if (node.enum && !node.enum.includes(value)) {
+        return issue(`must be one of ${node.enum.map(v => `"${v}"`).join(', ')}, got "${value}"`);
+      }
+      if (node.minLength !== undefined && value.trim().length < node.minLength) {
+        return issue(node.minLength === 1 ? 'must not be empty' : `must be at least ${node.minLength} characters`);
+      }
+      if (node.maxLength !== undefined && value.length > node.maxLength) {
+        return issue(`must be at most ${node.maxLength} characters, got ${value.length}`);
+      }
+      return [];
+    }
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !isFinite(value)) return issue(`expected ${node.type}, got ${describe(value)}`);
+      if (node.type === 'integer' && !Number.isInteger(value)) return issue(`expected integer, got ${value}`);
+      return [];
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : issue(`expected boolean, got ${describe(value)}`);
+    case 'array': {
+      if (!Array.isArray(value)) return issue(`expected array, got ${describe(value)}`);
+      if (node.minItems !== undefined && value.length < node.minItems) {
+        return issue(`expected at least ${node.minItems} items, got ${value.length}`);
+      }
+      if (node.maxItems !== undefined && value.length > node.maxItems) {
+        return issue(`expected at most ${node.maxItems} items, got ${value.length}`);
+      }
+      return value.flatMap((item, i) => validateSchema(item, node.items, `${path}[${i}]`));
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return issue(`expected object, got ${describe(value)}`);
+      }
+      const record = value as Record<string, unknown>;
+      const missing = (node.required ?? [])
+        .filter(key => record[key] === undefined)
+        .map(key => ({ path: `${path}.${key}`, message: 'is required' }));
+      const invalid = Object.entries(node.properties)
+        .filter(([key]) => record[key] !== undefined)
+        .flatMap(([key, child]) => validateSchema(record[key], child, `${path}.${key}`));
+      return [...missing, ...invalid];
+    }
+  }
+}
+
+// Strips keywords strict decoders reject; the local validator still enforces them
+function toProviderSchema(node: SchemaNode): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (VALIDATION_ONLY_KEYWORDS.includes(key)) continue;
+    if (key === 'items') result[key] = toProviderSchema(value as SchemaNode);
+    else if (key === 'properties') {
+      result[key] = Object.fromEntries(
+        Object.entries(value as Record<string, SchemaNode>).map(([name, child]) => [name, toProviderSchema(child)])
+      );
+    } else result[key] = value;
+  }
+  return result;
+}
+
+function parseAndValidate<T>(text: string, schema: StructuredSchema<T>): { value?: T; issues: ValidationIssue[] } {
+  let parsed: unknown;
+  try {
+    parsed = extractJson(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unknown error';
+    return { issues: [{ path: '$', message: `not valid JSON (${reason})` }] };
+  }
+
+  const issues = validateSchema(parsed, schema.schema);
+  if (issues.length > 0) return { issues };
+
+  const value = parsed as T;
+  const refined = schema.refine?.(value) ?? [];
+  return refined.length > 0 ? { issues: refined } : { value, issues: [] };
+}
+
+function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map(i => `- ${i.path}: ${i.message}`).join('\n');
+}
+
+/**
+ * Requests JSON matching `schema`, validates it and, when it doesn't match,
+ * shows the model its own answer with the exact validation errors and asks
+ * for a corrected version. Throws StructuredOutputError once repairs run out.
+ */
+export async function generateStructured<T>(request: StructuredRequest<T>): Promise<T> {
+  const { schema, model, signal } = request;
+  const maxRepairs = request.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+  const messages = [...request.messages];
+  let issues: ValidationIssue[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const text = await aiService.generateChatCompletion(messages, request.systemPrompt ?? '', model, {
+      jsonMode: true,
+      jsonSchema: schema.strict ? { name: schema.name, schema: toProviderSchema(schema.schema) } : undefined,
+      temperature: request.temperature,
+      signal,
+    });
+
+    const result = parseAndValidate(text, schema);
+    if (result.value !== undefined) return result.value;
+
+    issues = result.issues;
+    console.warn(`Invalid ${schema.name} output (attempt ${attempt + 1}):\n${formatIssues(issues)}`);
+    messages.push(
+      { role: 'assistant', content: text },
+      {
+        role: 'user',
+        content: `Your JSON does not match the required format:\n${formatIssues(issues.slice(0, 20))}\n\nReturn the complete corrected JSON only, with no markdown or commentary.`,
+      }
+    );
+  }
+
+  throw new StructuredOutputError(`AI returned an invalid ${schema.name}:\n${formatIssues(issues.slice(0, 5))}`, issues);
+}
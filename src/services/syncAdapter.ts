@@ -0,0 +1,62 @@
+// src/services/syncAdapter.ts
+import { EntityStore } from '../utils/database';
+
+export type SyncStore = EntityStore | 'settings';
+
+// One record as the server stores it. The server only sees these fields;
+// with encryption on, `payload` is AES-GCM ciphertext.
+export interface RemoteRecord {
+  store: SyncStore;
+  id: string;
+  // The record's own updatedAt (or deletedAt for a tombstone), as ISO text
+  updatedAt: string;
+  deleted?: boolean;
+  encrypted?: boolean;
+  // The record as JSON, or "<iv>.<ciphertext>" when encrypted
+  payload?: string;
+}
+
+// What every device needs to derive the same key. `check` is a known text
+// encrypted with it, so a wrong passphrase is caught before any data is read.
+export interface EncryptionMeta {
+  salt: string;
+  iterations: number;
+  check: string;
+}
+
+export interface SyncMeta {
+  encryption: EncryptionMeta | null;
+}
+
+export interface PullResult {
+  records: RemoteRecord[];
+  // Pass to the next pull to get only what changed after this one
+  cursor: number;
+}
+
+export interface PushResult {
+  // Records the server kept because its copy is newer than the one pushed
+  conflicts: RemoteRecord[];
+}
+
+/**
+ * Transport between the sync engine (services/remoteSync) and a server.
+ * The server stores opaque records and answers "what changed since"; merging
+ * and encryption happen on the device.
+ */
+export interface SyncAdapter {
+  getMeta(): Promise<SyncMeta>;
+  // Refused by the server when different encryption settings already exist
+  setMeta(meta: SyncMeta): Promise<void>;
+  // Records the server received after `cursor`; 0 returns everything
+  pull(cursor: number): Promise<PullResult>;
+  // Stores each record unless the server has a newer one for the same id
+  push(records: RemoteRecord[]): Promise<PushResult>;
+}
+
+export class SyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
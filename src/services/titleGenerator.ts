@@ -1,15 +1,32 @@
 // src/services/titleGenerator.ts
-import { APISettings } from '../types';
+import { AIModel, APISettings } from '../types';
+import { isAbortError } from './aiService';
+import { providerRegistry } from './providers';
+import { generateStructured, StructuredSchema } from './structuredOutput';
+
+const TITLE_SCHEMA: StructuredSchema<{ title: string }> = {
+  name: 'title',
+  strict: true,
+  schema: {
+    type: 'object',
+    properties: { title: { type: 'string', minLength: 1, maxLength: 80 } },
+    required: ['title'],
+    additionalProperties: false,
+  },
+};
 
 /**
  * Generates a concise, descriptive title for a conversation using AI
  */
 export async function generateConversationTitleAI(
   firstMessage: string,
-  settings: APISettings
+  settings: APISettings,
+  signal?: AbortSignal
 ): Promise<string> {
+  const model = pickTitleModel(settings);
+
   // Fallback to simple extraction if no API key
-  if (!settings.googleApiKey && !settings.zhipuApiKey && !settings.mistralApiKey) {
+  if (!model) {
     return generateConversationTitleSimple(firstMessage);
   }
 
@@ -24,32 +41,19 @@ Requirements:
 - Be specific and clear
 - Use title case
 
-Return ONLY the title, nothing else.`;
+Return ONLY a JSON object of the form {"title": "Your Title Here"}.`;
 
   try {
-    // Use Google Gemini for fastest response
-    if (settings.googleApiKey) {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${settings.googleApiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ role: 'user', parts: [{ text: prompt }] }],
-          }),
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        const title = data.candidates?.[0]?.content?.parts?.[0]?.text?.trim();
-        
-        if (title && title.length > 0 && title.length <= 80) {
-          return title;
-        }
-      }
-    }
+    const { title } = await generateStructured({
+      messages: [{ role: 'user', content: prompt }],
+      schema: TITLE_SCHEMA,
+      model,
+      signal,
+      maxRepairs: 1,
+    });
+    return title.trim();
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('Error generating AI title:', error);
   }
 
@@ -57,6 +61,17 @@ Return ONLY the title, nothing else.`;
   return generateConversationTitleSimple(firstMessage);
 }
 
+/**
+ * Picks the model used for titles: Gemini Flash for the fastest response,
+ * otherwise the chat model, provided its provider has a key
+ */
+function pickTitleModel(settings: APISettings): AIModel | null {
+  const preferred: AIModel = 'gemini-2.5-flash';
+  if (providerRegistry.hasApiKey(settings, preferred)) return preferred;
+  if (providerRegistry.hasApiKey(settings, settings.selectedModel)) return settings.selectedModel;
+  return null;
+}
+
 /**
  * Simple fallback title generation without AI
  */
@@ -104,20 +119,22 @@ function generateConversationTitleSimple(firstMessage: string): string {
 export async function generateSmartTitle(
   firstMessage: string,
   settings: APISettings,
-  onTitleGenerated?: (title: string) => void
+  onTitleGenerated?: (title: string) => void,
+  signal?: AbortSignal
 ): Promise<string> {
   // Return simple title immediately
   const simpleTitle = generateConversationTitleSimple(firstMessage);
   
   // Try to generate AI title in background
-  if (settings.googleApiKey || settings.zhipuApiKey || settings.mistralApiKey) {
-    generateConversationTitleAI(firstMessage, settings)
+  if (pickTitleModel(settings)) {
+    generateConversationTitleAI(firstMessage, settings, signal)
       .then(aiTitle => {
         if (onTitleGenerated && aiTitle !== simpleTitle) {
           onTitleGenerated(aiTitle);
         }
       })
       .catch(err => {
+        if (isAbortError(err)) return;
         console.error('Background title generation failed:', err);
       });
   }
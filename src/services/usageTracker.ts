@@ -0,0 +1,105 @@
+// src/services/usageTracker.ts
+import { AIModel, TokenUsage, UsageLog, UsageTotals } from '../types';
+import { storageUtils } from '../utils/storage';
+
+// List prices in USD per million tokens (input, output). Free models and
+// custom endpoints are omitted and count as zero.
+const modelPrices: Partial<Record<AIModel, { input: number; output: number }>> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'mistral-large-latest': { input: 2, output: 6 },
+  'mistral-medium-latest': { input: 0.4, output: 2 },
+  'mistral-small-latest': { input: 0.1, output: 0.3 },
+  'codestral-latest': { input: 0.3, output: 0.9 },
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'openai/gpt-oss-20b': { input: 0.075, output: 0.3 },
+  'gpt-oss-120b': { input: 0.25, output: 0.69 },
+  'qwen-3-235b-a22b-instruct-2507': { input: 0.6, output: 1.2 },
+  'zai-glm-4.6': { input: 2.25, output: 2.75 },
+};
+
+// Fractions of a daily budget that trigger a warning
+const BUDGET_THRESHOLDS = [0.8, 1];
+
+// Days of history kept in the log
+const MAX_LOG_DAYS = 90;
+
+type BudgetListener = (message: string) => void;
+
+const budgetListeners = new Set<BudgetListener>();
+
+export const emptyUsageTotals: UsageTotals = { promptTokens: 0, completionTokens: 0, requests: 0, cost: 0 };
+
+export function getUsageCost(model: AIModel, usage: TokenUsage): number {
+  const price = modelPrices[model];
+  if (!price) return 0;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1000000;
+}
+
+export function addUsage(totals: UsageTotals | undefined, model: AIModel, usage: TokenUsage): UsageTotals {
+  const base = totals ?? emptyUsageTotals;
+  return {
+    promptTokens: base.promptTokens + usage.promptTokens,
+    completionTokens: base.completionTokens + usage.completionTokens,
+    requests: base.requests + 1,
+    cost: base.cost + getUsageCost(model, usage),
+  };
+}
+
+export function getTotalTokens(totals: UsageTotals): number {
+  return totals.promptTokens + totals.completionTokens;
+}
+
+// Local calendar date, so "today" matches the user's clock
+export function toDateKey(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Called with a message whenever a provider crosses part of its daily budget
+export function subscribeToBudgetWarnings(listener: BudgetListener): () => void {
+  budgetListeners.add(listener);
+  return () => {
+    budgetListeners.delete(listener);
+  };
+}
+
+/**
+ * Adds one request to today's totals for its provider and warns when the
+ * provider's daily token budget (if any) is nearly or fully used
+ */
+export function recordUsage(
+  provider: { id: string; name: string },
+  model: AIModel,
+  usage: TokenUsage,
+  budgets: Record<string, number>
+) {
+  const log = storageUtils.getUsageLog();
+  const today = toDateKey();
+  const day = log[today] ?? {};
+  const before = day[provider.id] ?? emptyUsageTotals;
+  const after = addUsage(before, model, usage);
+
+  const pruned: UsageLog = {};
+  Object.keys(log)
+    .sort()
+    .slice(-MAX_LOG_DAYS)
+    .forEach(key => { pruned[key] = log[key]; });
+  pruned[today] = { ...day, [provider.id]: after };
+  storageUtils.saveUsageLog(pruned);
+
+  const budget = budgets[provider.id];
+  if (!budget) return;
+
+  const crossed = BUDGET_THRESHOLDS.filter(
+    threshold => getTotalTokens(before) < budget * threshold && getTotalTokens(after) >= budget * threshold
+  ).pop();
+  if (crossed === undefined) return;
+
+  const message = crossed >= 1
+    ? `${provider.name} daily token budget exceeded (${getTotalTokens(after).toLocaleString()} / ${budget.toLocaleString()})`
+    : `${provider.name} has used ${Math.round(crossed * 100)}% of its daily token budget`;
+  budgetListeners.forEach(listener => listener(message));
+}
@@ -17,6 +17,7 @@ export type AIModel =
   // Google
   | 'gemini-2.5-pro'
   | 'gemini-2.5-flash'
+  | 'gemini-2.0-flash'
   | 'gemma-3-27b-it'
   // Mistral
   | 'mistral-large-latest'
@@ -31,15 +32,42 @@ export type AIModel =
   // Cerebras
   | 'gpt-oss-120b'
   | 'qwen-3-235b-a22b-instruct-2507'
-  | 'zai-glm-4.6';
+  | 'zai-glm-4.6'
+  // User-defined OpenAI-compatible endpoints: custom:<endpointId>/<model>
+  | `custom:${string}`;
+
+// Chat app an imported conversation came from
+export type ConversationSource = 'chatgpt' | 'claude' | 'generic';
 
 export interface Conversation {
   id: string;
   title: string;
+  // Every version of every message, linked by `parentId` (see utils/messageTree)
   messages: Message[];
+  // Last message of the branch being shown; defaults to the newest message
+  activeLeafId?: string;
   createdAt: Date;
   updatedAt: Date;
+  // Last change that leaves `updatedAt`, and so the list order, alone (e.g. a
+  // branch switch or a new tag); sync and tab merges go by the later of the two
+  changedAt?: Date;
   isPinned?: boolean;
+  // Tried in order when the selected model fails or has no API key
+  fallbackModels?: AIModel[];
+  // Rolling summary of older turns that no longer fit the context window
+  contextSummary?: ContextSummary;
+  // Running total of every chat reply, including regenerated ones
+  usage?: UsageTotals;
+  // Set for conversations imported from another app; undefined for native chats
+  source?: ConversationSource;
+  folderId?: string;
+  tags?: string[];
+}
+
+export interface ContextSummary {
+  content: string;
+  // Last message folded into the summary; everything after it is sent verbatim
+  upToMessageId: string;
 }
 
 export interface Message {
@@ -48,7 +76,57 @@ export interface Message {
   role: 'user' | 'assistant';
   timestamp: Date;
   model?: AIModel;
+  // Message this one answers or follows; null for the first message
+  parentId?: string | null;
   isEditing?: boolean;
+  // Generation was cancelled by the user; content holds the partial answer
+  isStopped?: boolean;
+  usage?: TokenUsage;
+  // Time from sending the request to the last chunk
+  latencyMs?: number;
+}
+
+// One model's answer in compare mode
+export interface ComparisonColumn {
+  message: Message;
+  isStreaming: boolean;
+  error?: string;
+}
+
+// Answers to one question streamed side by side until the user picks the one
+// that continues the conversation. Kept in memory only.
+export interface Comparison {
+  conversationId: string;
+  // The user message being answered
+  parentId: string;
+  columns: ComparisonColumn[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  // Counted locally because the provider did not report usage
+  estimated?: boolean;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  requests: number;
+  // Approximate, in USD, from list prices
+  cost: number;
+}
+
+// Daily totals per provider, keyed by local date (YYYY-MM-DD) then provider id
+export type UsageLog = Record<string, Record<string, UsageTotals>>;
+
+// An earlier version of a note, kept so edits can be compared and undone
+export interface NoteRevision {
+  id: string;
+  title: string;
+  content: string;
+  // When this version was put into the history
+  savedAt: Date;
 }
 
 export interface Note {
@@ -57,7 +135,32 @@ export interface Note {
   content: string;
   createdAt: Date;
   updatedAt: Date;
+  // See Conversation.changedAt
+  changedAt?: Date;
   sourceConversationId?: string;
+  isPinned?: boolean;
+  // Oldest first (see utils/notes)
+  revisions?: NoteRevision[];
+  folderId?: string;
+  tags?: string[];
+}
+
+// Folders are shared by conversations, notes and flowcharts (see utils/organize)
+export interface Folder {
+  id: string;
+  name: string;
+  // Null for a top-level folder
+  parentId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CustomEndpoint {
+  id: string;
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  models: string[];
 }
 
 export interface APISettings {
@@ -66,29 +169,108 @@ export interface APISettings {
   mistralApiKey: string;
   groqApiKey: string; 
   cerebrasApiKey: string; 
+  customEndpoints: CustomEndpoint[];
   selectedModel: AIModel;
   selectedTutorMode: TutorMode;
+  // Model for quiz generation; unset means the chat model
+  quizModel?: AIModel;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  // Daily token budget per provider id; a warning is shown as it runs out
+  dailyTokenBudgets: Record<string, number>;
 }
 
+// A quiz; saved once every question is answered (see utils/quizHistory)
 export interface StudySession {
   id: string;
   conversationId: string;
   questions: QuizQuestion[];
   currentQuestionIndex: number;
+  // Marks earned; fractional when questions got partial credit
   score: number;
   totalQuestions: number;
   isCompleted: boolean;
   createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+  // The session whose wrongly answered questions this one retakes
+  retakeOf?: string;
+}
+
+export type QuizQuestionType = 'multiple-choice' | 'true-false' | 'multi-select' | 'fill-blank' | 'ordering' | 'short-answer';
+
+// What a short answer is graded against, one mark scheme line at a time
+export interface RubricCriterion {
+  criterion: string;
+  points: number;
 }
 
+// Option index for multiple-choice and true-false, option indices for
+// multi-select (picked) and ordering (in the order given), text otherwise
+export type QuizAnswer = number | number[] | string;
+
 export interface QuizQuestion {
   id: string;
+  type: QuizQuestionType;
+  // Contains a ___ blank for fill-blank
   question: string;
+  // Choices, or for ordering the items in the order shown; empty for
+  // fill-blank and short-answer
   options: string[];
+  // Index into `options` for multiple-choice and true-false, -1 otherwise
   correctAnswer: number;
+  // Multi-select: every right option. Ordering: option indices in the right order
+  correctAnswers?: number[];
+  // Fill-blank: accepted answers, compared ignoring case and punctuation
+  acceptedAnswers?: string[];
+  // Short-answer: the mark scheme the model grades against, and a full-marks answer
+  rubric?: RubricCriterion[];
+  sampleAnswer?: string;
   explanation: string;
-  userAnswer?: number;
+  userAnswer?: QuizAnswer;
+  // Share of the marks earned, 0-1
+  credit?: number;
+  // Full marks
   isCorrect?: boolean;
+  // Short-answer: points given per rubric criterion and the model's comments
+  awardedPoints?: number[];
+  feedback?: string;
+  // From showing the question to answering it
+  timeMs?: number;
+}
+
+// How well a card was remembered, from forgotten to effortless
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewLogEntry {
+  reviewedAt: Date;
+  grade: ReviewGrade;
+  // Days until the next review that this grade set
+  interval: number;
+}
+
+// A spaced-repetition card from a quiz question or a note (see utils/reviewDeck)
+export interface ReviewCard {
+  id: string;
+  // `quiz:<conversationId>:<question>` or `note:<noteId>:<front>`; one card per key
+  sourceKey: string;
+  conversationId?: string;
+  noteId?: string;
+  front: string;
+  back: string;
+  // Quiz cards are answered by picking an option
+  options?: string[];
+  correctAnswer?: number;
+  explanation?: string;
+  // SM-2 scheduling state
+  ease: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: Date;
+  reviews: ReviewLogEntry[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 // Flowchart types
@@ -127,8 +309,13 @@ export interface Flowchart {
   edges: FlowchartEdge[];
   createdAt: Date;
   updatedAt: Date;
+  // See Conversation.changedAt
+  changedAt?: Date;
   sourceConversationId?: string;
   thumbnail?: string;
+  isPinned?: boolean;
+  folderId?: string;
+  tags?: string[];
 }
 
 export interface FlowchartViewport {
@@ -0,0 +1,47 @@
+// src/utils/crypto.ts
+
+// OWASP's recommended work factor for PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 310000;
+export const SALT_BYTES = 16;
+export const IV_BYTES = 12;
+
+// Spreading a large buffer into one call overflows the stack, so the binary
+// string is built in chunks
+const BASE64_CHUNK = 0x8000;
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + BASE64_CHUNK)));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), c => c.charCodeAt(0));
+}
+
+export async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// "<iv>.<ciphertext>" in base64, with a fresh IV for every call
+export async function encryptText(key: CryptoKey, text: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+// Rejects when the key is wrong or the data was changed
+export async function decryptText(key: CryptoKey, payload: string): Promise<string> {
+  const [iv, ciphertext] = payload.split('.');
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext ?? ''));
+  return new TextDecoder().decode(plaintext);
+}
@@ -0,0 +1,191 @@
+// src/utils/database.ts
+import { generateId } from './helpers';
+
+const DB_NAME = 'ai-tutor';
+
+export type EntityStore = 'conversations' | 'notes' | 'flowcharts' | 'folders' | 'quizSessions' | 'reviewCards';
+
+const QUARANTINE_STORE = 'quarantine';
+const TOMBSTONE_STORE = 'tombstones';
+
+// A record that could not be read, set aside instead of being deleted
+export interface QuarantinedRecord {
+  id: string;
+  store: EntityStore;
+  reason: string;
+  // The record as found, or the raw text when it was not valid JSON
+  data: unknown;
+  quarantinedAt: Date;
+}
+
+export interface QuarantineEntry {
+  // Primary key in `store`, when the record is moved out of the database
+  key?: IDBValidKey;
+  data: unknown;
+  reason: string;
+}
+
+// A deleted record, kept so remote sync can delete it on other devices too
+export interface Tombstone {
+  // `${store}:${recordId}`
+  id: string;
+  store: EntityStore;
+  recordId: string;
+  deletedAt: Date;
+}
+
+function tombstoneId(store: EntityStore, recordId: IDBValidKey): string {
+  return `${store}:${String(recordId)}`;
+}
+
+// migrations[n] upgrades a version-n database to n + 1. Append only: the
+// database version is the number of migrations.
+const migrations: Array<(db: IDBDatabase, transaction: IDBTransaction) => void> = [
+  // 1: one record per entity, keyed by id
+  db => {
+    db.createObjectStore('conversations', { keyPath: 'id' });
+    db.createObjectStore('notes', { keyPath: 'id' });
+    db.createObjectStore('flowcharts', { keyPath: 'id' });
+    db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id' });
+  },
+  // 2: deletions, for remote sync
+  db => {
+    db.createObjectStore(TOMBSTONE_STORE, { keyPath: 'id' });
+  },
+  // 3: folders shared by conversations, notes and flowcharts
+  db => {
+    db.createObjectStore('folders', { keyPath: 'id' });
+  },
+  // 4: completed quizzes
+  db => {
+    db.createObjectStore('quizSessions', { keyPath: 'id' });
+  },
+  // 5: spaced-repetition cards
+  db => {
+    db.createObjectStore('reviewCards', { keyPath: 'id' });
+  },
+];
+
+const DB_VERSION = migrations.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          migrations[version](request.result, request.transaction!);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version open in another tab upgrade the schema
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+export async function getAllRecords(store: EntityStore): Promise<unknown[]> {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAll());
+}
+
+// Writes and deletes in one transaction, so a failed save changes nothing.
+// Each delete leaves a tombstone; writing the record again removes it.
+export async function writeRecords(store: EntityStore, puts: { id: string }[], deleteKeys: IDBValidKey[] = []): Promise<void> {
+  if (puts.length === 0 && deleteKeys.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction([store, TOMBSTONE_STORE], 'readwrite');
+  const objectStore = transaction.objectStore(store);
+  const tombstones = transaction.objectStore(TOMBSTONE_STORE);
+  const deletedAt = new Date();
+  deleteKeys.forEach(key => {
+    objectStore.delete(key);
+    const tombstone: Tombstone = { id: tombstoneId(store, key), store, recordId: String(key), deletedAt };
+    tombstones.put(tombstone);
+  });
+  puts.forEach(record => {
+    objectStore.put(record);
+    tombstones.delete(tombstoneId(store, record.id));
+  });
+  await transactionToPromise(transaction);
+}
+
+export async function getTombstones(): Promise<Tombstone[]> {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(TOMBSTONE_STORE, 'readonly').objectStore(TOMBSTONE_STORE).getAll());
+}
+
+// Drops tombstones the sync server already has
+export async function deleteTombstones(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(TOMBSTONE_STORE, 'readwrite');
+  ids.forEach(id => transaction.objectStore(TOMBSTONE_STORE).delete(id));
+  await transactionToPromise(transaction);
+}
+
+// Moves unreadable records from `store` into the quarantine store
+export async function quarantineRecords(store: EntityStore, entries: QuarantineEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction([store, QUARANTINE_STORE], 'readwrite');
+  entries.forEach(entry => {
+    const record: QuarantinedRecord = {
+      id: generateId(),
+      store,
+      reason: entry.reason,
+      data: entry.data,
+      quarantinedAt: new Date(),
+    };
+    transaction.objectStore(QUARANTINE_STORE).put(record);
+    if (entry.key !== undefined) transaction.objectStore(store).delete(entry.key);
+  });
+  await transactionToPromise(transaction);
+  console.warn(`Quarantined ${entries.length} unreadable record(s) from ${store}:`, entries.map(e => e.reason));
+}
+
+export async function getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(QUARANTINE_STORE, 'readonly').objectStore(QUARANTINE_STORE).getAll());
+}
+
+export async function clearDatabase(): Promise<void> {
+  const db = await openDatabase();
+  const storeNames = Array.from(db.objectStoreNames);
+  const transaction = db.transaction(storeNames, 'readwrite');
+  storeNames.forEach(name => transaction.objectStore(name).clear());
+  await transactionToPromise(transaction);
+}
@@ -18,3 +18,51 @@ export function formatDate(date: Date): string {
     minute: '2-digit',
   }).format(date);
 }
+
+// Rough token count (~4 characters per token for English text and code).
+// Good enough for budgeting without shipping a tokenizer per provider.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Pulls the JSON value out of a model reply that may wrap it in code fences,
+// prose or trailing commas. Throws when nothing parseable is found.
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // fall through to the lenient paths
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = fenced ? fenced[1].trim() : trimmed;
+
+  const start = body.search(/[[{]/);
+  const end = body.lastIndexOf(body[start] === '[' ? ']' : '}');
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON found in the AI response');
+  }
+
+  const candidate = body.slice(start, end + 1);
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return JSON.parse(candidate.replace(/,\s*([}\]])/g, '$1'));
+  }
+}
+
+export function downloadFile(content: string, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// When a record last changed in any way; `changedAt` covers changes that
+// leave `updatedAt`, and so list order, alone
+export function getChangedAt(record: { updatedAt: Date; changedAt?: Date }): Date {
+  return record.changedAt && record.changedAt.getTime() > record.updatedAt.getTime() ? record.changedAt : record.updatedAt;
+}
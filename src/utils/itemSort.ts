@@ -0,0 +1,30 @@
+// src/utils/itemSort.ts
+
+// Chats, notes and flowcharts share the sidebar list
+export interface SidebarItem {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  isPinned?: boolean;
+  sourceConversationId?: string;
+  tags?: string[];
+}
+
+export type ItemSort = 'updated' | 'created' | 'title';
+
+export const itemSortLabels: Record<ItemSort, string> = {
+  updated: 'Last edited',
+  created: 'Date created',
+  title: 'Title',
+};
+
+// Pinned items first, then by the chosen order
+export function sortItems<T extends SidebarItem>(items: T[], sort: ItemSort): T[] {
+  return [...items].sort((a, b) => {
+    if (!!a.isPinned !== !!b.isPinned) return a.isPinned ? -1 : 1;
+    if (sort === 'title') return a.title.localeCompare(b.title);
+    const key = sort === 'created' ? 'createdAt' : 'updatedAt';
+    return new Date(b[key]).getTime() - new Date(a[key]).getTime();
+  });
+}
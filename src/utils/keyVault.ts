@@ -0,0 +1,155 @@
+// src/utils/keyVault.ts
+import { APISettings } from '../types';
+import { deriveKey, fromBase64, IV_BYTES, PBKDF2_ITERATIONS, SALT_BYTES, toBase64 } from './crypto';
+
+const VAULT_KEY = 'ai-tutor-vault';
+
+const PROVIDER_KEY_FIELDS = ['googleApiKey', 'zhipuApiKey', 'mistralApiKey', 'groqApiKey', 'cerebrasApiKey'] as const;
+
+type ProviderKeyField = typeof PROVIDER_KEY_FIELDS[number];
+
+// Everything in APISettings that must not be stored or exported in plaintext
+export interface ApiSecrets {
+  providerKeys: Partial<Record<ProviderKeyField, string>>;
+  // Custom endpoint id -> key
+  endpointKeys: Record<string, string>;
+}
+
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
+interface StoredVault {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+// Derived key and salt for this page session; never persisted
+let session: { key: CryptoKey; salt: Uint8Array; iterations: number } | null = null;
+
+function readVault(): StoredVault | null {
+  try {
+    const stored = localStorage.getItem(VAULT_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading key vault:', error);
+    return null;
+  }
+}
+
+async function writeVault(secrets: ApiSecrets): Promise<void> {
+  if (!session) throw new VaultError('The key vault is locked');
+  // A fresh IV for every encryption; reusing one with the same key breaks AES-GCM
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    session.key,
+    new TextEncoder().encode(JSON.stringify(secrets))
+  );
+  const vault: StoredVault = {
+    version: 1,
+    iterations: session.iterations,
+    salt: toBase64(session.salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+  localStorage.setItem(VAULT_KEY, JSON.stringify(vault));
+}
+
+export function extractSecrets(settings: APISettings): ApiSecrets {
+  const providerKeys: ApiSecrets['providerKeys'] = {};
+  PROVIDER_KEY_FIELDS.forEach(field => {
+    if (settings[field]) providerKeys[field] = settings[field];
+  });
+  const endpointKeys: Record<string, string> = {};
+  settings.customEndpoints.forEach(endpoint => {
+    if (endpoint.apiKey) endpointKeys[endpoint.id] = endpoint.apiKey;
+  });
+  return { providerKeys, endpointKeys };
+}
+
+export function stripSecrets(settings: APISettings): APISettings {
+  const stripped = { ...settings };
+  PROVIDER_KEY_FIELDS.forEach(field => {
+    stripped[field] = '';
+  });
+  stripped.customEndpoints = settings.customEndpoints.map(endpoint => ({ ...endpoint, apiKey: '' }));
+  return stripped;
+}
+
+// Fills in keys from `secrets`; keys already present in `settings` win
+export function applySecrets(settings: APISettings, secrets: ApiSecrets): APISettings {
+  const merged = { ...settings };
+  PROVIDER_KEY_FIELDS.forEach(field => {
+    merged[field] = settings[field] || secrets.providerKeys[field] || '';
+  });
+  merged.customEndpoints = settings.customEndpoints.map(endpoint => ({
+    ...endpoint,
+    apiKey: endpoint.apiKey || secrets.endpointKeys[endpoint.id] || '',
+  }));
+  return merged;
+}
+
+/**
+ * Optional passphrase protection for API keys. The keys are encrypted with
+ * AES-GCM under a PBKDF2-derived key; the derived key stays in memory, so the
+ * vault is unlocked once per session. Settings are stored without keys while
+ * the vault is enabled.
+ */
+export const keyVault = {
+  getStatus(): VaultStatus {
+    if (!readVault()) return 'disabled';
+    return session ? 'unlocked' : 'locked';
+  },
+
+  isEnabled(): boolean {
+    return readVault() !== null;
+  },
+
+  async enable(passphrase: string, settings: APISettings): Promise<void> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    session = { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt, iterations: PBKDF2_ITERATIONS };
+    await writeVault(extractSecrets(settings));
+  },
+
+  // Throws VaultError when the passphrase is wrong
+  async unlock(passphrase: string): Promise<ApiSecrets> {
+    const vault = readVault();
+    if (!vault) throw new VaultError('No key vault has been set up');
+
+    const salt = fromBase64(vault.salt);
+    const key = await deriveKey(passphrase, salt, vault.iterations);
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key, fromBase64(vault.ciphertext));
+    } catch {
+      // GCM authentication fails for a wrong key and for tampered data alike
+      throw new VaultError('Wrong passphrase');
+    }
+    session = { key, salt, iterations: vault.iterations };
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  },
+
+  // Re-encrypts the keys after they change; requires an unlocked vault
+  update(settings: APISettings): Promise<void> {
+    return writeVault(extractSecrets(settings));
+  },
+
+  lock(): void {
+    session = null;
+  },
+
+  // Removes the vault; the caller saves settings (with their keys) in plaintext again
+  disable(): void {
+    session = null;
+    localStorage.removeItem(VAULT_KEY);
+  },
+};
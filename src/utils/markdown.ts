@@ -0,0 +1,17 @@
+// src/utils/markdown.ts
+import { defaultUrlTransform, type Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { remarkWikiLinks, WIKI_HREF_PREFIX } from './wikiLinks';
+
+// The chat's Markdown pipeline; conversation exports use it too so they render the same
+export const remarkPlugins: Options['remarkPlugins'] = [remarkGfm, remarkMath];
+export const rehypePlugins: Options['rehypePlugins'] = [rehypeKatex];
+
+// In-app rendering also turns [[wiki links]] into links between items
+export const linkedRemarkPlugins: Options['remarkPlugins'] = [remarkGfm, remarkMath, remarkWikiLinks];
+
+// Keeps wiki link URLs, which the default transform would strip as an unknown protocol
+export const urlTransform: Options['urlTransform'] = url =>
+  url.startsWith(WIKI_HREF_PREFIX) ? url : defaultUrlTransform(url);
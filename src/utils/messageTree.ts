@@ -0,0 +1,68 @@
+// src/utils/messageTree.ts
+import { Conversation, Message } from '../types';
+
+// `Conversation.messages` holds every version of every message. Each message
+// points at its parent; siblings (same parent) are alternative versions, in
+// creation order. `activeLeafId` selects which branch is shown and sent.
+
+export interface BranchInfo {
+  index: number;
+  count: number;
+}
+
+function getParentId(message: Message): string | null {
+  return message.parentId ?? null;
+}
+
+function getChildren(messages: Message[], parentId: string | null): Message[] {
+  return messages.filter(m => getParentId(m) === parentId);
+}
+
+// The visible thread: root to the active leaf
+export function getActivePath(conversation: Conversation): Message[] {
+  const { messages } = conversation;
+  if (messages.length === 0) return [];
+
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const path: Message[] = [];
+  let current: Message | undefined = byId.get(conversation.activeLeafId ?? '') ?? messages[messages.length - 1];
+
+  while (current) {
+    path.push(current);
+    const parentId = getParentId(current);
+    current = parentId ? byId.get(parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+export function getActiveLeaf(conversation: Conversation): Message | undefined {
+  const path = getActivePath(conversation);
+  return path[path.length - 1];
+}
+
+export function getSiblings(conversation: Conversation, message: Message): Message[] {
+  return getChildren(conversation.messages, getParentId(message));
+}
+
+export function getBranchInfo(conversation: Conversation, message: Message): BranchInfo {
+  const siblings = getSiblings(conversation, message);
+  return { index: siblings.findIndex(m => m.id === message.id), count: siblings.length };
+}
+
+// Follows the newest child at each level, so switching back to a branch
+// lands on its most recent continuation
+export function getLatestLeafId(messages: Message[], messageId: string): string {
+  let leafId = messageId;
+  for (let children = getChildren(messages, leafId); children.length > 0; children = getChildren(messages, leafId)) {
+    leafId = children[children.length - 1].id;
+  }
+  return leafId;
+}
+
+// Shows the sibling `offset` steps away from `message` (e.g. -1 for "<")
+export function switchBranch(conversation: Conversation, message: Message, offset: number, now = new Date()): Conversation {
+  const siblings = getSiblings(conversation, message);
+  const target = siblings[siblings.findIndex(m => m.id === message.id) + offset];
+  if (!target) return conversation;
+  return { ...conversation, activeLeafId: getLatestLeafId(conversation.messages, target.id), changedAt: now };
+}
@@ -0,0 +1,36 @@
+import { AIModel, CustomEndpoint } from '../types';
+import { customModelId } from '../services/providers';
+
+export interface ModelOption {
+  id: AIModel;
+  icon: string;
+  name: string;
+}
+
+// How many models compare mode answers with at once
+export const MIN_COMPARE_MODELS = 2;
+export const MAX_COMPARE_MODELS = 4;
+
+// Models offered in the pickers, in display order
+export const builtInModels: ModelOption[] = [
+  { id: 'gpt-oss-120b', icon: '/openai.svg', name: 'GPT-OSS 120B' },
+  { id: 'llama-3.3-70b-versatile', icon: '/meta-color.svg', name: 'Llama 3.3 70B' },
+  { id: 'mistral-large-latest', icon: '/mistral-color.svg', name: 'Mistral Large' },
+  { id: 'mistral-medium-latest', icon: '/mistral-color.svg', name: 'Mistral Medium' },
+  { id: 'gemini-2.5-pro', icon: '/gemini-color.svg', name: 'Gemini 2.5 Pro' },
+  { id: 'gemini-2.5-flash', icon: '/gemini-color.svg', name: 'Gemini 2.5 Flash' },
+  { id: 'gemma-3-27b-it', icon: '/gemini-color.svg', name: 'Gemma 3 27B' },
+  { id: 'zai-glm-4.6', icon: '/zhipu-color.svg', name: 'ZAI GLM 4.6' },
+  { id: 'glm-4.5-flash', icon: '/zhipu-color.svg', name: 'GLM 4.5 Flash' },
+];
+
+export function getModelOptions(customEndpoints: CustomEndpoint[]): ModelOption[] {
+  return [
+    ...builtInModels,
+    ...customEndpoints.flatMap(endpoint => endpoint.models.map(model => ({
+      id: customModelId(endpoint.id, model),
+      icon: '/robot.png',
+      name: model,
+    }))),
+  ];
+}
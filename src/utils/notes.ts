@@ -0,0 +1,63 @@
+// src/utils/notes.ts
+import { Note, NoteRevision } from '../types';
+import { generateId } from './helpers';
+
+// Autosave runs every few seconds while typing; a revision is only kept once
+// the note has moved on this far from the previous one
+const REVISION_INTERVAL_MS = 10 * 60 * 1000;
+const MAX_REVISIONS = 50;
+const MAX_TITLE_LENGTH = 60;
+
+function stripMarkdown(line: string): string {
+  return line
+    .replace(/^\s*(#{1,6}|[-*+>]|\d+\.)\s+/, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~$]/g, '')
+    .trim();
+}
+
+// First heading or line of text, without Markdown, cut at a word boundary
+export function deriveNoteTitle(content: string): string {
+  const line = content
+    .split('\n')
+    .filter(l => !l.trim().startsWith('```'))
+    .map(stripMarkdown)
+    .find(l => l.length > 0);
+  if (!line) return 'Untitled note';
+  if (line.length <= MAX_TITLE_LENGTH) return line;
+  const cut = line.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim()}...`;
+}
+
+// The note's current version appended to its history, unless it is already the
+// latest. savedAt is when the revision was taken, so the interval in editNote
+// starts then rather than at an edit that may be days old.
+function withRevision(note: Note, now: Date): NoteRevision[] {
+  const revisions = note.revisions ?? [];
+  const last = revisions[revisions.length - 1];
+  if (last && last.title === note.title && last.content === note.content) return revisions;
+  const revision: NoteRevision = { id: generateId(), title: note.title, content: note.content, savedAt: now };
+  return [...revisions, revision].slice(-MAX_REVISIONS);
+}
+
+/**
+ * Applies an edit from the editor. The version being replaced becomes a
+ * revision on the first edit and whenever the last revision is more than
+ * REVISION_INTERVAL_MS old, so one sitting yields a revision or two rather
+ * than one per autosave.
+ */
+export function editNote(note: Note, changes: Pick<Note, 'title' | 'content'>, now = new Date()): Note {
+  if (changes.title === note.title && changes.content === note.content) return note;
+  const revisions = note.revisions ?? [];
+  const last = revisions[revisions.length - 1];
+  const isDue = !last || now.getTime() - new Date(last.savedAt).getTime() >= REVISION_INTERVAL_MS;
+  return { ...note, ...changes, updatedAt: now, revisions: isDue ? withRevision(note, now) : revisions };
+}
+
+// The current version is always kept first, so a restore can itself be undone
+export function restoreRevision(note: Note, revisionId: string, now = new Date()): Note {
+  const revision = note.revisions?.find(r => r.id === revisionId);
+  if (!revision) return note;
+  return { ...note, title: revision.title, content: revision.content, updatedAt: now, revisions: withRevision(note, now) };
+}
@@ -0,0 +1,121 @@
+// src/utils/organize.ts
+import { Folder } from '../types';
+
+// Conversations, notes and flowcharts share one folder tree and one set of
+// tags. An item whose folder no longer exists counts as unfiled. Filing and
+// tagging set `changedAt`, not `updatedAt`, so they don't reorder the lists.
+
+export type OrganizedEntity = 'conversations' | 'notes' | 'flowcharts';
+
+export interface OrganizedItem {
+  id: string;
+  updatedAt: Date;
+  changedAt?: Date;
+  folderId?: string;
+  tags?: string[];
+}
+
+// 'all' shows every item; 'unfiled' the ones in no folder
+export type FolderFilter = 'all' | 'unfiled' | string;
+
+// dataTransfer types for dragging items and folders in the sidebar
+export const ITEMS_DRAG_TYPE = 'application/x-ai-tutor-items';
+export const FOLDER_DRAG_TYPE = 'application/x-ai-tutor-folder';
+
+// Tags are compared in lowercase with single spaces
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function addTag<T extends OrganizedItem>(item: T, tag: string, now = new Date()): T {
+  const normalized = normalizeTag(tag);
+  if (!normalized || item.tags?.includes(normalized)) return item;
+  return { ...item, tags: [...(item.tags ?? []), normalized], changedAt: now };
+}
+
+export function removeTag<T extends OrganizedItem>(item: T, tag: string, now = new Date()): T {
+  if (!item.tags?.includes(tag)) return item;
+  const tags = item.tags.filter(t => t !== tag);
+  return { ...item, tags: tags.length > 0 ? tags : undefined, changedAt: now };
+}
+
+export function moveToFolder<T extends OrganizedItem>(item: T, folderId: string | null, now = new Date()): T {
+  if ((item.folderId ?? null) === folderId) return item;
+  return { ...item, folderId: folderId ?? undefined, changedAt: now };
+}
+
+// Every tag in use, alphabetically
+export function collectTags(items: OrganizedItem[]): string[] {
+  return [...new Set(items.flatMap(item => item.tags ?? []))].sort((a, b) => a.localeCompare(b));
+}
+
+export function getChildFolders(folders: Folder[], parentId: string | null): Folder[] {
+  return folders
+    .filter(folder => folder.parentId === parentId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// The folder and everything nested in it
+export function getFolderSubtree(folders: Folder[], folderId: string): Set<string> {
+  const subtree = new Set([folderId]);
+  let added = true;
+  while (added) {
+    added = false;
+    folders.forEach(folder => {
+      if (folder.parentId && subtree.has(folder.parentId) && !subtree.has(folder.id)) {
+        subtree.add(folder.id);
+        added = true;
+      }
+    });
+  }
+  return subtree;
+}
+
+// A folder can't move into itself or one of its subfolders
+export function canMoveFolder(folders: Folder[], folderId: string, parentId: string | null): boolean {
+  return parentId === null || !getFolderSubtree(folders, folderId).has(parentId);
+}
+
+// Root first, ending with the folder itself
+export function getFolderPath(folders: Folder[], folderId: string): Folder[] {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const path: Folder[] = [];
+  for (let folder = byId.get(folderId); folder && !path.includes(folder); folder = byId.get(folder.parentId ?? '')) {
+    path.unshift(folder);
+  }
+  return path;
+}
+
+/**
+ * Whether an item passes the sidebar filters: in the folder (or one of its
+ * subfolders) and carrying every selected tag
+ */
+export function createItemFilter(folders: Folder[], folderFilter: FolderFilter, tags: string[]): (item: OrganizedItem) => boolean {
+  const folderIds = new Set(folders.map(folder => folder.id));
+  const subtree = folderFilter === 'all' || folderFilter === 'unfiled' ? null : getFolderSubtree(folders, folderFilter);
+  return item => {
+    const folderId = item.folderId && folderIds.has(item.folderId) ? item.folderId : null;
+    if (folderFilter === 'unfiled' && folderId) return false;
+    if (subtree && (!folderId || !subtree.has(folderId))) return false;
+    return tags.every(tag => item.tags?.includes(tag));
+  };
+}
+
+// Items directly in each folder; unfiled items are counted under ''
+export function countByFolder(folders: Folder[], items: OrganizedItem[]): Map<string, number> {
+  const folderIds = new Set(folders.map(folder => folder.id));
+  const counts = new Map<string, number>();
+  items.forEach(item => {
+    const key = item.folderId && folderIds.has(item.folderId) ? item.folderId : '';
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return counts;
+}
+
+// Deleting a folder moves what it held (items and subfolders) up one level
+export function removeFolder(folders: Folder[], folderId: string, now = new Date()): Folder[] {
+  const parentId = folders.find(folder => folder.id === folderId)?.parentId ?? null;
+  return folders
+    .filter(folder => folder.id !== folderId)
+    .map(folder => (folder.parentId === folderId ? { ...folder, parentId, updatedAt: now } : folder));
+}
@@ -0,0 +1,140 @@
+// src/utils/quizHistory.ts
+import { QuizAnswer, QuizQuestion, StudySession } from '../types';
+import { generateId } from './helpers';
+import { gradeAnswer } from './quizQuestions';
+
+export interface QuizTrendPoint {
+  sessionId: string;
+  completedAt: Date;
+  // 0-100
+  percent: number;
+  isRetake: boolean;
+}
+
+export interface QuizSummary {
+  sessions: number;
+  // Percentages, over full quizzes only; retakes only hold the hard questions
+  average: number;
+  best: number;
+  latest: number;
+  averageTimeMs: number;
+}
+
+// `grade` carries the model's marks for a short answer
+export function answerQuestion(
+  question: QuizQuestion,
+  answer: QuizAnswer,
+  timeMs: number,
+  grade?: Pick<QuizQuestion, 'awardedPoints' | 'feedback'>
+): QuizQuestion {
+  const graded = { ...question, ...grade, userAnswer: answer, timeMs };
+  const credit = gradeAnswer(graded, answer);
+  return { ...graded, credit, isCorrect: credit === 1 };
+}
+
+// Questions answered before partial credit only have `isCorrect`
+export function getQuestionCredit(question: QuizQuestion): number {
+  return question.credit ?? (question.isCorrect ? 1 : 0);
+}
+
+export function getTotalCredit(questions: QuizQuestion[]): number {
+  return questions.reduce((total, question) => total + getQuestionCredit(question), 0);
+}
+
+// Questions without full marks, the ones a retake asks again
+export function countMissed(session: StudySession): number {
+  return session.questions.filter(question => !question.isCorrect).length;
+}
+
+// Partial credit shows as at most one decimal, e.g. 3.5
+export function formatScore(score: number): string {
+  return String(Math.round(score * 10) / 10);
+}
+
+export function getScorePercent(session: StudySession): number {
+  return session.totalQuestions > 0 ? Math.round((session.score / session.totalQuestions) * 100) : 0;
+}
+
+export function completeSession(session: StudySession, questions: QuizQuestion[], now = new Date()): StudySession {
+  return {
+    ...session,
+    questions,
+    currentQuestionIndex: questions.length - 1,
+    score: getTotalCredit(questions),
+    totalQuestions: questions.length,
+    isCompleted: true,
+    completedAt: now,
+    updatedAt: now,
+  };
+}
+
+// A new session with just the questions missed or given partial credit,
+// unanswered again
+export function createRetakeSession(session: StudySession): StudySession {
+  const questions = session.questions
+    .filter(question => !question.isCorrect)
+    .map((question): QuizQuestion => ({
+      id: generateId(),
+      type: question.type,
+      question: question.question,
+      options: question.options,
+      correctAnswer: question.correctAnswer,
+      ...(question.correctAnswers && { correctAnswers: question.correctAnswers }),
+      ...(question.acceptedAnswers && { acceptedAnswers: question.acceptedAnswers }),
+      ...(question.rubric && { rubric: question.rubric }),
+      ...(question.sampleAnswer !== undefined && { sampleAnswer: question.sampleAnswer }),
+      explanation: question.explanation,
+    }));
+  return {
+    id: generateId(),
+    conversationId: session.conversationId,
+    questions,
+    currentQuestionIndex: 0,
+    score: 0,
+    totalQuestions: questions.length,
+    isCompleted: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    retakeOf: session.id,
+  };
+}
+
+// Completed sessions of one conversation, oldest first
+export function getConversationSessions(sessions: StudySession[], conversationId: string): StudySession[] {
+  return sessions
+    .filter(session => session.conversationId === conversationId && session.isCompleted)
+    .sort((a, b) => (a.completedAt ?? a.createdAt).getTime() - (b.completedAt ?? b.createdAt).getTime());
+}
+
+export function getSessionDurationMs(session: StudySession): number {
+  return session.questions.reduce((total, question) => total + (question.timeMs ?? 0), 0);
+}
+
+export function getQuizTrend(sessions: StudySession[]): QuizTrendPoint[] {
+  return sessions.map(session => ({
+    sessionId: session.id,
+    completedAt: session.completedAt ?? session.createdAt,
+    percent: getScorePercent(session),
+    isRetake: !!session.retakeOf,
+  }));
+}
+
+export function summarizeQuizHistory(sessions: StudySession[]): QuizSummary | null {
+  const full = sessions.filter(session => !session.retakeOf);
+  if (full.length === 0) return null;
+  const percents = full.map(getScorePercent);
+  const answered = sessions.flatMap(session => session.questions).filter(question => question.timeMs !== undefined);
+  return {
+    sessions: sessions.length,
+    average: Math.round(percents.reduce((sum, percent) => sum + percent, 0) / percents.length),
+    best: Math.max(...percents),
+    latest: percents[percents.length - 1],
+    averageTimeMs: answered.length > 0 ? answered.reduce((sum, question) => sum + (question.timeMs ?? 0), 0) / answered.length : 0,
+  };
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
@@ -0,0 +1,102 @@
+// src/utils/quizQuestions.ts
+import { QuizAnswer, QuizQuestion, QuizQuestionType, RubricCriterion } from '../types';
+
+export const questionTypeLabels: Record<QuizQuestionType, string> = {
+  'multiple-choice': 'Multiple choice',
+  'true-false': 'True or false',
+  'multi-select': 'Select all that apply',
+  'fill-blank': 'Fill in the blank',
+  'ordering': 'Put in order',
+  'short-answer': 'Short answer',
+};
+
+// The gap in a fill-blank question
+export const BLANK_PATTERN = /_{3,}/;
+
+// Types answered by clicking an option, without a separate check step
+export function isSingleChoice(question: QuizQuestion): boolean {
+  return question.type === 'multiple-choice' || question.type === 'true-false';
+}
+
+// Case, surrounding punctuation and repeated spaces don't matter in typed answers
+export function normalizeAnswerText(text: string): string {
+  return text.trim().toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '').replace(/\s+/g, ' ');
+}
+
+// A random order of `length` indices, never the identity so there is something to sort
+export function shuffledOrder(length: number): number[] {
+  const order = Array.from({ length }, (_, i) => i);
+  if (length < 2) return order;
+  do {
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+  } while (order.every((value, i) => value === i));
+  return order;
+}
+
+export function getRubricCredit(rubric: RubricCriterion[], awardedPoints: number[]): number {
+  const total = rubric.reduce((sum, criterion) => sum + criterion.points, 0);
+  if (total === 0) return 0;
+  const earned = rubric.reduce((sum, criterion, i) => sum + Math.min(Math.max(awardedPoints[i] ?? 0, 0), criterion.points), 0);
+  return earned / total;
+}
+
+/**
+ * Share of the marks an answer earns, 0-1. Multi-select loses a right pick
+ * for every wrong one; ordering counts items in the right place. Short
+ * answers are graded by the model instead (see getRubricCredit).
+ */
+export function gradeAnswer(question: QuizQuestion, answer: QuizAnswer): number {
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false':
+      return answer === question.correctAnswer ? 1 : 0;
+    case 'multi-select': {
+      const correct = question.correctAnswers ?? [];
+      const picked = Array.isArray(answer) ? answer : [];
+      if (correct.length === 0) return 0;
+      const hits = picked.filter(index => correct.includes(index)).length;
+      return Math.max(0, hits - (picked.length - hits)) / correct.length;
+    }
+    case 'ordering': {
+      const correct = question.correctAnswers ?? [];
+      const order = Array.isArray(answer) ? answer : [];
+      if (correct.length === 0) return 0;
+      return correct.filter((index, position) => order[position] === index).length / correct.length;
+    }
+    case 'fill-blank': {
+      const given = typeof answer === 'string' ? normalizeAnswerText(answer) : '';
+      return given !== '' && (question.acceptedAnswers ?? []).some(accepted => normalizeAnswerText(accepted) === given) ? 1 : 0;
+    }
+    case 'short-answer':
+      return question.awardedPoints ? getRubricCredit(question.rubric ?? [], question.awardedPoints) : 0;
+  }
+}
+
+// The right answer as text, for history, review cards and retakes
+export function getCorrectAnswerText(question: QuizQuestion): string {
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false':
+      return question.options[question.correctAnswer] ?? '';
+    case 'multi-select':
+      return (question.correctAnswers ?? []).map(index => question.options[index]).join('\n');
+    case 'ordering':
+      return (question.correctAnswers ?? []).map((index, position) => `${position + 1}. ${question.options[index]}`).join('\n');
+    case 'fill-blank':
+      return (question.acceptedAnswers ?? []).join(' / ');
+    case 'short-answer':
+      return question.sampleAnswer ?? '';
+  }
+}
+
+export function getUserAnswerText(question: QuizQuestion): string {
+  const answer = question.userAnswer;
+  if (answer === undefined) return '';
+  if (typeof answer === 'string') return answer;
+  if (typeof answer === 'number') return question.options[answer] ?? '';
+  if (question.type === 'ordering') return answer.map((index, position) => `${position + 1}. ${question.options[index]}`).join('\n');
+  return answer.map(index => question.options[index]).join('\n');
+}
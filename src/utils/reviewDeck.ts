@@ -0,0 +1,186 @@
+// src/utils/reviewDeck.ts
+import { Note, ReviewCard, ReviewGrade, StudySession } from '../types';
+import { generateId } from './helpers';
+import { getQuestionCredit } from './quizHistory';
+import { getCorrectAnswerText, isSingleChoice } from './quizQuestions';
+
+// Scheduling is SM-2 (SuperMemo 2) with four grades. A forgotten card comes
+// back after RELEARN_DELAY_MS and starts its intervals over.
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export const gradeLabels: Record<ReviewGrade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+};
+
+// SM-2 answer quality (0-5); below 3 is a lapse
+const gradeQuality: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export interface NoteCardsResult {
+  cards: ReviewCard[];
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+type Schedule = Pick<ReviewCard, 'ease' | 'interval' | 'repetitions' | 'lapses' | 'dueAt'>;
+
+function schedule(card: ReviewCard, grade: ReviewGrade, now: Date): Schedule {
+  const penalty = 5 - gradeQuality[grade];
+  const ease = Math.max(MIN_EASE, card.ease + 0.1 - penalty * (0.08 + penalty * 0.02));
+  if (grade === 'again') {
+    return { ease, interval: 0, repetitions: 0, lapses: card.lapses + 1, dueAt: new Date(now.getTime() + RELEARN_DELAY_MS) };
+  }
+
+  let interval: number;
+  if (card.repetitions === 0) {
+    interval = grade === 'easy' ? 4 : 1;
+  } else if (card.repetitions === 1) {
+    interval = grade === 'hard' ? 3 : grade === 'easy' ? 8 : 6;
+  } else {
+    const factor = grade === 'hard' ? 1.2 : grade === 'easy' ? ease * 1.3 : ease;
+    interval = Math.max(card.interval + 1, Math.round(card.interval * factor));
+  }
+  return { ease, interval, repetitions: card.repetitions + 1, lapses: card.lapses, dueAt: new Date(now.getTime() + interval * DAY_MS) };
+}
+
+export function reviewCard(card: ReviewCard, grade: ReviewGrade, now = new Date()): ReviewCard {
+  const next = schedule(card, grade, now);
+  return {
+    ...card,
+    ...next,
+    reviews: [...card.reviews, { reviewedAt: now, grade, interval: next.interval }],
+    updatedAt: now,
+  };
+}
+
+// When the card would come back, for the grade buttons
+export function previewInterval(card: ReviewCard, grade: ReviewGrade, now = new Date()): string {
+  if (grade === 'again') return '10m';
+  const days = schedule(card, grade, now).interval;
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
+
+// Everything due by the end of today, so a day's reviews can be done in one sitting
+export function getDueCards(cards: ReviewCard[], now = new Date()): ReviewCard[] {
+  const endOfDay = new Date(now);
+  endOfDay.setHours(23, 59, 59, 999);
+  return cards
+    .filter(card => card.dueAt.getTime() <= endOfDay.getTime())
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
+
+function createCard(sourceKey: string, fields: Pick<ReviewCard, 'front' | 'back'> & Partial<ReviewCard>, now: Date): ReviewCard {
+  return {
+    ...fields,
+    id: generateId(),
+    sourceKey,
+    ease: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now,
+    reviews: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// The same question asked again (in another quiz, or after an edit to its
+// capitalisation) maps to the same card
+function cardKey(type: 'quiz' | 'note', sourceId: string, text: string): string {
+  return `${type}:${sourceId}:${text.trim().replace(/\s+/g, ' ').toLowerCase()}`;
+}
+
+// Full marks is "good", at least half is "hard", less is "again"
+function gradeFromCredit(credit: number): ReviewGrade {
+  if (credit >= 1) return 'good';
+  return credit >= 0.5 ? 'hard' : 'again';
+}
+
+/**
+ * Adds a finished quiz's questions to the deck. For a new card the quiz
+ * answer counts as its first review, graded by the marks it earned; a
+ * question already in the deck is only rescheduled without full marks.
+ */
+export function addQuizToDeck(cards: ReviewCard[], session: StudySession, now = new Date()): ReviewCard[] {
+  const byKey = new Map(cards.map(card => [card.sourceKey, card]));
+  session.questions.forEach(question => {
+    if (question.isCorrect === undefined) return;
+    const key = cardKey('quiz', session.conversationId, question.question);
+    const grade = gradeFromCredit(getQuestionCredit(question));
+    const existing = byKey.get(key);
+    if (existing) {
+      if (!question.isCorrect) byKey.set(key, reviewCard(existing, grade, now));
+      return;
+    }
+    const card = createCard(key, {
+      conversationId: session.conversationId,
+      front: question.question,
+      back: getCorrectAnswerText(question),
+      ...(isSingleChoice(question) && { options: question.options, correctAnswer: question.correctAnswer }),
+      explanation: question.explanation,
+    }, now);
+    byKey.set(key, reviewCard(card, grade, now));
+  });
+  return [...byKey.values()];
+}
+
+/**
+ * Question/answer pairs written in a note: `front :: back` lines, or a
+ * `Q: ...` line followed by an `A: ...` line. Code blocks are skipped.
+ */
+export function extractNoteCards(content: string): { front: string; back: string }[] {
+  const lines = content.split('\n').map(line => line.trim().replace(/^[-*+]\s+/, ''));
+  const pairs: { front: string; back: string }[] = [];
+  let inCode = false;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith('```')) inCode = !inCode;
+    if (inCode) continue;
+    const inline = /^(.+?)\s+::\s+(.+)$/.exec(line);
+    if (inline) {
+      pairs.push({ front: inline[1], back: inline[2] });
+      continue;
+    }
+    const question = /^Q:\s*(.+)$/i.exec(line);
+    const answer = question && /^A:\s*(.+)$/i.exec(lines[i + 1] ?? '');
+    if (question && answer) {
+      pairs.push({ front: question[1], back: answer[1] });
+      i++;
+    }
+  }
+  return pairs;
+}
+
+// Brings the deck in line with a note: new pairs become cards, changed answers
+// are updated (keeping their schedule) and cards whose pair is gone are removed
+export function syncNoteCards(cards: ReviewCard[], note: Note, content = note.content, now = new Date()): NoteCardsResult {
+  const pairs = new Map(extractNoteCards(content).map(pair => [cardKey('note', note.id, pair.front), pair]));
+  let updated = 0;
+  let removed = 0;
+
+  const kept = cards.flatMap(card => {
+    if (card.noteId !== note.id) return [card];
+    const pair = pairs.get(card.sourceKey);
+    if (!pair) {
+      removed++;
+      return [];
+    }
+    pairs.delete(card.sourceKey);
+    if (pair.front === card.front && pair.back === card.back) return [card];
+    updated++;
+    return [{ ...card, front: pair.front, back: pair.back, updatedAt: now }];
+  });
+  const created = [...pairs].map(([key, pair]) => createCard(key, { noteId: note.id, ...pair }, now));
+  return { cards: [...kept, ...created], added: created.length, updated, removed };
+}
@@ -0,0 +1,129 @@
+// src/utils/stemmer.ts
+
+// Porter's stemming algorithm (1980), used so "deriving", "derived" and
+// "derivation" all index as "deriv". Expects a lowercase a-z word; anything
+// else is returned unchanged.
+
+function isConsonant(word: string, i: number): boolean {
+  const ch = word[i];
+  if ('aeiou'.includes(ch)) return false;
+  // "y" is a vowel after a consonant ("syzygy"), a consonant otherwise ("yes", "toy")
+  if (ch === 'y') return i === 0 || !isConsonant(word, i - 1);
+  return true;
+}
+
+// Number of vowel-consonant sequences, Porter's "m"
+function measure(stem: string): number {
+  let count = 0;
+  let i = 0;
+  while (i < stem.length && isConsonant(stem, i)) i++;
+  while (i < stem.length) {
+    while (i < stem.length && !isConsonant(stem, i)) i++;
+    if (i >= stem.length) break;
+    while (i < stem.length && isConsonant(stem, i)) i++;
+    count++;
+  }
+  return count;
+}
+
+function hasVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+// Consonant-vowel-consonant, where the last is not w, x or y ("hop", not "snow")
+function endsWithCvc(word: string): boolean {
+  const n = word.length;
+  return n >= 3
+    && isConsonant(word, n - 3)
+    && !isConsonant(word, n - 2)
+    && isConsonant(word, n - 1)
+    && !'wxy'.includes(word[n - 1]);
+}
+
+// Applies the first rule whose suffix matches; later rules are not tried even
+// when its condition fails
+function applyRules(word: string, rules: [string, string][], condition: (stem: string) => boolean): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return condition(stem) ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+const step2Rules: [string, string][] = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['abli', 'able'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'],
+];
+
+const step3Rules: [string, string][] = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', ''],
+];
+
+const step4Suffixes = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent',
+  'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize',
+];
+
+function step1(word: string): string {
+  // Plurals
+  if (word.endsWith('sses')) word = word.slice(0, -2);
+  else if (word.endsWith('ies')) word = word.slice(0, -2);
+  else if (word.endsWith('s') && !word.endsWith('ss')) word = word.slice(0, -1);
+
+  // -ed and -ing
+  if (word.endsWith('eed')) {
+    if (measure(word.slice(0, -3)) > 0) word = word.slice(0, -1);
+  } else {
+    const suffix = word.endsWith('ed') ? 'ed' : word.endsWith('ing') ? 'ing' : '';
+    const stem = suffix ? word.slice(0, -suffix.length) : '';
+    if (suffix && hasVowel(stem)) {
+      word = stem;
+      if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) word += 'e';
+      else if (endsWithDoubleConsonant(word) && !'lsz'.includes(word[word.length - 1])) word = word.slice(0, -1);
+      else if (measure(word) === 1 && endsWithCvc(word)) word += 'e';
+    }
+  }
+
+  if (word.endsWith('y') && hasVowel(word.slice(0, -1))) word = `${word.slice(0, -1)}i`;
+  return word;
+}
+
+function step4(word: string): string {
+  const suffix = step4Suffixes.find(s => word.endsWith(s));
+  if (!suffix) return word;
+  const stem = word.slice(0, -suffix.length);
+  if (measure(stem) <= 1) return word;
+  if (suffix === 'ion' && !stem.endsWith('s') && !stem.endsWith('t')) return word;
+  return stem;
+}
+
+function step5(word: string): string {
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsWithCvc(stem))) word = stem;
+  }
+  if (word.endsWith('ll') && measure(word) > 1) word = word.slice(0, -1);
+  return word;
+}
+
+export function stem(word: string): string {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) return word;
+  let result = step1(word);
+  result = applyRules(result, step2Rules, s => measure(s) > 0);
+  result = applyRules(result, step3Rules, s => measure(s) > 0);
+  result = step4(result);
+  return step5(result);
+}
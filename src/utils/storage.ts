@@ -1,9 +1,28 @@
-import { Conversation, APISettings, Note, Flowchart } from '../types';
+import { AIModel, Conversation, APISettings, CustomEndpoint, Note, NoteRevision, Flowchart, Folder, QuizQuestion, ReviewCard, ReviewLogEntry, StudySession, TutorMode, UsageLog } from '../types';
+import {
+  clearDatabase,
+  deleteTombstones,
+  EntityStore,
+  getAllRecords,
+  getTombstones,
+  getQuarantinedRecords,
+  QuarantinedRecord,
+  QuarantineEntry,
+  quarantineRecords,
+  Tombstone,
+  writeRecords,
+} from './database';
+import { keyVault, stripSecrets } from './keyVault';
+import { publishRecords, RecordsMessage, subscribeToRecords, subscribeToStorageKey } from './tabSync';
 
 const CONVERSATIONS_KEY = 'ai-tutor-conversations';
 const SETTINGS_KEY = 'ai-tutor-settings';
+const SETTINGS_UPDATED_KEY = 'ai-tutor-settings-updated';
 const NOTES_KEY = 'ai-tutor-notes';
 const FLOWCHARTS_KEY = 'ai-tutor-flowcharts';
+const USAGE_KEY = 'ai-tutor-usage';
+// An unreadable usage log, set aside so the next save doesn't overwrite it
+const UNREADABLE_USAGE_KEY = 'ai-tutor-usage-unreadable';
 
 const defaultSettings: APISettings = {
   googleApiKey: '',
@@ -11,8 +30,12 @@ const defaultSettings: APISettings = {
   mistralApiKey: '',
   groqApiKey: '',     // New
   cerebrasApiKey: '', // New
+  customEndpoints: [],
   selectedModel: 'gemini-2.5-flash', // Updated default
   selectedTutorMode: 'standard',
+  maxRetries: 2,
+  retryBaseDelayMs: 1000,
+  dailyTokenBudgets: {},
 };
 
 // Helper function to safely parse dates
@@ -22,48 +45,290 @@ function parseDate(dateValue: any): Date {
   return isNaN(parsed.getTime()) ? new Date() : parsed;
 }
 
-export const storageUtils = {
-  getConversations(): Conversation[] {
+// Where versions before the IndexedDB store kept each entity list
+const LEGACY_KEYS: Partial<Record<EntityStore, string>> = {
+  conversations: CONVERSATIONS_KEY,
+  notes: NOTES_KEY,
+  flowcharts: FLOWCHARTS_KEY,
+};
+
+// JSON of each record as last loaded, saved or received from another tab, so
+// a save only writes what changed
+const savedSnapshots: Record<EntityStore, Map<string, string>> = {
+  conversations: new Map(),
+  notes: new Map(),
+  flowcharts: new Map(),
+  folders: new Map(),
+  quizSessions: new Map(),
+  reviewCards: new Map(),
+};
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// The parsers normalise a stored record and throw when it can't be used;
+// such records are quarantined rather than dropped
+
+export function toConversation(conv: any): Conversation {
+  if (!conv || typeof conv.id !== 'string') throw new Error('Conversation has no id');
+  if (!Array.isArray(conv.messages)) throw new Error(`Conversation ${conv.id} has no message list`);
+  return {
+    ...conv,
+    createdAt: parseDate(conv.createdAt),
+    updatedAt: parseDate(conv.updatedAt),
+    ...(conv.changedAt !== undefined && { changedAt: parseDate(conv.changedAt) }),
+    // Conversations saved before branching are a single chain in array order
+    messages: conv.messages.map((msg: any, index: number) => ({
+      ...msg,
+      parentId: msg.parentId !== undefined ? msg.parentId : index > 0 ? conv.messages[index - 1].id : null,
+      timestamp: parseDate(msg.timestamp),
+    })),
+  };
+}
+
+export function toNote(note: any): Note {
+  if (!note || typeof note.id !== 'string') throw new Error('Note has no id');
+  if (typeof note.content !== 'string') throw new Error(`Note ${note.id} has no content`);
+  return {
+    ...note,
+    createdAt: parseDate(note.createdAt),
+    updatedAt: parseDate(note.updatedAt),
+    ...(note.changedAt !== undefined && { changedAt: parseDate(note.changedAt) }),
+    ...(Array.isArray(note.revisions) && {
+      revisions: note.revisions.map((revision: NoteRevision) => ({ ...revision, savedAt: parseDate(revision.savedAt) })),
+    }),
+  };
+}
+
+export function toFlowchart(chart: any): Flowchart {
+  if (!chart || typeof chart.id !== 'string') throw new Error('Flowchart has no id');
+  if (!Array.isArray(chart.nodes) || !Array.isArray(chart.edges)) {
+    throw new Error(`Flowchart ${chart.id} has no nodes or edges`);
+  }
+  return {
+    ...chart,
+    createdAt: parseDate(chart.createdAt),
+    updatedAt: parseDate(chart.updatedAt),
+    ...(chart.changedAt !== undefined && { changedAt: parseDate(chart.changedAt) }),
+  };
+}
+
+export function toFolder(record: unknown): Folder {
+  const folder = record as Partial<Record<keyof Folder, unknown>> | null;
+  if (!folder || typeof folder.id !== 'string') throw new Error('Folder has no id');
+  if (typeof folder.name !== 'string') throw new Error(`Folder ${folder.id} has no name`);
+  return {
+    id: folder.id,
+    name: folder.name,
+    parentId: typeof folder.parentId === 'string' ? folder.parentId : null,
+    createdAt: parseDate(folder.createdAt),
+    updatedAt: parseDate(folder.updatedAt),
+  };
+}
+
+export function toStudySession(record: unknown): StudySession {
+  const session = record as Partial<Record<keyof StudySession, unknown>> | null;
+  if (!session || typeof session.id !== 'string') throw new Error('Quiz session has no id');
+  if (typeof session.conversationId !== 'string') throw new Error(`Quiz session ${session.id} has no conversation`);
+  if (!Array.isArray(session.questions)) throw new Error(`Quiz session ${session.id} has no questions`);
+  // Questions saved before there were other types are multiple choice
+  const questions = (session.questions as QuizQuestion[]).map(question => (question.type ? question : { ...question, type: 'multiple-choice' as const }));
+  return {
+    id: session.id,
+    conversationId: session.conversationId,
+    questions,
+    currentQuestionIndex: typeof session.currentQuestionIndex === 'number' ? session.currentQuestionIndex : 0,
+    score: typeof session.score === 'number' ? session.score : questions.filter(question => question.isCorrect).length,
+    totalQuestions: questions.length,
+    isCompleted: session.isCompleted === true,
+    createdAt: parseDate(session.createdAt),
+    updatedAt: parseDate(session.updatedAt ?? session.createdAt),
+    ...(session.completedAt !== undefined && { completedAt: parseDate(session.completedAt) }),
+    ...(typeof session.retakeOf === 'string' && { retakeOf: session.retakeOf }),
+  };
+}
+
+export function toReviewCard(record: unknown): ReviewCard {
+  const card = record as Partial<Record<keyof ReviewCard, unknown>> | null;
+  if (!card || typeof card.id !== 'string') throw new Error('Review card has no id');
+  if (typeof card.sourceKey !== 'string' || typeof card.front !== 'string' || typeof card.back !== 'string') {
+    throw new Error(`Review card ${card.id} has no question or answer`);
+  }
+  const number = (value: unknown, fallback: number) => (typeof value === 'number' && isFinite(value) ? value : fallback);
+  return {
+    ...(card as ReviewCard),
+    ease: number(card.ease, 2.5),
+    interval: number(card.interval, 0),
+    repetitions: number(card.repetitions, 0),
+    lapses: number(card.lapses, 0),
+    dueAt: parseDate(card.dueAt),
+    reviews: Array.isArray(card.reviews)
+      ? card.reviews.map((entry: ReviewLogEntry) => ({ ...entry, reviewedAt: parseDate(entry.reviewedAt) }))
+      : [],
+    createdAt: parseDate(card.createdAt),
+    updatedAt: parseDate(card.updatedAt),
+  };
+}
+
+// Settings as saved, synced or imported: malformed fields are dropped and
+// missing ones take their defaults. Throws when there are no settings at all.
+export function toSettings(record: unknown): APISettings {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) throw new Error('Settings are not an object');
+  const settings = record as Partial<Record<keyof APISettings, unknown>>;
+  const text = (value: unknown) => (typeof value === 'string' ? value : '');
+  const count = (value: unknown, fallback: number) => (typeof value === 'number' && isFinite(value) && value >= 0 ? value : fallback);
+  const endpoints = Array.isArray(settings.customEndpoints) ? settings.customEndpoints : [];
+  const budgets = settings.dailyTokenBudgets && typeof settings.dailyTokenBudgets === 'object' ? settings.dailyTokenBudgets : {};
+  return {
+    googleApiKey: text(settings.googleApiKey),
+    zhipuApiKey: text(settings.zhipuApiKey),
+    mistralApiKey: text(settings.mistralApiKey),
+    groqApiKey: text(settings.groqApiKey),
+    cerebrasApiKey: text(settings.cerebrasApiKey),
+    customEndpoints: endpoints
+      .filter((endpoint: Partial<Record<keyof CustomEndpoint, unknown>> | null) =>
+        !!endpoint && typeof endpoint.id === 'string' && typeof endpoint.baseUrl === 'string'
+      )
+      .map((endpoint: Partial<Record<keyof CustomEndpoint, unknown>>) => ({
+        id: endpoint.id as string,
+        name: text(endpoint.name),
+        baseUrl: endpoint.baseUrl as string,
+        apiKey: text(endpoint.apiKey),
+        models: Array.isArray(endpoint.models) ? endpoint.models.filter((model): model is string => typeof model === 'string') : [],
+      })),
+    selectedModel: typeof settings.selectedModel === 'string' && settings.selectedModel ? settings.selectedModel as AIModel : defaultSettings.selectedModel,
+    selectedTutorMode: typeof settings.selectedTutorMode === 'string' && settings.selectedTutorMode
+      ? settings.selectedTutorMode as TutorMode
+      : defaultSettings.selectedTutorMode,
+    quizModel: typeof settings.quizModel === 'string' && settings.quizModel ? settings.quizModel as AIModel : undefined,
+    maxRetries: count(settings.maxRetries, defaultSettings.maxRetries),
+    retryBaseDelayMs: count(settings.retryBaseDelayMs, defaultSettings.retryBaseDelayMs),
+    dailyTokenBudgets: Object.fromEntries(
+      Object.entries(budgets).filter((entry): entry is [string, number] => typeof entry[1] === 'number' && isFinite(entry[1]))
+    ),
+  };
+}
+
+// Moves a list saved by an earlier version into the database, then removes
+// the localStorage key. Runs once per store; items that don't parse are quarantined.
+async function migrateLegacyData<T extends { id: string }>(store: EntityStore, parse: (record: unknown) => T): Promise<void> {
+  const key = LEGACY_KEYS[store];
+  const stored = key ? localStorage.getItem(key) : null;
+  if (!key || stored === null) return;
+
+  let items: unknown[];
+  try {
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) throw new Error('Expected a list');
+    items = parsed;
+  } catch (error) {
+    await quarantineRecords(store, [{ data: stored, reason: `Unreadable ${key}: ${describeError(error)}` }]);
+    localStorage.removeItem(key);
+    return;
+  }
+
+  const records: T[] = [];
+  const rejected: QuarantineEntry[] = [];
+  items.forEach(item => {
     try {
-      const stored = localStorage.getItem(CONVERSATIONS_KEY);
-      if (!stored) return [];
-      
-      const parsed = JSON.parse(stored);
-      if (!Array.isArray(parsed)) {
-        console.error('Invalid conversations format');
-        return [];
-      }
-
-      return parsed.map((conv: any) => ({
-        ...conv,
-        createdAt: parseDate(conv.createdAt),
-        updatedAt: parseDate(conv.updatedAt),
-        messages: Array.isArray(conv.messages) ? conv.messages.map((msg: any) => ({
-          ...msg,
-          timestamp: parseDate(msg.timestamp),
-        })) : [],
-      }));
+      records.push(parse(item));
     } catch (error) {
-      console.error('Error loading conversations:', error);
-      // Clear corrupted data
-      localStorage.removeItem(CONVERSATIONS_KEY);
+      rejected.push({ data: item, reason: describeError(error) });
+    }
+  });
+  await writeRecords(store, records);
+  await quarantineRecords(store, rejected);
+  localStorage.removeItem(key);
+}
+
+async function loadStore<T extends { id: string }>(store: EntityStore, parse: (record: unknown) => T): Promise<T[]> {
+  await migrateLegacyData(store, parse);
+
+  const items: T[] = [];
+  const rejected: QuarantineEntry[] = [];
+  for (const record of await getAllRecords(store)) {
+    try {
+      items.push(parse(record));
+    } catch (error) {
+      rejected.push({ key: (record as { id: IDBValidKey }).id, data: record, reason: describeError(error) });
+    }
+  }
+  await quarantineRecords(store, rejected);
+
+  savedSnapshots[store] = new Map(items.map(item => [item.id, JSON.stringify(item)]));
+  return items;
+}
+
+async function saveStore<T extends { id: string }>(store: EntityStore, items: T[]): Promise<void> {
+  const previous = savedSnapshots[store];
+  const next = new Map(items.map(item => [item.id, JSON.stringify(item)]));
+  const changed = items.filter(item => previous.get(item.id) !== next.get(item.id));
+  const removed = [...previous.keys()].filter(id => !next.has(id));
+
+  await writeRecords(store, changed, removed);
+  savedSnapshots[store] = next;
+  publishRecords({ store, records: changed, removed });
+}
+
+const parsers = {
+  conversations: toConversation,
+  notes: toNote,
+  flowcharts: toFlowchart,
+  folders: toFolder,
+  quizSessions: toStudySession,
+  reviewCards: toReviewCard,
+};
+
+// Another tab's write, with records parsed like stored ones
+export type EntityChange =
+  | { store: 'conversations'; records: Conversation[]; removed: string[] }
+  | { store: 'notes'; records: Note[]; removed: string[] }
+  | { store: 'flowcharts'; records: Flowchart[]; removed: string[] }
+  | { store: 'folders'; records: Folder[]; removed: string[] }
+  | { store: 'quizSessions'; records: StudySession[]; removed: string[] }
+  | { store: 'reviewCards'; records: ReviewCard[]; removed: string[] };
+
+// The other tab has already written these records, so they become the
+// snapshot; a local copy that wins the merge differs from it and is saved again
+function receiveRecords({ store, records, removed }: RecordsMessage): EntityChange {
+  const snapshot = savedSnapshots[store];
+  const parse: (record: unknown) => { id: string } = parsers[store];
+  const items = records.flatMap(record => {
+    try {
+      const item = parse(record);
+      snapshot.set(item.id, JSON.stringify(item));
+      return [item];
+    } catch (error) {
+      console.error(`Ignoring unreadable record from another tab (${store}):`, error);
       return [];
     }
+  });
+  removed.forEach(id => snapshot.delete(id));
+  return { store, records: items, removed } as EntityChange;
+}
+
+function handleSaveError(error: unknown, label: string): void {
+  console.error(`Error saving ${label}:`, error);
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    alert(`Storage quota exceeded. Please delete some ${label}.`);
+  }
+}
+
+// Conversations, notes, flowcharts, folders, quiz sessions and review cards live
+// in IndexedDB, one record each.
+// Settings and the usage log are small and read synchronously, so they stay
+// in localStorage. The entity loaders reject when the database can't be opened.
+export const storageUtils = {
+  getConversations(): Promise<Conversation[]> {
+    return loadStore('conversations', toConversation);
   },
 
-  saveConversations(conversations: Conversation[]): void {
+  async saveConversations(conversations: Conversation[]): Promise<void> {
     try {
-      if (!Array.isArray(conversations)) {
-        console.error('Invalid conversations data');
-        return;
-      }
-      localStorage.setItem(CONVERSATIONS_KEY, JSON.stringify(conversations));
+      await saveStore('conversations', conversations);
     } catch (error) {
-      console.error('Error saving conversations:', error);
-      // Handle quota exceeded error
-      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-        alert('Storage quota exceeded. Please delete some conversations.');
-      }
+      handleSaveError(error, 'conversations');
     }
   },
 
@@ -72,17 +337,7 @@ export const storageUtils = {
       const stored = localStorage.getItem(SETTINGS_KEY);
       if (!stored) return defaultSettings;
       
-      const parsed = JSON.parse(stored);
-      // Ensure all required fields exist
-      return {
-        googleApiKey: parsed.googleApiKey || '',
-        zhipuApiKey: parsed.zhipuApiKey || '',
-        mistralApiKey: parsed.mistralApiKey || '',
-        groqApiKey: parsed.groqApiKey || '',         // New
-        cerebrasApiKey: parsed.cerebrasApiKey || '', // New
-        selectedModel: parsed.selectedModel || 'gemini-2.5-flash',
-        selectedTutorMode: parsed.selectedTutorMode || 'standard',
-      };
+      return toSettings(JSON.parse(stored));
     } catch (error) {
       console.error('Error loading settings:', error);
       localStorage.removeItem(SETTINGS_KEY);
@@ -90,96 +345,143 @@ export const storageUtils = {
     }
   },
 
-  saveSettings(settings: APISettings): void {
+  // With the key vault enabled, keys are only stored encrypted (see keyVault).
+  // `updatedAt` is passed when applying settings synced from another device.
+  saveSettings(settings: APISettings, updatedAt = new Date()): void {
     try {
-      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+      const stored = keyVault.isEnabled() ? stripSecrets(settings) : settings;
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(stored));
+      localStorage.setItem(SETTINGS_UPDATED_KEY, updatedAt.toISOString());
     } catch (error) {
       console.error('Error saving settings:', error);
     }
   },
 
-  getNotes(): Note[] {
+  // Settings saved before this was tracked count as never changed
+  getSettingsUpdatedAt(): Date {
+    const stored = localStorage.getItem(SETTINGS_UPDATED_KEY);
+    return stored ? parseDate(stored) : new Date(0);
+  },
+
+  getNotes(): Promise<Note[]> {
+    return loadStore('notes', toNote);
+  },
+
+  async saveNotes(notes: Note[]): Promise<void> {
     try {
-      const stored = localStorage.getItem(NOTES_KEY);
-      if (!stored) return [];
-      
-      const parsed = JSON.parse(stored);
-      if (!Array.isArray(parsed)) {
-        console.error('Invalid notes format');
-        return [];
-      }
-
-      return parsed.map((note: any) => ({
-        ...note,
-        createdAt: parseDate(note.createdAt),
-        updatedAt: parseDate(note.updatedAt),
-      }));
+      await saveStore('notes', notes);
     } catch (error) {
-      console.error('Error loading notes:', error);
-      localStorage.removeItem(NOTES_KEY);
-      return [];
+      handleSaveError(error, 'notes');
     }
   },
 
-  saveNotes(notes: Note[]): void {
+  getFlowcharts(): Promise<Flowchart[]> {
+    return loadStore('flowcharts', toFlowchart);
+  },
+
+  async saveFlowcharts(flowcharts: Flowchart[]): Promise<void> {
     try {
-      if (!Array.isArray(notes)) {
-        console.error('Invalid notes data');
-        return;
-      }
-      localStorage.setItem(NOTES_KEY, JSON.stringify(notes));
+      await saveStore('flowcharts', flowcharts);
     } catch (error) {
-      console.error('Error saving notes:', error);
-      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-        alert('Storage quota exceeded. Please delete some notes.');
-      }
+      handleSaveError(error, 'flowcharts');
     }
   },
 
-  getFlowcharts(): Flowchart[] {
+  getFolders(): Promise<Folder[]> {
+    return loadStore('folders', toFolder);
+  },
+
+  async saveFolders(folders: Folder[]): Promise<void> {
     try {
-      const stored = localStorage.getItem(FLOWCHARTS_KEY);
-      if (!stored) return [];
-      
+      await saveStore('folders', folders);
+    } catch (error) {
+      handleSaveError(error, 'folders');
+    }
+  },
+
+  getQuizSessions(): Promise<StudySession[]> {
+    return loadStore('quizSessions', toStudySession);
+  },
+
+  async saveQuizSessions(sessions: StudySession[]): Promise<void> {
+    try {
+      await saveStore('quizSessions', sessions);
+    } catch (error) {
+      handleSaveError(error, 'quiz history');
+    }
+  },
+
+  getReviewCards(): Promise<ReviewCard[]> {
+    return loadStore('reviewCards', toReviewCard);
+  },
+
+  async saveReviewCards(cards: ReviewCard[]): Promise<void> {
+    try {
+      await saveStore('reviewCards', cards);
+    } catch (error) {
+      handleSaveError(error, 'review cards');
+    }
+  },
+
+  // Calls `listener` with every write another open tab makes
+  subscribeToChanges(listener: (change: EntityChange) => void): () => void {
+    return subscribeToRecords(message => listener(receiveRecords(message)));
+  },
+
+  subscribeToSettings(listener: (settings: APISettings) => void): () => void {
+    return subscribeToStorageKey(SETTINGS_KEY, () => listener(storageUtils.getSettings()));
+  },
+
+  getTombstones(): Promise<Tombstone[]> {
+    return getTombstones();
+  },
+
+  deleteTombstones(ids: string[]): Promise<void> {
+    return deleteTombstones(ids);
+  },
+
+  getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+    return getQuarantinedRecords();
+  },
+
+  getUsageLog(): UsageLog {
+    try {
+      const stored = localStorage.getItem(USAGE_KEY);
+      if (!stored) return {};
+
       const parsed = JSON.parse(stored);
-      if (!Array.isArray(parsed)) {
-        console.error('Invalid flowcharts format');
-        return [];
-      }
-
-      return parsed.map((chart: any) => ({
-        ...chart,
-        createdAt: parseDate(chart.createdAt),
-        updatedAt: parseDate(chart.updatedAt),
-      }));
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
     } catch (error) {
-      console.error('Error loading flowcharts:', error);
-      localStorage.removeItem(FLOWCHARTS_KEY);
-      return [];
+      console.error('Error loading usage log:', error);
+      const stored = localStorage.getItem(USAGE_KEY);
+      if (stored !== null) localStorage.setItem(UNREADABLE_USAGE_KEY, stored);
+      return {};
     }
   },
 
-  saveFlowcharts(flowcharts: Flowchart[]): void {
+  saveUsageLog(log: UsageLog): void {
     try {
-      if (!Array.isArray(flowcharts)) {
-        console.error('Invalid flowcharts data');
-        return;
-      }
-      localStorage.setItem(FLOWCHARTS_KEY, JSON.stringify(flowcharts));
+      localStorage.setItem(USAGE_KEY, JSON.stringify(log));
     } catch (error) {
-      console.error('Error saving flowcharts:', error);
-      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-        alert('Storage quota exceeded. Please delete some flowcharts.');
-      }
+      console.error('Error saving usage log:', error);
     }
   },
 
-  clearAllData(): void {
+  async clearAllData(): Promise<void> {
     try {
+      await clearDatabase();
+      (Object.keys(savedSnapshots) as EntityStore[]).forEach(store => {
+        publishRecords({ store, records: [], removed: [...savedSnapshots[store].keys()] });
+        savedSnapshots[store].clear();
+      });
       localStorage.removeItem(CONVERSATIONS_KEY);
       localStorage.removeItem(SETTINGS_KEY);
+      localStorage.removeItem(SETTINGS_UPDATED_KEY);
       localStorage.removeItem(NOTES_KEY);
       localStorage.removeItem(FLOWCHARTS_KEY);
+      localStorage.removeItem(USAGE_KEY);
+      localStorage.removeItem(UNREADABLE_USAGE_KEY);
+      keyVault.disable();
     } catch (error) {
       console.error('Error clearing data:', error);
     }
@@ -0,0 +1,101 @@
+// src/utils/tabSync.ts
+import { EntityStore } from './database';
+import { getChangedAt } from './helpers';
+
+const CHANNEL_NAME = 'ai-tutor-sync';
+const LOCK_PREFIX = 'ai-tutor-conversation:';
+
+// Records one tab wrote to the database, sent to the other open tabs
+export interface RecordsMessage {
+  store: EntityStore;
+  records: unknown[];
+  removed: string[];
+}
+
+let channel: BroadcastChannel | null | undefined;
+
+// Created on first use; null where BroadcastChannel is unavailable, in which
+// case each tab simply works on its own
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+export function publishRecords(message: RecordsMessage): void {
+  if (message.records.length === 0 && message.removed.length === 0) return;
+  try {
+    getChannel()?.postMessage(message);
+  } catch (error) {
+    console.error('Error broadcasting changes:', error);
+  }
+}
+
+// A channel never receives its own messages, so listeners only see other tabs' writes
+export function subscribeToRecords(listener: (message: RecordsMessage) => void): () => void {
+  const current = getChannel();
+  if (!current) return () => {};
+  const handleMessage = (event: MessageEvent<RecordsMessage>) => listener(event.data);
+  current.addEventListener('message', handleMessage);
+  return () => current.removeEventListener('message', handleMessage);
+}
+
+// localStorage fires `storage` in every other tab when a key changes
+export function subscribeToStorageKey(key: string, listener: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === key) listener();
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
+
+/**
+ * Applies another tab's changes to this tab's list. For a record both tabs
+ * changed, the later change (see getChangedAt) wins, the incoming one on a tie. Returns
+ * `local` itself when the changes are already in it, so React skips the update.
+ */
+export function mergeRecords<T extends { id: string; updatedAt: Date; changedAt?: Date }>(local: T[], incoming: T[], removed: string[]): T[] {
+  const updates = new Map<string, T>();
+  incoming.forEach(record => updates.set(record.id, record));
+  const removedIds = new Set(removed);
+
+  let changed = false;
+  const merged: T[] = [];
+  local.forEach(item => {
+    if (removedIds.has(item.id)) {
+      changed = true;
+      return;
+    }
+    const update = updates.get(item.id);
+    updates.delete(item.id);
+    if (!update || JSON.stringify(update) === JSON.stringify(item)) {
+      merged.push(item);
+      return;
+    }
+    // Even when the local copy wins, the list is replaced so the debounced
+    // save runs and writes it back over the older record
+    changed = true;
+    merged.push(getChangedAt(update).getTime() >= getChangedAt(item).getTime() ? update : item);
+  });
+  if (updates.size > 0) changed = true;
+  return changed ? [...updates.values(), ...merged] : local;
+}
+
+/**
+ * Runs `task` while holding a lock on the conversation that spans every tab,
+ * so two tabs never stream into the same conversation. Resolves to false,
+ * without running the task, when another tab holds the lock. Browsers
+ * without the Web Locks API run the task unguarded.
+ */
+export async function withConversationLock(conversationId: string, task: () => Promise<void>): Promise<boolean> {
+  if (!navigator.locks) {
+    await task();
+    return true;
+  }
+  return navigator.locks.request(LOCK_PREFIX + conversationId, { ifAvailable: true }, async lock => {
+    if (!lock) return false;
+    await task();
+    return true;
+  });
+}
@@ -0,0 +1,67 @@
+// src/utils/textDiff.ts
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many line pairs, the changed block is shown as removed then added
+const MAX_COMPARISONS = 4_000_000;
+
+const line = (type: DiffLine['type']) => (text: string): DiffLine => ({ type, text });
+
+/**
+ * Line diff from `before` to `after`, via the longest common subsequence.
+ * The shared start and end are split off first, so editing one paragraph of
+ * a long note only compares that paragraph.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const oldLines = a.slice(start, endA);
+  const newLines = b.slice(start, endB);
+  const n = oldLines.length;
+  const m = newLines.length;
+  const changed: DiffLine[] = [];
+
+  if (n * m > MAX_COMPARISONS) {
+    changed.push(...oldLines.map(line('removed')), ...newLines.map(line('added')));
+  } else {
+    // common[i * (m + 1) + j]: LCS length of oldLines[i..] and newLines[j..]
+    const width = m + 1;
+    const common = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        common[i * width + j] = oldLines[i] === newLines[j]
+          ? common[(i + 1) * width + j + 1] + 1
+          : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (oldLines[i] === newLines[j]) {
+        changed.push({ type: 'same', text: oldLines[i] });
+        i++;
+        j++;
+      } else if (common[(i + 1) * width + j] >= common[i * width + j + 1]) {
+        changed.push({ type: 'removed', text: oldLines[i++] });
+      } else {
+        changed.push({ type: 'added', text: newLines[j++] });
+      }
+    }
+    changed.push(...oldLines.slice(i).map(line('removed')), ...newLines.slice(j).map(line('added')));
+  }
+
+  return [...a.slice(0, start).map(line('same')), ...changed, ...a.slice(endA).map(line('same'))];
+}
@@ -0,0 +1,214 @@
+// src/utils/wikiLinks.ts
+import { Conversation, Flowchart, Note } from '../types';
+import { getActivePath } from './messageTree';
+
+// [[Title]] links a note, [[chat:Title]] a conversation and [[flow:Title]] a
+// flowchart; [[Title|text]] shows "text" instead of the title.
+
+export type WikiLinkKind = 'note' | 'chat' | 'flow';
+
+export interface WikiLink {
+  kind: WikiLinkKind;
+  title: string;
+  label: string;
+}
+
+export type LinkTarget =
+  | { type: 'note'; noteId: string }
+  | { type: 'conversation'; conversationId: string }
+  | { type: 'flowchart'; flowchartId: string };
+
+export interface WikiLinkResolver {
+  // Null when nothing has the link's title
+  resolve: (link: WikiLink) => LinkTarget | null;
+  // Opens the target; links to a missing note create it
+  open: (link: WikiLink) => void;
+}
+
+// Something a link can point to, offered while typing [[
+export interface WikiLinkCandidate {
+  kind: WikiLinkKind;
+  title: string;
+}
+
+export interface Backlink {
+  key: string;
+  target: LinkTarget;
+  title: string;
+  // Number of links from this item
+  count: number;
+}
+
+const WIKI_LINK_PATTERN = /\[\[([^[\]|\n]+?)(?:\|([^[\]\n]+?))?\]\]/g;
+const KIND_PREFIXES: Record<string, WikiLinkKind> = { 'note:': 'note', 'chat:': 'chat', 'flow:': 'flow' };
+export const WIKI_HREF_PREFIX = 'wiki:';
+const MAX_SUGGESTIONS = 8;
+
+function parseTarget(raw: string): { kind: WikiLinkKind; title: string } {
+  const trimmed = raw.trim();
+  const prefix = Object.keys(KIND_PREFIXES).find(p => trimmed.toLowerCase().startsWith(p));
+  return prefix
+    ? { kind: KIND_PREFIXES[prefix], title: trimmed.slice(prefix.length).trim() }
+    : { kind: 'note', title: trimmed };
+}
+
+export function parseWikiLinks(text: string): WikiLink[] {
+  if (!text.includes('[[')) return [];
+  return [...text.matchAll(WIKI_LINK_PATTERN)].map(match => {
+    const { kind, title } = parseTarget(match[1]);
+    return { kind, title, label: match[2]?.trim() || title };
+  }).filter(link => link.title.length > 0);
+}
+
+export function wikiLinkHref(link: WikiLink): string {
+  return `${WIKI_HREF_PREFIX}${link.kind}/${encodeURIComponent(link.title)}`;
+}
+
+export function parseWikiHref(href: string | undefined): WikiLink | null {
+  if (!href?.startsWith(WIKI_HREF_PREFIX)) return null;
+  const [kind, ...rest] = href.slice(WIKI_HREF_PREFIX.length).split('/');
+  if (!Object.values(KIND_PREFIXES).includes(kind as WikiLinkKind)) return null;
+  const title = decodeURIComponent(rest.join('/'));
+  return { kind: kind as WikiLinkKind, title, label: title };
+}
+
+// Minimal mdast shapes, enough to rewrite text nodes
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MarkdownNode[];
+}
+
+function splitText(value: string): MarkdownNode[] {
+  const nodes: MarkdownNode[] = [];
+  let position = 0;
+  for (const match of value.matchAll(WIKI_LINK_PATTERN)) {
+    const [link] = parseWikiLinks(match[0]);
+    if (!link) continue;
+    if (match.index > position) nodes.push({ type: 'text', value: value.slice(position, match.index) });
+    nodes.push({ type: 'link', url: wikiLinkHref(link), children: [{ type: 'text', value: link.label }] });
+    position = match.index + match[0].length;
+  }
+  if (position < value.length) nodes.push({ type: 'text', value: value.slice(position) });
+  return nodes;
+}
+
+function rewriteLinks(node: MarkdownNode): void {
+  if (!node.children || node.type === 'link' || node.type === 'linkReference') return;
+  node.children = node.children.flatMap(child => {
+    if (child.type === 'text' && child.value?.includes('[[')) return splitText(child.value);
+    rewriteLinks(child);
+    return [child];
+  });
+}
+
+// Remark plugin turning [[...]] in text into links to `wiki:` URLs, which
+// the note and message renderers resolve
+export function remarkWikiLinks() {
+  return (tree: MarkdownNode) => rewriteLinks(tree);
+}
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase();
+
+// Newest first, so a title shared by several items resolves to the latest
+function indexByTitle<T extends { title: string; updatedAt: Date }>(items: T[]): Map<string, T> {
+  const byTitle = new Map<string, T>();
+  [...items]
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+    .forEach(item => {
+      const key = normalizeTitle(item.title);
+      if (key && !byTitle.has(key)) byTitle.set(key, item);
+    });
+  return byTitle;
+}
+
+// Titles are matched case-insensitively
+export function createLinkResolver(conversations: Conversation[], notes: Note[], flowcharts: Flowchart[]): (link: WikiLink) => LinkTarget | null {
+  const notesByTitle = indexByTitle(notes);
+  const conversationsByTitle = indexByTitle(conversations);
+  const flowchartsByTitle = indexByTitle(flowcharts);
+  return link => {
+    const key = normalizeTitle(link.title);
+    if (link.kind === 'chat') {
+      const conversation = conversationsByTitle.get(key);
+      return conversation ? { type: 'conversation', conversationId: conversation.id } : null;
+    }
+    if (link.kind === 'flow') {
+      const flowchart = flowchartsByTitle.get(key);
+      return flowchart ? { type: 'flowchart', flowchartId: flowchart.id } : null;
+    }
+    const note = notesByTitle.get(key);
+    return note ? { type: 'note', noteId: note.id } : null;
+  };
+}
+
+export function getLinkCandidates(conversations: Conversation[], notes: Note[], flowcharts: Flowchart[]): WikiLinkCandidate[] {
+  const candidates: WikiLinkCandidate[] = [
+    ...notes.map(n => ({ kind: 'note' as const, title: n.title })),
+    ...conversations.map(c => ({ kind: 'chat' as const, title: c.title })),
+    ...flowcharts.map(f => ({ kind: 'flow' as const, title: f.title })),
+  ];
+  return candidates.filter(c => c.title.trim() && !/[[\]|\n]/.test(c.title));
+}
+
+/**
+ * Notes, conversations and flowcharts that link to `note` by its title.
+ * Conversations count links in the branch being shown.
+ */
+export function findBacklinks(note: Note, conversations: Conversation[], notes: Note[], flowcharts: Flowchart[]): Backlink[] {
+  const title = normalizeTitle(note.title);
+  if (!title) return [];
+  const countLinks = (text: string | undefined) => parseWikiLinks(text ?? '')
+    .filter(link => link.kind === 'note' && normalizeTitle(link.title) === title).length;
+
+  const backlinks: Backlink[] = [];
+  notes.forEach(other => {
+    const count = other.id === note.id ? 0 : countLinks(other.content);
+    if (count > 0) backlinks.push({ key: `note:${other.id}`, target: { type: 'note', noteId: other.id }, title: other.title, count });
+  });
+  conversations.forEach(conversation => {
+    const count = getActivePath(conversation).reduce((sum, message) => sum + countLinks(message.content), 0);
+    if (count > 0) backlinks.push({ key: `conversation:${conversation.id}`, target: { type: 'conversation', conversationId: conversation.id }, title: conversation.title, count });
+  });
+  flowcharts.forEach(flowchart => {
+    const count = countLinks(flowchart.description)
+      + flowchart.nodes.reduce((sum, node) => sum + countLinks(node.label) + countLinks(node.description), 0);
+    if (count > 0) backlinks.push({ key: `flowchart:${flowchart.id}`, target: { type: 'flowchart', flowchartId: flowchart.id }, title: flowchart.title, count });
+  });
+  return backlinks;
+}
+
+// The unfinished [[ before the caret, if any
+export function findOpenWikiLink(text: string, caret: number): { start: number; query: string } | null {
+  const start = text.lastIndexOf('[[', caret - 2);
+  if (start === -1) return null;
+  const query = text.slice(start + 2, caret);
+  if (/[[\]\n]/.test(query)) return null;
+  return { start, query };
+}
+
+export function suggestLinks(candidates: WikiLinkCandidate[], query: string): WikiLinkCandidate[] {
+  const { kind, title } = parseTarget(query);
+  const hasPrefix = kind !== 'note' || query.trim().toLowerCase().startsWith('note:');
+  const needle = normalizeTitle(title);
+  const seen = new Set<string>();
+  return candidates
+    .filter(c => (!hasPrefix || c.kind === kind) && normalizeTitle(c.title).includes(needle))
+    .sort((a, b) => Number(normalizeTitle(b.title).startsWith(needle)) - Number(normalizeTitle(a.title).startsWith(needle)))
+    .filter(c => {
+      const key = `${c.kind}:${normalizeTitle(c.title)}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+// Replaces the unfinished link with the chosen one; returns the new text and caret
+export function completeWikiLink(text: string, start: number, caret: number, candidate: WikiLinkCandidate): { text: string; caret: number } {
+  const prefix = candidate.kind === 'note' ? '' : `${candidate.kind}:`;
+  const link = `[[${prefix}${candidate.title}]]`;
+  const rest = text.slice(caret).startsWith(']]') ? text.slice(caret + 2) : text.slice(caret);
+  return { text: text.slice(0, start) + link + rest, caret: start + link.length };
+}